@@ -12,10 +12,15 @@ import { userRoutes } from "./routes/users";
 import { documentRoutes } from "./routes/documents";
 import { universityRoutes } from "./routes/universities";
 import { employerRoutes } from "./routes/employers";
+import { interviewRoutes } from "./routes/interviews";
 import { adminRoutes } from "./routes/admin";
 import { paymentRoutes } from "./routes/payments";
 import { messageRoutes } from "./routes/messages";
 import { notificationRoutes } from "./routes/notifications";
+import { teamRoutes } from "./routes/teams";
+import { apiKeyRoutes } from "./routes/api-keys";
+import { auditTrail } from "./middleware/audit";
+import type { AppEnv } from "./middleware/auth";
 import { errorHandler } from "./middleware/error-handler";
 
 const app = new Hono();
@@ -54,7 +59,10 @@ app.get("/health", (c) => {
 });
 
 // API Routes
-const api = new Hono();
+const api = new Hono<AppEnv>();
+
+// Records admin, university and employer changes in the audit log
+api.use("*", auditTrail);
 
 api.route("/auth", authRoutes);
 api.route("/users", userRoutes);
@@ -63,10 +71,13 @@ api.route("/applications", applicationRoutes);
 api.route("/documents", documentRoutes);
 api.route("/university", universityRoutes);
 api.route("/employer", employerRoutes);
+api.route("/interviews", interviewRoutes);
 api.route("/admin", adminRoutes);
 api.route("/payments", paymentRoutes);
 api.route("/messages", messageRoutes);
 api.route("/notifications", notificationRoutes);
+api.route("/team", teamRoutes);
+api.route("/api-keys", apiKeyRoutes);
 
 app.route("/api/v1", api);
 
@@ -101,4 +112,9 @@ serve({
   port,
 });
 
+// Run background jobs in-process unless a dedicated worker (npm run worker) handles them
+if (process.env.JOB_WORKER_ENABLED !== "false") {
+  await import("./worker");
+}
+
 export default app;
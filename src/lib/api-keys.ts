@@ -0,0 +1,278 @@
+import { createHash, randomBytes } from "crypto";
+import type { Prisma } from "@prisma/client";
+import { db, serializable } from "./db";
+import type { Action, Actor } from "./authorization";
+import type { Team } from "./teams";
+import { APIError } from "../middleware/error-handler";
+
+// lastUsedAt is only written when it is older than this, so busy integrations do not
+// write on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// ============================================
+// SCOPES
+// ============================================
+
+type ScopeRule = {
+  description: string;
+  teams: Team["kind"][];
+  actions: Action[];
+};
+
+// What each scope lets a key do, in terms of the authorization policy's actions
+export const API_KEY_SCOPES = {
+  "programs:read": {
+    description: "Read programs and cohorts",
+    teams: ["university", "employer"],
+    actions: ["university.view", "employer.view", "program.view"],
+  },
+  "programs:write": {
+    description: "Create and update programs and cohorts",
+    teams: ["university"],
+    actions: ["program.manage"],
+  },
+  "applications:read": {
+    description: "Read applications, candidates and their documents",
+    teams: ["university", "employer"],
+    actions: ["university.view", "employer.view", "program.view", "application.view", "document.view"],
+  },
+  "applications:decide": {
+    description: "Review, shortlist, accept and reject applications",
+    teams: ["university"],
+    actions: ["application.review"],
+  },
+  "candidates:decide": {
+    description: "Review candidates and approve or decline hires",
+    teams: ["employer"],
+    actions: ["candidate.review", "hire.approve"],
+  },
+  "interviews:manage": {
+    description: "Publish interview slots and schedule interviews",
+    teams: ["university", "employer"],
+    actions: ["interview.manage"],
+  },
+  "payments:read": {
+    description: "Read payments and receipts",
+    teams: ["university", "employer"],
+    actions: ["payment.view"],
+  },
+  "stipends:manage": {
+    description: "Schedule, export and reconcile stipend payouts",
+    teams: ["employer"],
+    actions: ["stipend.manage"],
+  },
+} satisfies Record<string, ScopeRule>;
+
+export type ApiKeyScope = keyof typeof API_KEY_SCOPES;
+
+export function isApiKeyScope(scope: string): scope is ApiKeyScope {
+  return scope in API_KEY_SCOPES;
+}
+
+export function scopeActions(scopes: string[]): Action[] {
+  const actions = scopes.filter(isApiKeyScope).flatMap((scope) => API_KEY_SCOPES[scope].actions);
+  return [...new Set(actions)];
+}
+
+function checkScopes(team: Team, scopes: string[]) {
+  for (const scope of scopes) {
+    const rule: ScopeRule | undefined = isApiKeyScope(scope) ? API_KEY_SCOPES[scope] : undefined;
+
+    if (!rule) {
+      throw new APIError(400, `Unknown scope "${scope}"`, "INVALID_SCOPE");
+    }
+
+    if (!rule.teams.includes(team.kind)) {
+      throw new APIError(400, `${scope} does not apply to ${team.kind} keys`, "INVALID_SCOPE");
+    }
+  }
+}
+
+// ============================================
+// KEYS
+// ============================================
+
+// Everything but the hash, which never leaves the database
+const apiKeyFields = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  universityId: true,
+  employerId: true,
+  serviceAccountId: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  rotatedFromId: true,
+  createdAt: true,
+  createdBy: { select: { id: true, email: true, firstName: true, lastName: true } },
+} satisfies Prisma.ApiKeySelect;
+
+function hashKey(key: string) {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+// Keys look like ws_3kq9x2ab_<secret>; the ws_3kq9x2ab prefix is stored in the clear
+function generateKey() {
+  const prefix = `ws_${randomBytes(6).toString("hex").slice(0, 8)}`;
+  const key = `${prefix}_${randomBytes(24).toString("base64url")}`;
+  return { prefix, key, keyHash: hashKey(key) };
+}
+
+function checkExpiry(expiresAt?: Date) {
+  if (expiresAt && expiresAt <= new Date()) {
+    throw new APIError(400, "expiresAt must be in the future", "INVALID_EXPIRY");
+  }
+}
+
+function teamWhere(team: Team) {
+  return team.kind === "university" ? { universityId: team.id } : { employerId: team.id };
+}
+
+export async function listApiKeys(team: Team) {
+  return db.apiKey.findMany({
+    where: teamWhere(team),
+    select: apiKeyFields,
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+async function findTeamKey(tx: Prisma.TransactionClient, team: Team, id: string) {
+  const apiKey = await tx.apiKey.findFirst({
+    where: { id, ...teamWhere(team) },
+    include: { rotatedTo: { select: { id: true } } },
+  });
+
+  if (!apiKey) {
+    throw new APIError(404, "API key not found", "NOT_FOUND");
+  }
+
+  return apiKey;
+}
+
+export type ApiKeyInput = {
+  name: string;
+  scopes: string[];
+  expiresAt?: Date;
+};
+
+// The key itself is only returned here and from rotation; it cannot be shown again
+export async function createApiKey(actor: Actor, team: Team, input: ApiKeyInput) {
+  checkScopes(team, input.scopes);
+  checkExpiry(input.expiresAt);
+  const { prefix, key, keyHash } = generateKey();
+
+  const apiKey = await serializable(async (tx) => {
+    const serviceAccount = await tx.user.create({
+      data: {
+        clerkId: `apikey_${prefix}`,
+        email: `${prefix}@api-keys.invalid`,
+        firstName: input.name,
+        lastName: "(API key)",
+        role: team.kind === "university" ? "UNIVERSITY_ADMIN" : "EMPLOYER_ADMIN",
+        isServiceAccount: true,
+      },
+    });
+
+    return tx.apiKey.create({
+      data: {
+        ...input,
+        ...teamWhere(team),
+        prefix,
+        keyHash,
+        serviceAccountId: serviceAccount.id,
+        createdById: actor.userId,
+      },
+      select: apiKeyFields,
+    });
+  });
+
+  return { apiKey, key };
+}
+
+// Issues a replacement with the same name, scopes and service account. The old key keeps
+// working for the grace period so the integration can switch over without downtime.
+export async function rotateApiKey(
+  actor: Actor,
+  team: Team,
+  id: string,
+  options: { graceHours: number; expiresAt?: Date },
+) {
+  checkExpiry(options.expiresAt);
+  const { prefix, key, keyHash } = generateKey();
+
+  const apiKey = await serializable(async (tx) => {
+    const current = await findTeamKey(tx, team, id);
+
+    if (current.revokedAt || current.rotatedTo) {
+      throw new APIError(409, "Only active keys can be rotated", "KEY_INACTIVE");
+    }
+
+    const graceEnds = new Date(Date.now() + options.graceHours * 60 * 60 * 1000);
+
+    await tx.apiKey.update({
+      where: { id },
+      data: { expiresAt: current.expiresAt && current.expiresAt < graceEnds ? current.expiresAt : graceEnds },
+    });
+
+    return tx.apiKey.create({
+      data: {
+        name: current.name,
+        scopes: current.scopes,
+        ...teamWhere(team),
+        prefix,
+        keyHash,
+        serviceAccountId: current.serviceAccountId,
+        createdById: actor.userId,
+        expiresAt: options.expiresAt,
+        rotatedFromId: current.id,
+      },
+      select: apiKeyFields,
+    });
+  });
+
+  return { apiKey, key };
+}
+
+export async function revokeApiKey(team: Team, id: string) {
+  return serializable(async (tx) => {
+    const apiKey = await findTeamKey(tx, team, id);
+
+    if (apiKey.revokedAt) {
+      throw new APIError(409, "API key is already revoked", "KEY_INACTIVE");
+    }
+
+    return tx.apiKey.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+      select: apiKeyFields,
+    });
+  });
+}
+
+// Resolves an X-API-Key header to its key and service account
+export async function authenticateApiKey(key: string) {
+  const apiKey = await db.apiKey.findUnique({
+    where: { keyHash: hashKey(key) },
+    include: { serviceAccount: true },
+  });
+
+  if (!apiKey || apiKey.revokedAt) {
+    throw new APIError(401, "Invalid API key", "INVALID_API_KEY");
+  }
+
+  if (apiKey.expiresAt && apiKey.expiresAt <= new Date()) {
+    throw new APIError(401, "API key has expired", "API_KEY_EXPIRED");
+  }
+
+  if (!apiKey.serviceAccount.isActive || apiKey.serviceAccount.deletedAt) {
+    throw new APIError(403, "API key's account is deactivated", "ACCOUNT_DEACTIVATED");
+  }
+
+  if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await db.apiKey.update({ where: { id: apiKey.id }, data: { lastUsedAt: new Date() } });
+  }
+
+  return apiKey;
+}
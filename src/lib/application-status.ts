@@ -0,0 +1,316 @@
+import type { Application, ApplicationStatus, Prisma, UserRole } from "@prisma/client";
+import { db, serializable } from "./db";
+import { enqueueJob } from "./jobs";
+import { emailTemplates, notificationTemplates } from "./notifications";
+import { applySlotAccounting, holdsSeat } from "./slots";
+import { holdPayouts } from "./stipends";
+import { appendToWaitlist, nextOnWaitlist, removeFromWaitlist } from "./waitlist";
+import { APIError } from "../middleware/error-handler";
+
+// "SYSTEM" covers changes that are not made by a signed-in user (webhooks, jobs)
+export type TransitionActorRole = UserRole | "SYSTEM";
+
+export type TransitionActor = {
+  userId?: string;
+  role: TransitionActorRole;
+};
+
+const STUDENT: TransitionActorRole[] = ["STUDENT"];
+const UNIVERSITY: TransitionActorRole[] = ["UNIVERSITY_ADMIN"];
+const REVIEWERS: TransitionActorRole[] = ["UNIVERSITY_ADMIN", "EMPLOYER_ADMIN"];
+
+// Who may move an application from one status to another.
+// Platform admins may take any edge listed here; anything not listed is rejected.
+export const applicationTransitions: Record<
+  ApplicationStatus,
+  Partial<Record<ApplicationStatus, TransitionActorRole[]>>
+> = {
+  DRAFT: {
+    SUBMITTED: ["STUDENT", "SYSTEM"],
+    WITHDRAWN: STUDENT,
+  },
+  SUBMITTED: {
+    UNDER_REVIEW: UNIVERSITY,
+    SHORTLISTED: UNIVERSITY,
+    WAITLISTED: UNIVERSITY,
+    REJECTED: UNIVERSITY,
+    WITHDRAWN: STUDENT,
+  },
+  UNDER_REVIEW: {
+    SHORTLISTED: UNIVERSITY,
+    WAITLISTED: UNIVERSITY,
+    REJECTED: UNIVERSITY,
+    WITHDRAWN: STUDENT,
+  },
+  // SYSTEM covers candidates booking a published interview slot
+  SHORTLISTED: {
+    INTERVIEW_SCHEDULED: [...REVIEWERS, "SYSTEM"],
+    WAITLISTED: REVIEWERS,
+    ACCEPTED: REVIEWERS,
+    REJECTED: REVIEWERS,
+    WITHDRAWN: STUDENT,
+  },
+  INTERVIEW_SCHEDULED: {
+    WAITLISTED: REVIEWERS,
+    ACCEPTED: REVIEWERS,
+    REJECTED: REVIEWERS,
+    WITHDRAWN: STUDENT,
+  },
+  WAITLISTED: {
+    ACCEPTED: [...REVIEWERS, "SYSTEM"],
+    REJECTED: REVIEWERS,
+    WITHDRAWN: STUDENT,
+  },
+  // Students enrol by accepting their offer; unanswered offers lapse through the system
+  ACCEPTED: {
+    ENROLLED: [...UNIVERSITY, "STUDENT"],
+    WITHDRAWN: ["STUDENT", "SYSTEM"],
+  },
+  ENROLLED: {
+    COMPLETED: UNIVERSITY,
+    WITHDRAWN: STUDENT,
+  },
+  REJECTED: {},
+  COMPLETED: {},
+  WITHDRAWN: {},
+};
+
+export function canTransition(
+  from: ApplicationStatus,
+  to: ApplicationStatus,
+  role: TransitionActorRole
+) {
+  const allowed = applicationTransitions[from][to];
+  if (!allowed) return false;
+  return role === "PLATFORM_ADMIN" || allowed.includes(role);
+}
+
+// Days a student has to accept or decline an offer; a missing or invalid setting uses the default
+const DEFAULT_OFFER_RESPONSE_DAYS = 7;
+const configuredOfferDays = Number(process.env.OFFER_RESPONSE_DAYS);
+const OFFER_RESPONSE_DAYS =
+  Number.isFinite(configuredOfferDays) && configuredOfferDays > 0 ? configuredOfferDays : DEFAULT_OFFER_RESPONSE_DAYS;
+
+// Application fees are refundable only if the student withdraws before review starts
+const REFUNDABLE_WITHDRAWAL_STATUSES: ApplicationStatus[] = ["DRAFT", "SUBMITTED"];
+
+export type TransitionInput = {
+  applicationId: string;
+  to: ApplicationStatus;
+  actor: TransitionActor;
+  reason?: string;
+  // Extra fields written alongside the status (review notes, timestamps, ...)
+  data?: Prisma.ApplicationUncheckedUpdateManyInput;
+  // Put the application on the waitlist instead of failing when accepting into a full program
+  // that has waitlisting enabled
+  waitlistWhenFull?: boolean;
+  // Set to false when the caller sends its own notification about the change
+  notify?: boolean;
+};
+
+// Moves an application to a new status, adjusts program slots and cohort counts,
+// and records the change in its history. Runs in a serializable transaction so two
+// reviewers cannot both take the last slot; pass a transaction client to run as part
+// of a larger unit of work instead.
+export async function transitionApplication(
+  input: TransitionInput,
+  tx?: Prisma.TransactionClient
+): Promise<Application> {
+  if (!tx) {
+    return serializable((client) => transitionApplication(input, client));
+  }
+
+  const { applicationId, actor, reason, data } = input;
+  let { to } = input;
+
+  const current = await tx.application.findUnique({
+    where: { id: applicationId },
+    select: {
+      status: true,
+      programId: true,
+      cohortId: true,
+      waitlistPosition: true,
+      program: { select: { availableSlots: true, waitlistEnabled: true } },
+    },
+  });
+
+  if (!current) {
+    throw new APIError(404, "Application not found", "NOT_FOUND");
+  }
+
+  if (
+    input.waitlistWhenFull &&
+    current.program.waitlistEnabled &&
+    to === "ACCEPTED" &&
+    current.program.availableSlots <= 0 &&
+    canTransition(current.status, "WAITLISTED", actor.role)
+  ) {
+    to = "WAITLISTED";
+  }
+
+  if (!canTransition(current.status, to, actor.role)) {
+    throw new APIError(
+      409,
+      `Cannot move application from ${current.status} to ${to}`,
+      "INVALID_TRANSITION"
+    );
+  }
+
+  const now = new Date();
+  const offerExpiresAt = new Date(now.getTime() + OFFER_RESPONSE_DAYS * 24 * 60 * 60 * 1000);
+
+  // Stays null when nothing was paid, so there is nothing to refund
+  let refundEligible: boolean | null = null;
+
+  if (to === "WITHDRAWN") {
+    const paid = await tx.payment.count({
+      where: { applicationId, status: "COMPLETED" },
+    });
+    refundEligible = paid > 0 ? REFUNDABLE_WITHDRAWAL_STATUSES.includes(current.status) : null;
+  }
+
+  // Guard on the status we validated against so a concurrent change is not overwritten
+  const { count } = await tx.application.updateMany({
+    where: { id: applicationId, status: current.status },
+    data: {
+      ...data,
+      status: to,
+      ...(to === "SUBMITTED" && { submittedAt: now }),
+      ...(to === "ACCEPTED" && { acceptedAt: now, offerExpiresAt, offerRespondedAt: null }),
+      ...(to === "REJECTED" && { rejectedAt: now }),
+      ...(to === "WITHDRAWN" && { withdrawnAt: now, refundEligible }),
+    },
+  });
+
+  if (count === 0) {
+    throw new APIError(409, "Application was modified concurrently, please retry", "CONFLICT");
+  }
+
+  const cohortId = data?.cohortId === undefined ? current.cohortId : (data.cohortId as string | null);
+
+  await applySlotAccounting(tx, { programId: current.programId, from: current.status, to });
+
+  if (to === "WAITLISTED") {
+    await appendToWaitlist(tx, applicationId, { programId: current.programId, cohortId });
+  } else if (current.status === "WAITLISTED") {
+    await removeFromWaitlist(
+      tx,
+      applicationId,
+      { programId: current.programId, cohortId: current.cohortId },
+      current.waitlistPosition
+    );
+  }
+
+  await tx.applicationStatusHistory.create({
+    data: {
+      applicationId,
+      fromStatus: current.status,
+      toStatus: to,
+      actorId: actor.userId,
+      actorRole: actor.role,
+      reason,
+    },
+  });
+
+  if (input.notify !== false) {
+    await enqueueStatusNotifications(applicationId, to, tx);
+  }
+
+  if (to === "ACCEPTED") {
+    await enqueueJob("offer.expire", { applicationId }, { runAt: offerExpiresAt }, tx);
+  }
+
+  // Stipend payouts not yet sent to the bank stop with the student
+  if (to === "WITHDRAWN") {
+    await holdPayouts(tx, applicationId, "WITHDRAWN", reason ?? "Student withdrew from the program");
+  }
+
+  // A freed seat goes to the next candidate on the waitlist
+  if (holdsSeat(current.status) && !holdsSeat(to)) {
+    const next = await nextOnWaitlist(tx, { programId: current.programId, cohortId: current.cohortId });
+
+    if (next) {
+      await transitionApplication(
+        {
+          applicationId: next.id,
+          to: "ACCEPTED",
+          actor: { role: "SYSTEM" },
+          reason: "Promoted from waitlist",
+        },
+        tx
+      );
+    }
+  }
+
+  return tx.application.findUniqueOrThrow({ where: { id: applicationId } });
+}
+
+// Queued in the same transaction so the student is only notified of committed changes
+async function enqueueStatusNotifications(
+  applicationId: string,
+  status: ApplicationStatus,
+  tx: Prisma.TransactionClient
+) {
+  const application = await tx.application.findUniqueOrThrow({
+    where: { id: applicationId },
+    select: {
+      program: { select: { title: true } },
+      student: { select: { user: { select: { id: true, firstName: true } } } },
+    },
+  });
+
+  const { title } = application.program;
+  const user = application.student.user;
+
+  const template =
+    status === "SUBMITTED" ? notificationTemplates.applicationSubmitted(title)
+    : status === "ACCEPTED" ? notificationTemplates.applicationAccepted(title)
+    : status === "REJECTED" ? notificationTemplates.applicationRejected(title)
+    : notificationTemplates.applicationStatusChange(title, status);
+
+  await enqueueJob(
+    "notification.send",
+    {
+      userId: user.id,
+      ...template,
+      actionUrl: `/applications/${applicationId}`,
+      metadata: { applicationId, status },
+    },
+    {},
+    tx
+  );
+
+  const userName = user.firstName || "Applicant";
+
+  if (status === "SUBMITTED" || status === "ACCEPTED") {
+    await enqueueJob(
+      "email.send",
+      {
+        userId: user.id,
+        subject: template.title,
+        html: status === "SUBMITTED"
+          ? emailTemplates.applicationSubmitted(userName, title)
+          : emailTemplates.applicationAccepted(userName, title),
+      },
+      {},
+      tx
+    );
+  }
+}
+
+// Records the initial status of a newly created application
+export async function recordInitialStatus(
+  application: Pick<Application, "id" | "status">,
+  actor: TransitionActor,
+  tx: Prisma.TransactionClient = db
+) {
+  return tx.applicationStatusHistory.create({
+    data: {
+      applicationId: application.id,
+      fromStatus: null,
+      toStatus: application.status,
+      actorId: actor.userId,
+      actorRole: actor.role,
+    },
+  });
+}
@@ -0,0 +1,214 @@
+import type { Prisma, UserRole } from "@prisma/client";
+import { db } from "./db";
+
+// Bookkeeping fields that change on every write and would drown out the real changes
+const IGNORED_FIELDS = new Set(["updatedAt"]);
+
+// Secrets and bank details are kept out of the log; a change still shows up, redacted
+const REDACTED_FIELDS = new Set(["keyHash", "payoutAccountNumber"]);
+const REDACTED = "[redacted]";
+
+// What a route's path segments refer to, e.g. the :id in /admin/users/:id is a user
+const ENTITY_SEGMENTS: Record<string, string> = {
+  users: "user",
+  members: "user",
+  universities: "university",
+  employers: "employer",
+  programs: "program",
+  cohorts: "cohort",
+  applications: "application",
+  candidates: "application",
+  "fee-waivers": "feeWaiver",
+  documents: "document",
+  payments: "payment",
+  "discount-codes": "discountCode",
+  disbursements: "stipendDisbursement",
+  payouts: "stipendPayout",
+  interviews: "interview",
+  slots: "interviewSlot",
+  jobs: "job",
+  invitations: "teamInvitation",
+  "api-keys": "apiKey",
+};
+
+// Details a route adds to its audit entry; anything left out is derived from the route
+export type AuditChange = {
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  before?: unknown;
+  after?: unknown;
+};
+
+export type AuditRequest = {
+  actorId: string;
+  actorRole: UserRole;
+  apiKeyId?: string;
+  method: string;
+  path: string;
+  params: Record<string, string>;
+  status: number;
+  ip?: string;
+  userAgent?: string;
+};
+
+// ============================================
+// DIFFS
+// ============================================
+
+type Snapshot = Record<string, unknown>;
+
+function camelCase(segment: string) {
+  return segment.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+}
+
+function isRelation(value: unknown) {
+  const record = Array.isArray(value) ? value[0] : value;
+  return typeof record === "object" && record !== null && "id" in record;
+}
+
+// A record's own fields as JSON, without included relations or _count
+function snapshot(record: unknown): Snapshot | null {
+  if (typeof record !== "object" || record === null) return null;
+
+  const json = JSON.parse(JSON.stringify(record)) as Snapshot;
+
+  return Object.fromEntries(
+    Object.entries(json)
+      .filter(([field, value]) => field !== "_count" && !isRelation(value))
+      .map(([field, value]) => [field, REDACTED_FIELDS.has(field) ? REDACTED : value]),
+  );
+}
+
+// { field: { from, to } } for every field both records have that differs, so relations
+// included on only one side are left out; compared before redaction
+function diff(before: unknown, after: unknown) {
+  if (typeof before !== "object" || before === null || typeof after !== "object" || after === null) {
+    return null;
+  }
+
+  const from = JSON.parse(JSON.stringify(before)) as Snapshot;
+  const to = JSON.parse(JSON.stringify(after)) as Snapshot;
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+
+  for (const field of Object.keys(to)) {
+    if (!(field in from) || IGNORED_FIELDS.has(field) || field === "_count" || isRelation(to[field])) {
+      continue;
+    }
+
+    if (JSON.stringify(from[field]) !== JSON.stringify(to[field])) {
+      changes[field] = REDACTED_FIELDS.has(field)
+        ? { from: REDACTED, to: REDACTED }
+        : { from: from[field], to: to[field] };
+    }
+  }
+
+  return changes;
+}
+
+// ============================================
+// ROUTES
+// ============================================
+
+// Derives what a request changed from its route pattern: the last path parameter names the
+// entity, and what follows it the action, e.g.
+//   PATCH  /admin/users/:id                      user.update
+//   POST   /university/programs/:id/publish      program.publish
+//   POST   /university/programs/:id/cohorts      cohort.create (on the program)
+//   POST   /admin/universities                   university.create
+function describeRoute(method: string, path: string, params: Record<string, string>) {
+  const segments = path.split("/").filter(Boolean);
+
+  let last = -1;
+  segments.forEach((segment, index) => {
+    if (segment.startsWith(":")) last = index;
+  });
+
+  if (last === -1) {
+    const entityType = ENTITY_SEGMENTS[segments[segments.length - 1]];
+
+    return {
+      action: entityType ? `${entityType}.create` : segments.slice(-2).map(camelCase).join("."),
+      entityType,
+    };
+  }
+
+  const collection = segments[last - 1];
+  const entityType = ENTITY_SEGMENTS[collection] ?? camelCase(collection);
+  const entityId = params[segments[last].slice(1)];
+  const trailing = segments.slice(last + 1);
+
+  let action: string;
+  if (trailing.length === 1 && ENTITY_SEGMENTS[trailing[0]]) {
+    action = `${ENTITY_SEGMENTS[trailing[0]]}.create`;
+  } else if (trailing.length > 0) {
+    action = `${entityType}.${trailing.map(camelCase).join(".")}`;
+  } else {
+    action = `${entityType}.${method === "DELETE" ? "delete" : "update"}`;
+  }
+
+  return { action, entityType, entityId };
+}
+
+// ============================================
+// LOG
+// ============================================
+
+export async function recordAudit(request: AuditRequest, change: AuditChange = {}) {
+  const described = describeRoute(request.method, request.path, request.params);
+  const changes = diff(change.before, change.after);
+
+  await db.auditLog.create({
+    data: {
+      ...request,
+      action: change.action ?? described.action,
+      entityType: change.entityType ?? described.entityType,
+      entityId: change.entityId ?? described.entityId,
+      before: (snapshot(change.before) ?? undefined) as Prisma.InputJsonValue | undefined,
+      after: (snapshot(change.after) ?? undefined) as Prisma.InputJsonValue | undefined,
+      changes: (changes ?? undefined) as Prisma.InputJsonValue | undefined,
+    },
+  });
+}
+
+export type AuditFilter = {
+  actorId?: string;
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  from?: Date;
+  to?: Date;
+};
+
+const auditActor = { select: { id: true, email: true, firstName: true, lastName: true, isServiceAccount: true } };
+
+export async function listAuditLogs(filter: AuditFilter, page: number, limit: number) {
+  const { from, to, ...fields } = filter;
+  const where: Prisma.AuditLogWhereInput = {
+    ...fields,
+    ...((from || to) && { createdAt: { gte: from, lte: to } }),
+  };
+
+  const [logs, total] = await Promise.all([
+    db.auditLog.findMany({
+      where,
+      include: { actor: auditActor },
+      skip: (page - 1) * limit,
+      take: limit,
+      orderBy: { createdAt: "desc" },
+    }),
+    db.auditLog.count({ where }),
+  ]);
+
+  return { logs, total };
+}
+
+// Everything recorded against one entity, newest first, for its detail page
+export async function entityTimeline(entityType: string, entityId: string, limit = 100) {
+  return db.auditLog.findMany({
+    where: { entityType, entityId },
+    include: { actor: auditActor },
+    take: limit,
+    orderBy: { createdAt: "desc" },
+  });
+}
@@ -0,0 +1,279 @@
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  createSign,
+  createVerify,
+  generateKeyPairSync,
+  type JsonWebKey,
+  type KeyObject,
+} from "crypto";
+import { createClerkClient, verifyToken } from "@clerk/backend";
+import { z } from "zod";
+import { db } from "./db";
+import { APIError } from "../middleware/error-handler";
+
+// Who a verified token belongs to. The subject is stored as User.clerkId whichever
+// provider issued it.
+export type Identity = {
+  subject: string;
+  claims: Record<string, unknown>;
+};
+
+// Fields we create a user with on their first request
+export type UserProfile = {
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  avatarUrl: string | null;
+  emailVerified: boolean;
+};
+
+export interface AuthProvider {
+  readonly name: string;
+  // Throws when the token is not valid
+  verify(token: string): Promise<Identity>;
+  // Null when the provider does not know enough about the subject to create a user
+  profile(identity: Identity): Promise<UserProfile | null>;
+}
+
+// ============================================
+// CLERK
+// ============================================
+
+const clerkUserSchema = z.object({
+  id: z.string(),
+  email_addresses: z.array(
+    z.object({
+      id: z.string(),
+      email_address: z.string(),
+      verification: z.object({ status: z.string() }).nullable().optional(),
+    })
+  ),
+  primary_email_address_id: z.string().nullable(),
+  first_name: z.string().nullable(),
+  last_name: z.string().nullable(),
+  image_url: z.string().nullable(),
+  last_sign_in_at: z.number().nullable().optional(),
+});
+
+// Our user fields from a Clerk user as sent in webhooks and returned by the Backend API.
+// Null for accounts without an email (e.g. phone-only sign-ups) until they add one.
+export function clerkUserProfile(data: unknown): (UserProfile & { lastSignInAt?: Date }) | null {
+  const user = clerkUserSchema.parse(data);
+
+  const primary =
+    user.email_addresses.find((email) => email.id === user.primary_email_address_id) ?? user.email_addresses[0];
+
+  if (!primary) return null;
+
+  return {
+    email: primary.email_address,
+    firstName: user.first_name,
+    lastName: user.last_name,
+    avatarUrl: user.image_url,
+    emailVerified: primary.verification?.status === "verified",
+    ...(user.last_sign_in_at && { lastSignInAt: new Date(user.last_sign_in_at) }),
+  };
+}
+
+class ClerkAuthProvider implements AuthProvider {
+  readonly name = "clerk";
+
+  constructor(private secretKey: string) {}
+
+  async verify(token: string) {
+    const payload = await verifyToken(token, { secretKey: this.secretKey });
+
+    if (!payload.sub) {
+      throw new APIError(401, "Invalid token", "INVALID_TOKEN");
+    }
+
+    return { subject: payload.sub, claims: payload as Record<string, unknown> };
+  }
+
+  // Session tokens carry no profile, so it comes from the Backend API
+  async profile(identity: Identity) {
+    const clerk = createClerkClient({ secretKey: this.secretKey });
+    const user = await clerk.users.getUser(identity.subject);
+
+    return user.raw ? clerkUserProfile(user.raw) : null;
+  }
+}
+
+// ============================================
+// LOCAL
+// ============================================
+
+const LOCAL_ISSUER = "workstream-local";
+const LOCAL_TOKEN_TTL_SECONDS = 60 * 60;
+
+function base64url(value: object) {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+function decodeSegment(segment: string) {
+  return JSON.parse(Buffer.from(segment, "base64url").toString("utf8")) as Record<string, unknown>;
+}
+
+function invalidToken(): never {
+  throw new APIError(401, "Invalid or expired token", "INVALID_TOKEN");
+}
+
+// Signs RS256 JWTs with a development keypair and verifies them against its JWKS, so the API
+// and end-to-end tests run without Clerk. The key comes from LOCAL_AUTH_PRIVATE_KEY (PEM), or
+// is generated at startup, in which case tokens stop working when the server restarts.
+export class LocalAuthProvider implements AuthProvider {
+  readonly name = "local";
+  private keys: Map<string, KeyObject>;
+  private signingKey: { kid: string; privateKey: KeyObject };
+
+  constructor(privateKeyPem?: string) {
+    const privateKey = privateKeyPem
+      ? createPrivateKey(privateKeyPem)
+      : generateKeyPairSync("rsa", { modulusLength: 2048 }).privateKey;
+
+    const publicKey = createPublicKey(privateKey);
+    const kid = createHash("sha256")
+      .update(publicKey.export({ type: "spki", format: "der" }))
+      .digest("base64url")
+      .slice(0, 16);
+
+    this.signingKey = { kid, privateKey };
+    this.keys = new Map([[kid, publicKey]]);
+  }
+
+  // Published at /auth/.well-known/jwks.json
+  jwks(): { keys: JsonWebKey[] } {
+    return {
+      keys: [...this.keys].map(([kid, key]) => ({
+        ...key.export({ format: "jwk" }),
+        kid,
+        alg: "RS256",
+        use: "sig",
+      })),
+    };
+  }
+
+  // Subjects are derived from the email so the same test user keeps the same account
+  static subjectFor(email: string) {
+    return `local_${createHash("sha256").update(email.toLowerCase()).digest("hex").slice(0, 24)}`;
+  }
+
+  sign(
+    claims: { sub?: string; email: string; given_name?: string; family_name?: string },
+    ttlSeconds = LOCAL_TOKEN_TTL_SECONDS,
+  ) {
+    const now = Math.floor(Date.now() / 1000);
+    const header = base64url({ alg: "RS256", typ: "JWT", kid: this.signingKey.kid });
+    const payload = base64url({
+      sub: LocalAuthProvider.subjectFor(claims.email),
+      ...claims,
+      iss: LOCAL_ISSUER,
+      iat: now,
+      exp: now + ttlSeconds,
+    });
+
+    const signature = createSign("RSA-SHA256")
+      .update(`${header}.${payload}`)
+      .sign(this.signingKey.privateKey, "base64url");
+
+    return `${header}.${payload}.${signature}`;
+  }
+
+  async verify(token: string) {
+    const [header, payload, signature] = token.split(".");
+    if (!header || !payload || !signature) invalidToken();
+
+    let headerClaims: Record<string, unknown>;
+    let claims: Record<string, unknown>;
+    try {
+      headerClaims = decodeSegment(header);
+      claims = decodeSegment(payload);
+    } catch {
+      invalidToken();
+    }
+
+    const key = this.keys.get(String(headerClaims.kid));
+    if (headerClaims.alg !== "RS256" || !key) invalidToken();
+
+    const valid = createVerify("RSA-SHA256").update(`${header}.${payload}`).verify(key, signature, "base64url");
+    const now = Math.floor(Date.now() / 1000);
+
+    if (!valid || claims.iss !== LOCAL_ISSUER || typeof claims.exp !== "number" || claims.exp < now) {
+      invalidToken();
+    }
+
+    if (typeof claims.sub !== "string" || !claims.sub) invalidToken();
+
+    return { subject: claims.sub, claims };
+  }
+
+  // Local tokens carry the profile themselves
+  async profile(identity: Identity) {
+    const { email, given_name, family_name } = identity.claims;
+    if (typeof email !== "string") return null;
+
+    return {
+      email,
+      firstName: typeof given_name === "string" ? given_name : null,
+      lastName: typeof family_name === "string" ? family_name : null,
+      avatarUrl: null,
+      emailVerified: true,
+    };
+  }
+}
+
+// ============================================
+// REGISTRY
+// ============================================
+
+function createAuthProvider(): AuthProvider {
+  const name = process.env.AUTH_PROVIDER || "clerk";
+
+  if (name === "clerk") {
+    return new ClerkAuthProvider(process.env.CLERK_SECRET_KEY || "");
+  }
+
+  // Anyone can mint local tokens in development, so the local provider never runs in production
+  if (name === "local") {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("AUTH_PROVIDER=local cannot be used in production");
+    }
+    return new LocalAuthProvider(process.env.LOCAL_AUTH_PRIVATE_KEY?.replace(/\\n/g, "\n"));
+  }
+
+  throw new Error(`Unknown auth provider "${name}"`);
+}
+
+export const authProvider = createAuthProvider();
+
+export function localAuthProvider() {
+  return authProvider instanceof LocalAuthProvider ? authProvider : null;
+}
+
+// Clerk session tokens stay valid for up to a minute after the session is signed out or
+// revoked; sessions reported ended by the webhook are refused straight away
+export async function isSessionEnded(identity: Identity) {
+  const sessionId = identity.claims.sid;
+  if (typeof sessionId !== "string") return false;
+
+  return !!(await db.endedSession.findUnique({ where: { id: sessionId } }));
+}
+
+// Finds the user a token belongs to, creating them on their first request so sign-ups do not
+// depend on the Clerk webhook or /auth/sync arriving first. Null when there is no profile to
+// create them from.
+export async function findOrProvisionUser(identity: Identity) {
+  const existing = await db.user.findUnique({ where: { clerkId: identity.subject } });
+  if (existing) return existing;
+
+  const profile = await authProvider.profile(identity);
+  if (!profile) return null;
+
+  return db.user.upsert({
+    where: { clerkId: identity.subject },
+    create: { clerkId: identity.subject, ...profile, role: "STUDENT" },
+    update: {},
+  });
+}
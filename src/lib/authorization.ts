@@ -0,0 +1,135 @@
+import { scopeActions } from "./api-keys";
+import { db } from "./db";
+import { applicationResource, authorize, type Action, type Actor } from "./policy";
+import { APIError } from "../middleware/error-handler";
+import type { AuthContext } from "../middleware/auth";
+
+export {
+  applicationResource,
+  applicationScope,
+  authorize,
+  can,
+  programScope,
+  type Action,
+  type Actor,
+  type EmployerMembership,
+  type Resource,
+  type UniversityMembership,
+} from "./policy";
+
+// ============================================
+// ACTORS
+// ============================================
+
+// API keys act for their university or employer with every flag but ownership; their
+// scopes are what limit them
+function apiKeyActor(auth: AuthContext, apiKey: NonNullable<AuthContext["apiKey"]>): Actor {
+  return {
+    userId: auth.userId,
+    role: auth.role,
+    university: apiKey.universityId
+      ? { universityId: apiKey.universityId, canManagePrograms: true, canReviewApplications: true, isOwner: false }
+      : null,
+    employer: apiKey.employerId
+      ? {
+          employerId: apiKey.employerId,
+          canCreatePrograms: true,
+          canReviewCandidates: true,
+          canApproveHires: true,
+          isOwner: false,
+        }
+      : null,
+    actions: scopeActions(apiKey.scopes),
+  };
+}
+
+export async function loadActor(auth: AuthContext): Promise<Actor> {
+  if (auth.apiKey) return apiKeyActor(auth, auth.apiKey);
+
+  const user = await db.user.findUnique({
+    where: { id: auth.userId },
+    select: {
+      universityAdmin: {
+        select: { universityId: true, canManagePrograms: true, canReviewApplications: true, isOwner: true },
+      },
+      employerAdmin: {
+        select: {
+          employerId: true,
+          canCreatePrograms: true,
+          canReviewCandidates: true,
+          canApproveHires: true,
+          isOwner: true,
+        },
+      },
+    },
+  });
+
+  return {
+    userId: auth.userId,
+    role: auth.role,
+    university: auth.role === "UNIVERSITY_ADMIN" ? user?.universityAdmin ?? null : null,
+    employer: auth.role === "EMPLOYER_ADMIN" ? user?.employerAdmin ?? null : null,
+  };
+}
+
+// The university a university admin acts for; accounts not linked to one have nothing to act on
+export function actingUniversity(actor: Actor) {
+  if (!actor.university) {
+    throw new APIError(404, "University admin not found", "NOT_FOUND");
+  }
+  return actor.university;
+}
+
+export function actingEmployer(actor: Actor) {
+  if (!actor.employer) {
+    throw new APIError(404, "Employer admin not found", "NOT_FOUND");
+  }
+  return actor.employer;
+}
+
+// ============================================
+// RESOURCE CHECKS
+// ============================================
+
+export async function authorizeProgram(actor: Actor, action: Action, programId: string) {
+  const program = await db.program.findUnique({ where: { id: programId } });
+
+  if (!program) {
+    throw new APIError(404, "Program not found", "NOT_FOUND");
+  }
+
+  authorize(actor, action, program);
+  return program;
+}
+
+export async function authorizeApplication(actor: Actor, action: Action, applicationId: string) {
+  const application = await db.application.findUnique({
+    where: { id: applicationId },
+    include: {
+      student: { select: { userId: true } },
+      program: true,
+    },
+  });
+
+  if (!application) {
+    throw new APIError(404, "Application not found", "NOT_FOUND");
+  }
+
+  authorize(actor, action, applicationResource(application));
+  return application;
+}
+
+// Cohort routes are nested under a program; a cohort of another program is not found
+export async function authorizeCohort(actor: Actor, action: Action, cohortId: string, programId?: string) {
+  const cohort = await db.cohort.findFirst({
+    where: { id: cohortId, ...(programId && { programId }) },
+    include: { program: { select: { universityId: true, employerId: true } } },
+  });
+
+  if (!cohort) {
+    throw new APIError(404, "Cohort not found", "NOT_FOUND");
+  }
+
+  authorize(actor, action, cohort.program);
+  return cohort;
+}
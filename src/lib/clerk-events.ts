@@ -0,0 +1,376 @@
+import { createHmac } from "crypto";
+import { createClerkClient } from "@clerk/backend";
+import { Prisma, type ClerkEventStatus } from "@prisma/client";
+import { z } from "zod";
+import { clerkUserProfile } from "./auth-providers";
+import { db, serializable } from "./db";
+import { signaturesMatch } from "./signatures";
+import { leaveTeam } from "./teams";
+import { APIError } from "../middleware/error-handler";
+
+// Deliveries signed longer ago than this are rejected so captured requests cannot be replayed
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+const MAX_REPLAY_EVENTS = 500;
+
+// Ended sessions are kept well past the lifetime of any token issued for them
+const ENDED_SESSION_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+export type ClerkWebhook = {
+  eventId: string;
+  type: string;
+  payload: { type: string; data: Record<string, unknown> };
+};
+
+function invalidSignature(): never {
+  throw new APIError(401, "Invalid signature", "INVALID_SIGNATURE");
+}
+
+// ============================================
+// VERIFICATION
+// ============================================
+
+const webhookSchema = z.object({
+  type: z.string(),
+  data: z.record(z.unknown()),
+});
+
+// Clerk delivers webhooks through svix, which signs "<svix-id>.<svix-timestamp>.<body>" with
+// the base64 part of the whsec_ secret. svix-signature holds space-separated "v1,<signature>"
+// entries, more than one while a secret is being rotated.
+export function verifyClerkWebhook(body: string, headers: Record<string, string | undefined>): ClerkWebhook {
+  const secret = process.env.CLERK_WEBHOOK_SECRET;
+  if (!secret) {
+    throw new Error("CLERK_WEBHOOK_SECRET is not configured");
+  }
+
+  const eventId = headers["svix-id"];
+  const timestamp = headers["svix-timestamp"];
+  const signatures = headers["svix-signature"];
+
+  if (!eventId || !timestamp || !signatures) invalidSignature();
+
+  const sentAt = Number(timestamp);
+  if (!Number.isFinite(sentAt) || Math.abs(Date.now() / 1000 - sentAt) > SIGNATURE_TOLERANCE_SECONDS) {
+    invalidSignature();
+  }
+
+  const key = Buffer.from(secret.replace(/^whsec_/, ""), "base64");
+  const expected = createHmac("sha256", key).update(`${eventId}.${timestamp}.${body}`).digest("base64");
+
+  const matches = signatures
+    .split(" ")
+    .some((entry) => entry.startsWith("v1,") && signaturesMatch(expected, entry.slice(3)));
+
+  if (!matches) invalidSignature();
+
+  let parsed;
+  try {
+    parsed = webhookSchema.parse(JSON.parse(body));
+  } catch {
+    throw new APIError(400, "Malformed webhook payload", "INVALID_PAYLOAD");
+  }
+
+  return { eventId, type: parsed.type, payload: parsed };
+}
+
+// ============================================
+// HANDLERS
+// ============================================
+
+const clerkIdSchema = z.object({
+  id: z.string(),
+});
+
+const sessionSchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  created_at: z.number(),
+  updated_at: z.number(),
+});
+
+const emailSchema = z.object({
+  user_id: z.string().nullable().optional(),
+});
+
+// Creates or updates our copy of a Clerk user, so user.updated also covers a missed
+// user.created. Returns false when there is nothing to apply.
+export async function syncClerkUser(data: unknown) {
+  const { id: clerkId } = clerkIdSchema.parse(data);
+  const details = clerkUserProfile(data);
+
+  if (!details) return false;
+
+  const existing = await db.user.findUnique({ where: { clerkId } });
+
+  // A late update must not bring back the details of a deleted account
+  if (existing?.deletedAt) return false;
+
+  await db.user.upsert({
+    where: { clerkId },
+    create: { clerkId, ...details, role: "STUDENT" },
+    update: details,
+  });
+
+  return true;
+}
+
+// Deleting a Clerk user keeps our record, which applications, payments and messages point
+// at, but strips what identifies the person and blocks the account. Documents and payment
+// records are retained for the programs' own record keeping.
+export async function deleteClerkUser(data: unknown) {
+  const { id: clerkId } = clerkIdSchema.parse(data);
+
+  return serializable(async (tx) => {
+    const user = await tx.user.findUnique({
+      where: { clerkId },
+      include: { student: { select: { id: true } } },
+    });
+
+    if (!user || user.deletedAt) return false;
+
+    await tx.user.update({
+      where: { id: user.id },
+      data: {
+        email: `deleted-${user.id}@users.invalid`,
+        firstName: null,
+        lastName: null,
+        phone: null,
+        avatarUrl: null,
+        emailVerified: false,
+        isActive: false,
+        deletedAt: new Date(),
+      },
+    });
+
+    if (user.student) {
+      await tx.student.update({
+        where: { id: user.student.id },
+        data: {
+          dateOfBirth: null,
+          gender: null,
+          address: null,
+          city: null,
+          payoutMethod: null,
+          payoutProvider: null,
+          payoutAccountNumber: null,
+          payoutAccountName: null,
+        },
+      });
+    }
+
+    await leaveTeam(tx, user.id);
+
+    return true;
+  });
+}
+
+// email.* events describe a message or address rather than the user, so the user's current
+// primary address and whether it is verified are fetched from the Backend API
+async function refreshClerkUser(data: unknown) {
+  const { user_id: clerkId } = emailSchema.parse(data);
+  if (!clerkId) return false;
+
+  const clerk = createClerkClient({ secretKey: process.env.CLERK_SECRET_KEY! });
+  const user = await clerk.users.getUser(clerkId);
+
+  return user.raw ? syncClerkUser(user.raw) : false;
+}
+
+async function endSession(data: unknown) {
+  const session = sessionSchema.parse(data);
+
+  await db.endedSession.upsert({
+    where: { id: session.id },
+    create: { id: session.id, clerkUserId: session.user_id, endedAt: new Date(session.updated_at) },
+    update: {},
+  });
+
+  await db.endedSession.deleteMany({
+    where: { endedAt: { lt: new Date(Date.now() - ENDED_SESSION_RETENTION_MS) } },
+  });
+
+  return true;
+}
+
+async function recordSignIn(data: unknown) {
+  const session = sessionSchema.parse(data);
+
+  const { count } = await db.user.updateMany({
+    where: { clerkId: session.user_id, deletedAt: null },
+    data: { lastSignInAt: new Date(session.created_at) },
+  });
+
+  return count > 0;
+}
+
+// Returns whether the event changed anything. Event types without a handler are logged and
+// ignored, e.g. teams are managed in Workstream rather than as Clerk organizations
+// (organization.*, organizationMembership.*, organizationInvitation.*).
+async function applyClerkEvent(payload: ClerkWebhook["payload"]) {
+  switch (payload.type) {
+    case "user.created":
+    case "user.updated":
+      return syncClerkUser(payload.data);
+
+    case "user.deleted":
+      return deleteClerkUser(payload.data);
+
+    case "email.created":
+    case "email.updated":
+      return refreshClerkUser(payload.data);
+
+    case "session.created":
+      return recordSignIn(payload.data);
+
+    case "session.ended":
+    case "session.revoked":
+      return endSession(payload.data);
+
+    default:
+      return false;
+  }
+}
+
+// ============================================
+// PROCESSING
+// ============================================
+
+// Logs a delivery and applies it once. Deliveries of an event that was processed or
+// ignored return early; a previously failed event is retried.
+export async function processClerkEvent(event: ClerkWebhook) {
+  let logged = await db.clerkEvent.findUnique({ where: { id: event.eventId } });
+
+  if (logged && (logged.status === "PROCESSED" || logged.status === "IGNORED")) {
+    return { duplicate: true, event: logged };
+  }
+
+  if (!logged) {
+    try {
+      logged = await db.clerkEvent.create({
+        data: {
+          id: event.eventId,
+          type: event.type,
+          payload: event.payload as Prisma.InputJsonValue,
+        },
+      });
+    } catch (error) {
+      // Another delivery of the same event won the race
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+        return { duplicate: true, event: await db.clerkEvent.findUniqueOrThrow({ where: { id: event.eventId } }) };
+      }
+      throw error;
+    }
+  }
+
+  return { duplicate: false, event: await runClerkEvent(logged.id, event.payload) };
+}
+
+async function runClerkEvent(id: string, payload: ClerkWebhook["payload"]) {
+  try {
+    const applied = await applyClerkEvent(payload);
+
+    return await db.clerkEvent.update({
+      where: { id },
+      data: {
+        status: applied ? "PROCESSED" : "IGNORED",
+        attempts: { increment: 1 },
+        processedAt: new Date(),
+        error: null,
+      },
+    });
+  } catch (error) {
+    await db.clerkEvent.update({
+      where: { id },
+      data: {
+        status: "FAILED",
+        attempts: { increment: 1 },
+        error: error instanceof Error ? error.message : String(error),
+      },
+    });
+    throw error;
+  }
+}
+
+// ============================================
+// REPLAY
+// ============================================
+
+export const REPLAYABLE_STATUSES = ["FAILED", "RECEIVED"] as const;
+
+export type ReplayFilter = {
+  eventIds?: string[];
+  status?: (typeof REPLAYABLE_STATUSES)[number];
+  since?: Date;
+};
+
+// A user event that was already handled carries the profile as it was then, so applying it
+// again would overwrite anything that changed since
+function isHandledUserEvent(event: { type: string; status: ClerkEventStatus }) {
+  return event.type.startsWith("user.") && (event.status === "PROCESSED" || event.status === "IGNORED");
+}
+
+// Re-applies stored deliveries, oldest first: by id, or every FAILED (or RECEIVED) event
+// received since a date. User events that were already handled are skipped.
+export async function replayClerkEvents(filter: ReplayFilter) {
+  const events = await db.clerkEvent.findMany({
+    where: filter.eventIds
+      ? { id: { in: filter.eventIds } }
+      : { status: filter.status ?? "FAILED", ...(filter.since && { receivedAt: { gte: filter.since } }) },
+    orderBy: { receivedAt: "asc" },
+    take: MAX_REPLAY_EVENTS,
+  });
+
+  const results = [];
+
+  for (const event of events) {
+    if (isHandledUserEvent(event)) {
+      results.push({
+        id: event.id,
+        type: event.type,
+        status: event.status,
+        error: "Already applied; replaying it would overwrite newer profile data",
+      });
+      continue;
+    }
+
+    try {
+      const replayed = await runClerkEvent(event.id, event.payload as ClerkWebhook["payload"]);
+      results.push({ id: event.id, type: event.type, status: replayed.status });
+    } catch (error) {
+      results.push({
+        id: event.id,
+        type: event.type,
+        status: "FAILED" as const,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return results;
+}
+
+// Recovers from deliveries that never reached us (e.g. while the endpoint was down past
+// svix's retry window) by pulling every user from Clerk. Deletions are not visible this way.
+export async function resyncClerkUsers() {
+  const clerk = createClerkClient({ secretKey: process.env.CLERK_SECRET_KEY! });
+  const limit = 100;
+  let synced = 0;
+  let skipped = 0;
+
+  for (let offset = 0; ; offset += limit) {
+    const { data: users } = await clerk.users.getUserList({ limit, offset, orderBy: "created_at" });
+
+    for (const user of users) {
+      if (user.raw && (await syncClerkUser(user.raw))) {
+        synced++;
+      } else {
+        skipped++;
+      }
+    }
+
+    if (users.length < limit) break;
+  }
+
+  return { synced, skipped };
+}
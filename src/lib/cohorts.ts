@@ -0,0 +1,125 @@
+import type { Cohort, Prisma } from "@prisma/client";
+import { APIError } from "../middleware/error-handler";
+import { SEAT_HOLDING_STATUSES } from "./slots";
+
+export const COHORT_STATUSES = ["PENDING", "ACTIVE", "COMPLETED"] as const;
+export type CohortStatus = (typeof COHORT_STATUSES)[number];
+
+const cohortTransitions: Record<CohortStatus, CohortStatus[]> = {
+  PENDING: ["ACTIVE"],
+  ACTIVE: ["COMPLETED"],
+  COMPLETED: [],
+};
+
+export function assertCohortTransition(from: string, to: CohortStatus) {
+  if (!cohortTransitions[from as CohortStatus]?.includes(to)) {
+    throw new APIError(409, `Cannot move cohort from ${from} to ${to}`, "INVALID_TRANSITION");
+  }
+}
+
+// Seats in a cohort are taken by every accepted, enrolled or completed application assigned
+// to it. This count is the only measure of a cohort's occupancy.
+export async function cohortSeatsTaken(tx: Prisma.TransactionClient, cohortId: string) {
+  return tx.application.count({
+    where: { cohortId, status: { in: SEAT_HOLDING_STATUSES } },
+  });
+}
+
+async function assertCapacity(tx: Prisma.TransactionClient, cohort: Cohort, incoming: number) {
+  const taken = await cohortSeatsTaken(tx, cohort.id);
+
+  if (taken + incoming > cohort.maxCapacity) {
+    throw new APIError(
+      409,
+      `Cohort ${cohort.name} has ${cohort.maxCapacity - taken} seat(s) left, cannot add ${incoming}`,
+      "COHORT_FULL"
+    );
+  }
+}
+
+// Each moved application's cohort before and after a move, by application id
+function cohortMoves(applications: { id: string; cohortId: string | null }[], cohortId: string) {
+  return {
+    count: applications.length,
+    before: Object.fromEntries(applications.map((application) => [application.id, application.cohortId])),
+    after: Object.fromEntries(applications.map((application) => [application.id, cohortId])),
+  };
+}
+
+// Assigns ACCEPTED applications of the cohort's program to it
+export async function assignToCohort(tx: Prisma.TransactionClient, cohort: Cohort, applicationIds: string[]) {
+  if (cohort.status === "COMPLETED") {
+    throw new APIError(400, "Cannot assign applicants to a completed cohort", "COHORT_COMPLETED");
+  }
+
+  const applications = await tx.application.findMany({
+    where: { id: { in: applicationIds }, programId: cohort.programId },
+  });
+
+  const invalid = applicationIds.filter(
+    (id) => !applications.some((application) => application.id === id && application.status === "ACCEPTED")
+  );
+
+  if (invalid.length) {
+    throw new APIError(400, `Only accepted applications can be assigned: ${invalid.join(", ")}`, "INVALID_APPLICATIONS");
+  }
+
+  const incoming = applications.filter((application) => application.cohortId !== cohort.id);
+  await assertCapacity(tx, cohort, incoming.length);
+
+  await tx.application.updateMany({
+    where: { id: { in: incoming.map((application) => application.id) } },
+    data: { cohortId: cohort.id },
+  });
+
+  return cohortMoves(incoming, cohort.id);
+}
+
+// Moves applications between two cohorts of the same program
+export async function transferBetweenCohorts(
+  tx: Prisma.TransactionClient,
+  source: Cohort,
+  target: Cohort,
+  applicationIds: string[]
+) {
+  if (source.programId !== target.programId) {
+    throw new APIError(400, "Cohorts belong to different programs", "INVALID_COHORT");
+  }
+
+  if (target.status === "COMPLETED") {
+    throw new APIError(400, "Cannot transfer into a completed cohort", "COHORT_COMPLETED");
+  }
+
+  const applications = await tx.application.findMany({
+    where: { id: { in: applicationIds }, cohortId: source.id },
+  });
+
+  if (applications.length !== applicationIds.length) {
+    throw new APIError(400, "Every application must belong to the source cohort", "INVALID_APPLICATIONS");
+  }
+
+  await assertCapacity(
+    tx,
+    target,
+    applications.filter((application) => SEAT_HOLDING_STATUSES.includes(application.status)).length
+  );
+
+  await tx.application.updateMany({
+    where: { id: { in: applicationIds } },
+    data: { cohortId: target.id },
+  });
+
+  return cohortMoves(applications, target.id);
+}
+
+// Text that a spreadsheet would evaluate as a formula (=, +, -, @, or a leading tab or
+// carriage return) is prefixed with ' so names and account details stay plain text
+function csvCell(value: unknown) {
+  let text = value === null || value === undefined ? "" : value instanceof Date ? value.toISOString() : String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(headers: string[], rows: unknown[][]) {
+  return [headers, ...rows].map((row) => row.map(csvCell).join(",")).join("\n");
+}
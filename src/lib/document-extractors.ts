@@ -0,0 +1,199 @@
+import type { DocumentType } from "@prisma/client";
+import { z } from "zod";
+
+// Gemini returns numbers for some fields (years, GPA) and strings for others
+const text = z
+  .union([z.string(), z.number()])
+  .transform((value) => String(value).trim())
+  .nullable()
+  .optional();
+
+export type DocumentExtractor = {
+  description: string;
+  // Example output shown to the model; its string values are placeholders
+  template: Record<string, unknown>;
+  schema: z.ZodType<Record<string, unknown>>;
+  // Fields that must be present (and not placeholders) for automatic verification
+  required: string[];
+};
+
+export const documentExtractors: Record<DocumentType, DocumentExtractor> = {
+  TRANSCRIPT: {
+    description: "academic transcript",
+    template: {
+      institution: "name of the institution",
+      studentName: "student's full name",
+      studentId: "student ID if visible",
+      program: "degree/program name",
+      graduationYear: "year of graduation or expected graduation",
+      gpa: "GPA or equivalent score",
+      grades: { subject: "grade" },
+      mathGrade: "grade for mathematics/math-related course",
+      englishGrade: "grade for English/language course",
+      scienceGrade: "grade for science course if applicable",
+    },
+    schema: z.object({
+      institution: text,
+      studentName: text,
+      studentId: text,
+      program: text,
+      graduationYear: text,
+      gpa: text,
+      grades: z.record(z.union([z.string(), z.number()]).transform(String)).optional(),
+      mathGrade: text,
+      englishGrade: text,
+      scienceGrade: text,
+    }),
+    required: ["institution", "studentName", "grades"],
+  },
+
+  CERTIFICATE: {
+    description: "certificate",
+    template: {
+      type: "type of certificate",
+      title: "certificate title",
+      issuedTo: "name of the recipient",
+      issuedBy: "issuing organization",
+      issueDate: "date of issue",
+      certificateNumber: "certificate number if visible",
+      validUntil: "expiry date if applicable",
+    },
+    schema: z.object({
+      type: text,
+      title: text,
+      issuedTo: text,
+      issuedBy: text,
+      issueDate: text,
+      certificateNumber: text,
+      validUntil: text,
+    }),
+    required: ["title", "issuedTo", "issuedBy"],
+  },
+
+  CV: {
+    description: "CV/Resume",
+    template: {
+      name: "full name",
+      email: "email address",
+      phone: "phone number",
+      location: "city/country",
+      summary: "professional summary if present",
+      education: [{ institution: "school name", degree: "degree type", field: "field of study", year: "graduation year" }],
+      experience: [{ company: "company name", role: "job title", duration: "time period", description: "brief description" }],
+      skills: ["skill1", "skill2"],
+      languages: ["language1", "language2"],
+    },
+    schema: z.object({
+      name: text,
+      email: text,
+      phone: text,
+      location: text,
+      summary: text,
+      education: z.array(z.object({ institution: text, degree: text, field: text, year: text })).optional(),
+      experience: z.array(z.object({ company: text, role: text, duration: text, description: text })).optional(),
+      skills: z.array(z.string()).optional(),
+      languages: z.array(z.string()).optional(),
+    }),
+    required: ["name", "education"],
+  },
+
+  ID_DOCUMENT: {
+    description: "ID document",
+    template: {
+      documentType: "type of ID",
+      fullName: "full name as shown",
+      idNumber: "ID number",
+      dateOfBirth: "date of birth",
+      nationality: "nationality if shown",
+      issueDate: "date of issue",
+      expiryDate: "expiry date",
+    },
+    schema: z.object({
+      documentType: text,
+      fullName: text,
+      idNumber: text,
+      dateOfBirth: text,
+      nationality: text,
+      issueDate: text,
+      expiryDate: text,
+    }),
+    required: ["fullName", "idNumber", "dateOfBirth"],
+  },
+
+  RECOMMENDATION: {
+    description: "recommendation letter",
+    template: {
+      candidateName: "name of the person being recommended",
+      author: "name of the recommender",
+      authorTitle: "recommender's title or position",
+      organization: "recommender's organization",
+      date: "date of the letter",
+      summary: "one sentence summary of the recommendation",
+    },
+    schema: z.object({
+      candidateName: text,
+      author: text,
+      authorTitle: text,
+      organization: text,
+      date: text,
+      summary: text,
+    }),
+    required: ["candidateName", "author"],
+  },
+
+  // Nothing can be checked automatically, so these always go to manual review
+  OTHER: {
+    description: "document",
+    template: {
+      documentType: "what kind of document this is",
+      title: "document title if present",
+      names: ["names of people mentioned"],
+      dates: ["important dates"],
+      details: { key: "value" },
+    },
+    schema: z.record(z.unknown()),
+    required: [],
+  },
+};
+
+export function buildExtractionPrompt(extractor: DocumentExtractor) {
+  const confidence = Object.fromEntries(
+    Object.keys(extractor.template).map((field) => [field, "confidence between 0 and 1"])
+  );
+
+  return `Analyze this ${extractor.description} and extract the following information in JSON format:
+  ${JSON.stringify({ fields: extractor.template, confidence }, null, 2)}
+
+  Use null for any field that is not visible in the document. Do not copy the descriptions above as values.
+  Only return valid JSON, no explanations.`;
+}
+
+function collectPlaceholders(value: unknown, into: Set<string>) {
+  if (typeof value === "string") into.add(value.toLowerCase());
+  else if (Array.isArray(value)) value.forEach((item) => collectPlaceholders(item, into));
+  else if (value && typeof value === "object") Object.values(value).forEach((item) => collectPlaceholders(item, into));
+  return into;
+}
+
+function isPresent(value: unknown, placeholders: Set<string>): boolean {
+  if (value === null || value === undefined) return false;
+  if (typeof value === "string") return value.trim() !== "" && !placeholders.has(value.trim().toLowerCase());
+  if (Array.isArray(value)) return value.some((item) => isPresent(item, placeholders));
+  if (typeof value === "object") return Object.values(value).some((item) => isPresent(item, placeholders));
+  return true;
+}
+
+export const MIN_FIELD_CONFIDENCE = 0.6;
+
+// Returns the required fields that are missing, echoed from the template or low-confidence
+export function missingRequiredFields(
+  extractor: DocumentExtractor,
+  fields: Record<string, unknown>,
+  confidence: Record<string, number>
+) {
+  const placeholders = collectPlaceholders(extractor.template, new Set());
+
+  return extractor.required.filter(
+    (field) => !isPresent(fields[field], placeholders) || (confidence[field] ?? 0) < MIN_FIELD_CONFIDENCE
+  );
+}
@@ -0,0 +1,193 @@
+import type { Prisma, Program, Student } from "@prisma/client";
+import { db } from "./db";
+import { educationLevel, gradeRank } from "./qualifications";
+
+export type CriterionResult = {
+  criterion: string;
+  required: string;
+  actual: string | null;
+  // null means the criterion needs manual review and does not affect the outcome
+  passed: boolean | null;
+  source: "profile" | "transcript" | "manual" | null;
+  note?: string;
+};
+
+export type EligibilityResult = {
+  eligible: boolean;
+  criteria: CriterionResult[];
+};
+
+type TranscriptData = {
+  grades?: Record<string, unknown>;
+  mathGrade?: unknown;
+  englishGrade?: unknown;
+  scienceGrade?: unknown;
+};
+
+const SUBJECT_ALIASES: Record<string, string[]> = {
+  math: ["math", "mathematics", "maths"],
+  english: ["english", "english language"],
+  science: ["science", "integrated science", "general science"],
+};
+
+const PROFILE_FIELDS: Record<string, "mathGrade" | "englishGrade" | "scienceGrade"> = {
+  math: "mathGrade",
+  english: "englishGrade",
+  science: "scienceGrade",
+};
+
+function normalizeSubject(subject: string) {
+  const key = subject.trim().toLowerCase();
+  for (const [canonical, aliases] of Object.entries(SUBJECT_ALIASES)) {
+    if (aliases.includes(key)) return canonical;
+  }
+  return key;
+}
+
+function findTranscriptGrade(subject: string, transcripts: TranscriptData[]): string | null {
+  const aliases = SUBJECT_ALIASES[subject] ?? [subject];
+  const field = PROFILE_FIELDS[subject];
+
+  for (const transcript of transcripts) {
+    if (field && typeof transcript[field] === "string" && transcript[field]) {
+      return transcript[field] as string;
+    }
+
+    for (const [name, grade] of Object.entries(transcript.grades ?? {})) {
+      if (typeof grade !== "string") continue;
+      const normalizedName = name.toLowerCase();
+      if (aliases.some((alias) => normalizedName.includes(alias))) return grade;
+    }
+  }
+
+  return null;
+}
+
+function checkGrade(
+  subject: string,
+  required: string,
+  student: Pick<Student, "mathGrade" | "englishGrade" | "scienceGrade">,
+  transcripts: TranscriptData[]
+): CriterionResult {
+  const canonical = normalizeSubject(subject);
+  const field = PROFILE_FIELDS[canonical];
+  const profileGrade = field ? student[field] : null;
+
+  const actual = profileGrade || findTranscriptGrade(canonical, transcripts);
+  const source = profileGrade ? "profile" : actual ? "transcript" : null;
+  const criterion = `grade:${canonical}`;
+
+  if (!actual) {
+    return { criterion, required, actual: null, passed: false, source, note: `No ${canonical} grade on profile or transcripts` };
+  }
+
+  const requiredRank = gradeRank(required);
+  const actualRank = gradeRank(actual);
+
+  if (requiredRank === null || actualRank === null) {
+    return { criterion, required, actual, passed: null, source, note: "Grade could not be interpreted, manual review required" };
+  }
+
+  return { criterion, required, actual, passed: actualRank <= requiredRank, source };
+}
+
+function checkEducation(minEducation: string, highestEducation: string | null): CriterionResult {
+  const criterion = "minEducation";
+
+  if (!highestEducation) {
+    return { criterion, required: minEducation, actual: null, passed: false, source: null, note: "Highest education not set on profile" };
+  }
+
+  const requiredLevel = educationLevel(minEducation);
+  const actualLevel = educationLevel(highestEducation);
+
+  if (requiredLevel === null || actualLevel === null) {
+    return {
+      criterion,
+      required: minEducation,
+      actual: highestEducation,
+      passed: null,
+      source: "profile",
+      note: "Education level could not be interpreted, manual review required",
+    };
+  }
+
+  return { criterion, required: minEducation, actual: highestEducation, passed: actualLevel >= requiredLevel, source: "profile" };
+}
+
+function parseRequiredGrades(value: Prisma.JsonValue | null): Record<string, string> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === "string")
+  );
+}
+
+// Pure evaluation of a student against a program's requirements
+export function evaluateEligibility(
+  student: Pick<Student, "mathGrade" | "englishGrade" | "scienceGrade" | "highestEducation">,
+  program: Pick<Program, "minEducation" | "requiredGrades" | "additionalRequirements">,
+  transcripts: TranscriptData[] = []
+): EligibilityResult {
+  const criteria: CriterionResult[] = [];
+
+  if (program.minEducation) {
+    criteria.push(checkEducation(program.minEducation, student.highestEducation));
+  }
+
+  for (const [subject, required] of Object.entries(parseRequiredGrades(program.requiredGrades))) {
+    criteria.push(checkGrade(subject, required, student, transcripts));
+  }
+
+  for (const requirement of program.additionalRequirements) {
+    criteria.push({
+      criterion: "additional",
+      required: requirement,
+      actual: null,
+      passed: null,
+      source: "manual",
+      note: "Verified by reviewer",
+    });
+  }
+
+  return {
+    eligible: criteria.every((result) => result.passed !== false),
+    criteria,
+  };
+}
+
+// Loads the student's profile and parsed transcripts and evaluates them against the program
+export async function checkStudentEligibility(
+  studentId: string,
+  program: Pick<Program, "minEducation" | "requiredGrades" | "additionalRequirements">
+) {
+  const student = await db.student.findUniqueOrThrow({
+    where: { id: studentId },
+    include: {
+      documents: {
+        where: { type: "TRANSCRIPT", verificationStatus: { not: "REJECTED" } },
+        orderBy: { uploadedAt: "desc" },
+      },
+    },
+  });
+
+  const transcripts = student.documents
+    .map((document) => document.parsedData)
+    .filter((data): data is Prisma.JsonObject => !!data && typeof data === "object" && !Array.isArray(data))
+    .map((data) => data as TranscriptData);
+
+  return evaluateEligibility(student, program, transcripts);
+}
+
+// Application fields that persist an eligibility result
+export function eligibilityFields(result: EligibilityResult) {
+  const failed = result.criteria.filter((criterion) => criterion.passed === false);
+
+  return {
+    meetsRequirements: result.eligible,
+    eligibilityNotes: failed.length
+      ? failed.map((criterion) => criterion.note ?? `${criterion.criterion}: requires ${criterion.required}, has ${criterion.actual}`).join("; ")
+      : null,
+    eligibilityBreakdown: result.criteria as unknown as Prisma.InputJsonValue,
+    eligibilityCheckedAt: new Date(),
+  };
+}
@@ -0,0 +1,300 @@
+import { Prisma, type DiscountCode, type Program } from "@prisma/client";
+import { z } from "zod";
+import { db } from "./db";
+import { enqueueJob } from "./jobs";
+import { notificationTemplates } from "./notifications";
+import { fromMinorUnits, toMinorUnits } from "./paystack";
+import { APIError } from "../middleware/error-handler";
+
+type FeeApplication = {
+  id: string;
+  program: Pick<Program, "applicationFee">;
+};
+
+// ============================================
+// FEE DUE
+// ============================================
+
+export async function applicationFeeDue(application: FeeApplication, tx: Prisma.TransactionClient = db) {
+  const fee = application.program.applicationFee;
+
+  const approved = await tx.feeWaiver.findMany({
+    where: { applicationId: application.id, status: "APPROVED" },
+    select: { approvedAmount: true },
+  });
+
+  const waivedMinor = Math.min(
+    toMinorUnits(fee),
+    approved.reduce((sum, waiver) => sum + toMinorUnits(waiver.approvedAmount ?? 0), 0)
+  );
+
+  return {
+    fee,
+    waived: fromMinorUnits(waivedMinor),
+    due: fromMinorUnits(Math.max(0, toMinorUnits(fee) - waivedMinor)),
+  };
+}
+
+// True when nothing is owed: the program is free, the fee was waived, or it has been paid
+export async function isFeeSatisfied(application: FeeApplication, tx: Prisma.TransactionClient = db) {
+  const { due } = await applicationFeeDue(application, tx);
+
+  if (due <= 0) return true;
+
+  const payment = await tx.payment.findFirst({
+    where: { applicationId: application.id, status: "COMPLETED" },
+    select: { id: true },
+  });
+
+  return !!payment;
+}
+
+// ============================================
+// WAIVERS
+// ============================================
+
+export type FeeWaiverRequest = {
+  reason: string;
+  documentIds: string[];
+  requestedAmount?: number;
+};
+
+export async function requestFeeWaiver(applicationId: string, request: FeeWaiverRequest) {
+  const application = await db.application.findUnique({
+    where: { id: applicationId },
+    include: { program: true, feeWaivers: { where: { status: "PENDING" } } },
+  });
+
+  if (!application) {
+    throw new APIError(404, "Application not found", "NOT_FOUND");
+  }
+
+  if (application.status !== "DRAFT") {
+    throw new APIError(409, "Fee waivers can only be requested before submitting", "INVALID_STATUS");
+  }
+
+  if (application.feeWaivers.length > 0) {
+    throw new APIError(409, "A fee waiver request is already under review", "WAIVER_PENDING");
+  }
+
+  if (await isFeeSatisfied(application)) {
+    throw new APIError(409, "No application fee is outstanding", "FEE_SATISFIED");
+  }
+
+  if (request.requestedAmount !== undefined && request.requestedAmount > application.program.applicationFee) {
+    throw new APIError(400, "Requested amount exceeds the application fee", "INVALID_AMOUNT");
+  }
+
+  const documents = await db.document.count({
+    where: { id: { in: request.documentIds }, studentId: application.studentId },
+  });
+
+  if (documents !== new Set(request.documentIds).size) {
+    throw new APIError(400, "Supporting documents must be your own uploads", "INVALID_DOCUMENTS");
+  }
+
+  const waiver = await db.feeWaiver.create({
+    data: {
+      applicationId,
+      reason: request.reason,
+      documentIds: request.documentIds,
+      requestedAmount: request.requestedAmount,
+    },
+  });
+
+  const reviewers = await db.universityAdmin.findMany({
+    where: { universityId: application.program.universityId },
+    select: { userId: true },
+  });
+
+  for (const reviewer of reviewers) {
+    await enqueueJob("notification.send", {
+      userId: reviewer.userId,
+      title: "Fee Waiver Requested",
+      message: `A student has asked for the application fee for "${application.program.title}" to be waived.`,
+      type: "payment",
+      actionUrl: `/university/fee-waivers/${waiver.id}`,
+      metadata: { feeWaiverId: waiver.id },
+    });
+  }
+
+  return waiver;
+}
+
+// Review body shared by the university and admin routes
+export const feeWaiverDecisionSchema = z.object({
+  decision: z.enum(["APPROVED", "REJECTED"]),
+  approvedAmount: z.number().positive().optional(),
+  note: z.string().optional(),
+});
+
+export type FeeWaiverDecision = z.infer<typeof feeWaiverDecisionSchema>;
+
+// Returns the waiver before and after the decision
+export async function reviewFeeWaiver(waiverId: string, reviewerId: string, decision: FeeWaiverDecision) {
+  const waiver = await db.feeWaiver.findUnique({
+    where: { id: waiverId },
+    include: { application: { include: { program: true, student: { select: { userId: true } } } } },
+  });
+
+  if (!waiver) {
+    throw new APIError(404, "Fee waiver not found", "NOT_FOUND");
+  }
+
+  if (waiver.status !== "PENDING") {
+    throw new APIError(409, `Fee waiver has already been ${waiver.status.toLowerCase()}`, "ALREADY_REVIEWED");
+  }
+
+  const { program } = waiver.application;
+  const approvedAmount = decision.decision === "APPROVED"
+    ? decision.approvedAmount ?? waiver.requestedAmount ?? program.applicationFee
+    : null;
+
+  if (approvedAmount !== null && (approvedAmount <= 0 || approvedAmount > program.applicationFee)) {
+    throw new APIError(400, "Approved amount must be between 0 and the application fee", "INVALID_AMOUNT");
+  }
+
+  // Guarded on PENDING so two reviewers cannot both decide
+  const { count } = await db.feeWaiver.updateMany({
+    where: { id: waiverId, status: "PENDING" },
+    data: {
+      status: decision.decision,
+      approvedAmount,
+      reviewNote: decision.note,
+      reviewedById: reviewerId,
+      reviewedAt: new Date(),
+    },
+  });
+
+  if (count === 0) {
+    throw new APIError(409, "Fee waiver has already been reviewed", "ALREADY_REVIEWED");
+  }
+
+  const template = approvedAmount === null
+    ? notificationTemplates.feeWaiverRejected(program.title)
+    : notificationTemplates.feeWaiverApproved(program.title, approvedAmount >= program.applicationFee);
+
+  await enqueueJob("notification.send", {
+    userId: waiver.application.student.userId,
+    ...template,
+    actionUrl: `/applications/${waiver.applicationId}`,
+    metadata: { feeWaiverId: waiver.id },
+  });
+
+  return { before: waiver, after: await db.feeWaiver.findUniqueOrThrow({ where: { id: waiverId } }) };
+}
+
+// ============================================
+// DISCOUNT CODES
+// ============================================
+
+// Payments that hold a use of a code; failed and expired checkouts give it back
+const REDEEMING_PAYMENT_STATUSES: Prisma.PaymentWhereInput["status"] = { in: ["PENDING", "COMPLETED"] };
+
+export function normalizeDiscountCode(code: string) {
+  return code.trim().toUpperCase();
+}
+
+// Request bodies shared by the admin and employer routes
+export const discountCodeSchema = z.object({
+  code: z.string().min(3).max(32).regex(/^[A-Za-z0-9_-]+$/),
+  description: z.string().optional(),
+  percentOff: z.number().int().min(1).max(100).optional(),
+  amountOff: z.number().positive().optional(),
+  programId: z.string().optional(),
+  maxUses: z.number().int().min(1).optional(),
+  expiresAt: z.string().datetime({ offset: true }).optional(),
+});
+
+export const discountCodeUpdateSchema = z.object({
+  isActive: z.boolean().optional(),
+  maxUses: z.number().int().min(1).nullable().optional(),
+  expiresAt: z.string().datetime({ offset: true }).nullable().optional(),
+});
+
+export type DiscountCodeInput = z.infer<typeof discountCodeSchema> & {
+  employerId?: string;
+};
+
+export async function createDiscountCode(input: DiscountCodeInput, createdById: string) {
+  if ((input.percentOff === undefined) === (input.amountOff === undefined)) {
+    throw new APIError(400, "Give either percentOff or amountOff", "INVALID_DISCOUNT");
+  }
+
+  try {
+    return await db.discountCode.create({
+      data: {
+        ...input,
+        code: normalizeDiscountCode(input.code),
+        expiresAt: input.expiresAt ? new Date(input.expiresAt) : undefined,
+        createdById,
+      },
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      throw new APIError(409, "A discount code with that name already exists", "DUPLICATE_CODE");
+    }
+    throw error;
+  }
+}
+
+export function discountAmount(code: Pick<DiscountCode, "percentOff" | "amountOff">, amount: number) {
+  const minor = toMinorUnits(amount);
+  const off = code.percentOff
+    ? Math.round((minor * code.percentOff) / 100)
+    : toMinorUnits(code.amountOff ?? 0);
+
+  return fromMinorUnits(Math.min(minor, off));
+}
+
+// Checks a code can be used on this application's program right now. Run inside the
+// transaction that creates the payment so concurrent checkouts cannot overrun maxUses.
+export async function findUsableDiscountCode(
+  tx: Prisma.TransactionClient,
+  code: string,
+  application: { id: string; program: Pick<Program, "id" | "employerId"> }
+) {
+  const discount = await tx.discountCode.findUnique({ where: { code: normalizeDiscountCode(code) } });
+
+  if (
+    !discount ||
+    !discount.isActive ||
+    (discount.programId && discount.programId !== application.program.id) ||
+    (discount.employerId && discount.employerId !== application.program.employerId)
+  ) {
+    throw new APIError(400, "Discount code is not valid for this program", "INVALID_DISCOUNT_CODE");
+  }
+
+  if (discount.expiresAt && discount.expiresAt < new Date()) {
+    throw new APIError(400, "Discount code has expired", "DISCOUNT_CODE_EXPIRED");
+  }
+
+  if (discount.maxUses !== null) {
+    // Retrying checkout for the same application does not use the code again
+    const holders = await tx.discountRedemption.findMany({
+      where: {
+        codeId: discount.id,
+        applicationId: { not: application.id },
+        payment: { status: REDEEMING_PAYMENT_STATUSES },
+      },
+      distinct: ["applicationId"],
+      select: { applicationId: true },
+    });
+
+    if (holders.length >= discount.maxUses) {
+      throw new APIError(409, "Discount code has been fully used", "DISCOUNT_CODE_EXHAUSTED");
+    }
+  }
+
+  return discount;
+}
+
+export async function discountCodeUsage(codeId: string) {
+  const redemptions = await db.discountRedemption.findMany({
+    where: { codeId, payment: { status: REDEEMING_PAYMENT_STATUSES } },
+    distinct: ["applicationId"],
+    select: { applicationId: true },
+  });
+
+  return redemptions.length;
+}
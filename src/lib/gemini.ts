@@ -1,9 +1,53 @@
 import { GoogleGenerativeAI } from "@google/generative-ai";
+import type { Prisma } from "@prisma/client";
+import { z } from "zod";
 import { db } from "./db";
+import { buildExtractionPrompt, documentExtractors, missingRequiredFields } from "./document-extractors";
+import { storage } from "./storage";
 
 const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
 
-export async function parseDocumentWithGemini(documentId: string, fileUrl: string) {
+export function isGeminiConfigured() {
+  return Boolean(process.env.GEMINI_API_KEY);
+}
+
+// Clean the response - remove markdown code blocks if present
+function parseJsonResponse(text: string) {
+  const cleanedText = text.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
+  return JSON.parse(cleanedText);
+}
+
+// Gemini rejects inline payloads above ~20MB
+const MAX_INLINE_BYTES = 20 * 1024 * 1024;
+
+const extractionResponseSchema = z.object({
+  fields: z.record(z.unknown()),
+  confidence: z.record(z.coerce.number().min(0).max(1)).default({}),
+});
+
+// Only objects held by the storage driver are parsed. Document.fileUrl is never fetched: it
+// can point anywhere, including internal hosts, and what is parsed is shown to the student.
+async function readStoredFile(storageKey: string) {
+  const object = await storage.get(storageKey);
+  if (!object) throw new Error(`Stored file not found: ${storageKey}`);
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of object.body) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks);
+}
+
+async function markForReview(documentId: string, notes: string, data: Prisma.DocumentUpdateInput = {}) {
+  await db.document.update({
+    where: { id: documentId },
+    data: {
+      ...data,
+      verificationStatus: "NEEDS_REVIEW",
+      verificationNotes: notes,
+    },
+  });
+}
+
+export async function parseDocumentWithGemini(documentId: string) {
   try {
     const model = genAI.getGenerativeModel({ model: "gemini-2.5-pro" });
 
@@ -14,143 +58,97 @@ export async function parseDocumentWithGemini(documentId: string, fileUrl: strin
 
     if (!document) return;
 
-    // Build prompt based on document type
-    let prompt = "";
-    
-    switch (document.type) {
-      case "TRANSCRIPT":
-        prompt = `Analyze this academic transcript and extract the following information in JSON format:
-        {
-          "institution": "name of the institution",
-          "studentName": "student's full name",
-          "studentId": "student ID if visible",
-          "program": "degree/program name",
-          "graduationYear": "year of graduation or expected graduation",
-          "gpa": "GPA or equivalent score",
-          "grades": {
-            "subject": "grade"
-          },
-          "mathGrade": "grade for mathematics/math-related course",
-          "englishGrade": "grade for English/language course",
-          "scienceGrade": "grade for science course if applicable"
-        }
-        
-        Only return valid JSON, no explanations.`;
-        break;
-
-      case "CERTIFICATE":
-        prompt = `Analyze this certificate and extract the following information in JSON format:
-        {
-          "type": "type of certificate",
-          "title": "certificate title",
-          "issuedTo": "name of the recipient",
-          "issuedBy": "issuing organization",
-          "issueDate": "date of issue",
-          "certificateNumber": "certificate number if visible",
-          "validUntil": "expiry date if applicable"
-        }
-        
-        Only return valid JSON, no explanations.`;
-        break;
-
-      case "CV":
-        prompt = `Analyze this CV/Resume and extract the following information in JSON format:
-        {
-          "name": "full name",
-          "email": "email address",
-          "phone": "phone number",
-          "location": "city/country",
-          "summary": "professional summary if present",
-          "education": [
-            {
-              "institution": "school name",
-              "degree": "degree type",
-              "field": "field of study",
-              "year": "graduation year"
-            }
-          ],
-          "experience": [
-            {
-              "company": "company name",
-              "role": "job title",
-              "duration": "time period",
-              "description": "brief description"
-            }
-          ],
-          "skills": ["skill1", "skill2"],
-          "languages": ["language1", "language2"]
-        }
-        
-        Only return valid JSON, no explanations.`;
-        break;
-
-      case "ID_DOCUMENT":
-        prompt = `Analyze this ID document and extract the following information in JSON format:
-        {
-          "documentType": "type of ID",
-          "fullName": "full name as shown",
-          "idNumber": "ID number",
-          "dateOfBirth": "date of birth",
-          "nationality": "nationality if shown",
-          "issueDate": "date of issue",
-          "expiryDate": "expiry date"
-        }
-        
-        Only return valid JSON, no explanations.`;
-        break;
-
-      default:
-        prompt = `Analyze this document and extract all relevant information in JSON format. Include document type, key details, dates, names, and any other important information.
-        
-        Only return valid JSON, no explanations.`;
+    if (!document.storageKey) {
+      await markForReview(documentId, "File is not in storage, manual review required");
+      return;
     }
 
-    // In production, you would:
-    // 1. Download the file from fileUrl
-    // 2. Convert to base64 if it's an image
-    // 3. Use Gemini's vision capabilities for images/PDFs
-    
-    // For now, we'll simulate the response structure
-    // In real implementation, use:
-    // const result = await model.generateContent([prompt, { inlineData: { mimeType, data: base64 } }]);
-    
-    const result = await model.generateContent(prompt);
+    const file = await readStoredFile(document.storageKey);
+
+    if (file.byteLength > MAX_INLINE_BYTES) {
+      await markForReview(documentId, "File too large for automatic parsing, manual review required");
+      return;
+    }
+
+    const extractor = documentExtractors[document.type];
+
+    const result = await model.generateContent([
+      buildExtractionPrompt(extractor),
+      { inlineData: { mimeType: document.mimeType, data: file.toString("base64") } },
+    ]);
     const response = await result.response;
     const text = response.text();
 
-    // Parse the JSON response
-    let parsedData;
+    // Parse and validate the JSON response
+    let raw: unknown;
     try {
-      // Clean the response - remove markdown code blocks if present
-      const cleanedText = text.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
-      parsedData = JSON.parse(cleanedText);
+      raw = parseJsonResponse(text);
     } catch {
-      parsedData = { rawText: text };
+      await markForReview(documentId, "Parser returned invalid JSON, manual review required", {
+        parsedData: { rawText: text },
+        parsedAt: new Date(),
+      });
+      return;
+    }
+
+    const envelope = extractionResponseSchema.safeParse(raw);
+    const fields = envelope.success ? extractor.schema.safeParse(envelope.data.fields) : envelope;
+
+    if (!fields.success) {
+      const issues = fields.error.issues
+        .map((issue) => `${issue.path.join(".") || "response"}: ${issue.message}`)
+        .join("; ");
+
+      await markForReview(documentId, `Parsed data failed validation (${issues}), manual review required`, {
+        parsedData: raw as Prisma.InputJsonValue,
+        parsedAt: new Date(),
+      });
+      return;
     }
 
+    const parsedData = fields.data;
+    const confidence = envelope.success ? envelope.data.confidence : {};
+    const missing = missingRequiredFields(extractor, parsedData, confidence);
+    // OTHER documents have no required fields and always need a human to look at them
+    const verified = extractor.required.length > 0 && missing.length === 0;
+
     // Update document with parsed data
     await db.document.update({
       where: { id: documentId },
       data: {
-        parsedData,
-        verificationStatus: "VERIFIED",
+        parsedData: parsedData as Prisma.InputJsonValue,
+        parsedConfidence: confidence,
+        parsedAt: new Date(),
+        verificationStatus: verified ? "VERIFIED" : "NEEDS_REVIEW",
+        verificationNotes: verified
+          ? null
+          : missing.length
+            ? `Missing or low-confidence fields: ${missing.join(", ")}`
+            : "Manual review required",
       },
     });
 
-    // If it's a transcript, update student grades
-    if (document.type === "TRANSCRIPT" && parsedData.grades) {
+    // If it's a verified transcript, update student grades
+    if (verified && document.type === "TRANSCRIPT") {
+      const transcript = parsedData as {
+        mathGrade?: string | null;
+        englishGrade?: string | null;
+        scienceGrade?: string | null;
+        gpa?: string | null;
+      };
       const student = await db.student.findUnique({
         where: { id: document.studentId },
       });
+      const gpa = transcript.gpa ? parseFloat(transcript.gpa) : NaN;
 
       if (student) {
         await db.student.update({
           where: { id: student.id },
           data: {
-            mathGrade: parsedData.mathGrade || student.mathGrade,
-            englishGrade: parsedData.englishGrade || student.englishGrade,
-            scienceGrade: parsedData.scienceGrade || student.scienceGrade,
-            gpa: parsedData.gpa ? parseFloat(parsedData.gpa) : student.gpa,
+            mathGrade: transcript.mathGrade || student.mathGrade,
+            englishGrade: transcript.englishGrade || student.englishGrade,
+            scienceGrade: transcript.scienceGrade || student.scienceGrade,
+            gpa: Number.isNaN(gpa) ? student.gpa : gpa,
           },
         });
       }
@@ -161,14 +159,38 @@ export async function parseDocumentWithGemini(documentId: string, fileUrl: strin
     console.error("Gemini parsing error:", error);
     
     // Mark document as needing manual review
-    await db.document.update({
-      where: { id: documentId },
-      data: {
-        verificationStatus: "PENDING",
-        verificationNotes: "Automatic parsing failed, manual review required",
-      },
-    });
+    await markForReview(documentId, "Automatic parsing failed, manual review required");
 
     throw error;
   }
 }
+
+const matchScoreSchema = z.object({
+  score: z.coerce.number().min(0).max(100),
+  rationale: z.string().min(1),
+});
+
+export type MatchScore = z.infer<typeof matchScoreSchema>;
+
+export async function scoreApplicationWithGemini(context: Record<string, unknown>): Promise<MatchScore> {
+  const model = genAI.getGenerativeModel({ model: "gemini-2.5-pro" });
+
+  const prompt = `You are screening applicants for an employer-funded training program.
+  Rate how well this applicant matches the program on a scale of 0 to 100, considering
+  academic background, relevant skills and experience, and the motivation letter.
+
+  ${JSON.stringify(context, null, 2)}
+
+  Respond in JSON format:
+  {
+    "score": number between 0 and 100,
+    "rationale": "two or three sentences explaining the score"
+  }
+
+  Only return valid JSON, no explanations.`;
+
+  const result = await model.generateContent(prompt);
+  const response = await result.response;
+
+  return matchScoreSchema.parse(parseJsonResponse(response.text()));
+}
@@ -0,0 +1,67 @@
+// Minimal iCalendar (RFC 5545) event builder for interview invites
+
+export type CalendarEvent = {
+  uid: string;
+  sequence: number;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string | null;
+  url?: string | null;
+  attendees?: { name?: string | null; email: string }[];
+  // REQUEST for new or updated invites, CANCEL to remove the event from calendars
+  method: "REQUEST" | "CANCEL";
+};
+
+function formatDate(date: Date) {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function escapeText(text: string) {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 characters are folded onto continuation lines starting with a space
+function fold(line: string) {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += 74) {
+    parts.push(line.slice(i, i + 74));
+  }
+  return parts.join("\r\n ");
+}
+
+export function buildCalendarEvent(event: CalendarEvent) {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Workstream//Interviews//EN",
+    "CALSCALE:GREGORIAN",
+    `METHOD:${event.method}`,
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatDate(new Date())}`,
+    `DTSTART:${formatDate(event.start)}`,
+    `DTEND:${formatDate(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    `STATUS:${event.method === "CANCEL" ? "CANCELLED" : "CONFIRMED"}`,
+  ];
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+
+  for (const attendee of event.attendees ?? []) {
+    const name = attendee.name ? `;CN=${escapeText(attendee.name)}` : "";
+    lines.push(`ATTENDEE${name};ROLE=REQ-PARTICIPANT:mailto:${attendee.email}`);
+  }
+
+  lines.push("END:VEVENT", "END:VCALENDAR");
+
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,485 @@
+import type { Prisma } from "@prisma/client";
+import { transitionApplication, type TransitionActor } from "./application-status";
+import { db, serializable } from "./db";
+import { buildCalendarEvent } from "./ics";
+import { enqueueJob } from "./jobs";
+import { emailTemplates, notificationTemplates } from "./notifications";
+import { APIError } from "../middleware/error-handler";
+
+// Reminders go out this many minutes before each interview
+const REMINDER_LEADS_MINUTES = [24 * 60, 60];
+
+const INTERVIEW_TIME_ZONE = process.env.INTERVIEW_TIME_ZONE || "Africa/Accra";
+
+const participantSelect = { id: true, email: true, firstName: true, lastName: true } as const;
+
+export const interviewInclude = {
+  application: {
+    select: {
+      id: true,
+      programId: true,
+      status: true,
+      program: { select: { title: true, universityId: true, employerId: true } },
+      student: { select: { userId: true, user: { select: participantSelect } } },
+    },
+  },
+  panel: { include: { user: { select: participantSelect } } },
+} satisfies Prisma.InterviewInclude;
+
+export type InterviewWithContext = Prisma.InterviewGetPayload<{ include: typeof interviewInclude }>;
+
+export function formatInterviewTime(date: Date) {
+  return {
+    date: date.toLocaleDateString("en-GB", {
+      weekday: "long",
+      day: "numeric",
+      month: "long",
+      year: "numeric",
+      timeZone: INTERVIEW_TIME_ZONE,
+    }),
+    time: date.toLocaleTimeString("en-GB", {
+      hour: "2-digit",
+      minute: "2-digit",
+      timeZone: INTERVIEW_TIME_ZONE,
+      timeZoneName: "short",
+    }),
+  };
+}
+
+export function interviewInvite(interview: InterviewWithContext) {
+  const candidate = interview.application.student.user;
+
+  return buildCalendarEvent({
+    uid: `interview-${interview.id}@workstream`,
+    sequence: interview.sequence,
+    start: interview.startsAt,
+    end: interview.endsAt,
+    summary: `Interview: ${interview.application.program.title} (round ${interview.round})`,
+    description: [interview.notes, interview.meetingUrl && `Join: ${interview.meetingUrl}`]
+      .filter(Boolean)
+      .join("\n"),
+    location: interview.location ?? interview.meetingUrl,
+    url: interview.meetingUrl,
+    attendees: [candidate, ...interview.panel.map((panelist) => panelist.user)].map((user) => ({
+      name: [user.firstName, user.lastName].filter(Boolean).join(" ") || null,
+      email: user.email,
+    })),
+    method: interview.status === "CANCELLED" ? "CANCEL" : "REQUEST",
+  });
+}
+
+// Notifies the candidate and every panelist, attaching the calendar invite to the email
+async function notifyParticipants(
+  tx: Prisma.TransactionClient,
+  interview: InterviewWithContext,
+  kind: "scheduled" | "rescheduled" | "cancelled",
+  reason?: string
+) {
+  const { title } = interview.application.program;
+  const { date, time } = formatInterviewTime(interview.startsAt);
+  const candidate = interview.application.student.user;
+  const invite = Buffer.from(interviewInvite(interview)).toString("base64");
+
+  const recipients = [
+    { user: candidate, actionUrl: `/applications/${interview.applicationId}` },
+    ...interview.panel.map((panelist) => ({ user: panelist.user, actionUrl: `/interviews/${interview.id}` })),
+  ];
+
+  const template =
+    kind === "scheduled" ? notificationTemplates.interviewScheduled(title, `${date} ${time}`)
+    : kind === "rescheduled" ? notificationTemplates.interviewRescheduled(title, `${date} ${time}`)
+    : notificationTemplates.interviewCancelled(title);
+
+  for (const { user, actionUrl } of recipients) {
+    const userName = user.firstName || "there";
+
+    await enqueueJob(
+      "notification.send",
+      { userId: user.id, ...template, actionUrl, metadata: { interviewId: interview.id } },
+      {},
+      tx
+    );
+
+    await enqueueJob(
+      "email.send",
+      {
+        userId: user.id,
+        subject: template.title,
+        html:
+          kind === "scheduled" ? emailTemplates.interviewScheduled(userName, title, date, time)
+          : kind === "rescheduled" ? emailTemplates.interviewRescheduled(userName, title, date, time, reason)
+          : emailTemplates.interviewCancelled(userName, title, reason),
+        attachments: [{ filename: "interview.ics", content: invite, contentType: "text/calendar" }],
+      },
+      {},
+      tx
+    );
+  }
+}
+
+// Reminders carry the interview sequence so ones queued before a reschedule are ignored
+async function scheduleReminders(tx: Prisma.TransactionClient, interview: InterviewWithContext) {
+  for (const minutesBefore of REMINDER_LEADS_MINUTES) {
+    const runAt = new Date(interview.startsAt.getTime() - minutesBefore * 60 * 1000);
+
+    if (runAt > new Date()) {
+      await enqueueJob(
+        "interview.remind",
+        { interviewId: interview.id, sequence: interview.sequence },
+        { runAt },
+        tx
+      );
+    }
+  }
+}
+
+// Panelists must be staff of the program's university or employer; checked when slots are
+// published as well as when an interview is scheduled
+export async function assertPanel(tx: Prisma.TransactionClient, programId: string, panelUserIds: string[]) {
+  if (!panelUserIds.length) return;
+
+  const program = await tx.program.findUniqueOrThrow({ where: { id: programId } });
+
+  const staff = await tx.user.count({
+    where: {
+      id: { in: panelUserIds },
+      OR: [
+        { universityAdmin: { universityId: program.universityId } },
+        { employerAdmin: { employerId: program.employerId } },
+      ],
+    },
+  });
+
+  if (staff !== panelUserIds.length) {
+    throw new APIError(400, "Panelists must be staff of the program's university or employer", "INVALID_PANEL");
+  }
+}
+
+// The panel when the scheduler does not name one: the scheduler, if they are on the employer's
+// team, otherwise the employer's candidate reviewers (e.g. for platform admins and API keys)
+export async function defaultPanel(employerId: string, schedulerId: string) {
+  const members = await db.employerAdmin.findMany({
+    where: { employerId, OR: [{ userId: schedulerId }, { canReviewCandidates: true }] },
+    select: { userId: true },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return members.some((member) => member.userId === schedulerId)
+    ? [schedulerId]
+    : members.map((member) => member.userId);
+}
+
+function assertInterviewTimes(startsAt: Date, endsAt: Date) {
+  if (endsAt <= startsAt) {
+    throw new APIError(400, "Interview must end after it starts", "INVALID_INTERVIEW_TIME");
+  }
+
+  if (startsAt <= new Date()) {
+    throw new APIError(400, "Interview must be in the future", "INVALID_INTERVIEW_TIME");
+  }
+}
+
+async function slotIsTaken(tx: Prisma.TransactionClient, slotId: string, exceptInterviewId?: string) {
+  const bookings = await tx.interview.count({
+    where: {
+      slotId,
+      status: { not: "CANCELLED" },
+      ...(exceptInterviewId && { id: { not: exceptInterviewId } }),
+    },
+  });
+  return bookings > 0;
+}
+
+export type ScheduleInterviewInput = {
+  applicationId: string;
+  actor: TransitionActor;
+  round?: number;
+  startsAt: Date;
+  endsAt: Date;
+  location?: string | null;
+  meetingUrl?: string | null;
+  notes?: string;
+  slotId?: string;
+  panelUserIds?: string[];
+};
+
+// Creates an interview, moving a shortlisted application to INTERVIEW_SCHEDULED.
+// Pass a transaction client to run as part of a larger unit of work.
+export async function scheduleInterview(
+  input: ScheduleInterviewInput,
+  tx?: Prisma.TransactionClient
+): Promise<InterviewWithContext> {
+  if (!tx) {
+    return serializable((client) => scheduleInterview(input, client));
+  }
+
+  const { applicationId, actor, startsAt, endsAt } = input;
+  const round = input.round ?? 1;
+  const panelUserIds = [...new Set(input.panelUserIds ?? [])];
+
+  assertInterviewTimes(startsAt, endsAt);
+
+  const application = await tx.application.findUnique({ where: { id: applicationId } });
+
+  if (!application) {
+    throw new APIError(404, "Application not found", "NOT_FOUND");
+  }
+
+  if (application.status !== "SHORTLISTED" && application.status !== "INTERVIEW_SCHEDULED") {
+    throw new APIError(409, "Only shortlisted candidates can be interviewed", "INVALID_STATUS");
+  }
+
+  const existing = await tx.interview.count({
+    where: { applicationId, round, status: "SCHEDULED" },
+  });
+
+  if (existing) {
+    throw new APIError(409, `A round ${round} interview is already scheduled; reschedule it instead`, "INTERVIEW_EXISTS");
+  }
+
+  await assertPanel(tx, application.programId, panelUserIds);
+
+  const { id } = await tx.interview.create({
+    data: {
+      applicationId,
+      round,
+      startsAt,
+      endsAt,
+      location: input.location,
+      meetingUrl: input.meetingUrl,
+      notes: input.notes,
+      slotId: input.slotId,
+      scheduledById: actor.userId,
+      panel: {
+        create: panelUserIds.map((userId, index) => ({ userId, role: index === 0 ? "LEAD" : "MEMBER" })),
+      },
+    },
+  });
+
+  if (application.status === "SHORTLISTED") {
+    await transitionApplication(
+      {
+        applicationId,
+        to: "INTERVIEW_SCHEDULED",
+        // Candidates booking a slot schedule on behalf of the program staff who published it
+        actor: actor.role === "STUDENT" ? { role: "SYSTEM" } : actor,
+        reason: `Round ${round} interview scheduled`,
+        data: { interviewDate: startsAt },
+        // notifyParticipants sends the interview details instead of a generic status update
+        notify: false,
+      },
+      tx
+    );
+  } else {
+    await tx.application.update({
+      where: { id: applicationId },
+      data: { interviewDate: startsAt },
+    });
+  }
+
+  const interview = await tx.interview.findUniqueOrThrow({ where: { id }, include: interviewInclude });
+
+  await notifyParticipants(tx, interview, "scheduled");
+  await scheduleReminders(tx, interview);
+
+  return interview;
+}
+
+// Candidate books a published slot
+export async function bookInterviewSlot(slotId: string, applicationId: string, actor: TransitionActor) {
+  return serializable(async (tx) => {
+    const slot = await tx.interviewSlot.findUnique({ where: { id: slotId } });
+
+    if (!slot || slot.startsAt <= new Date()) {
+      throw new APIError(404, "Slot not available", "NOT_FOUND");
+    }
+
+    const application = await tx.application.findUnique({ where: { id: applicationId } });
+
+    if (!application || application.programId !== slot.programId) {
+      throw new APIError(400, "Slot belongs to a different program", "INVALID_SLOT");
+    }
+
+    if (await slotIsTaken(tx, slotId)) {
+      throw new APIError(409, "Slot has already been booked", "SLOT_TAKEN");
+    }
+
+    return scheduleInterview(
+      {
+        applicationId,
+        actor,
+        round: slot.round,
+        startsAt: slot.startsAt,
+        endsAt: slot.endsAt,
+        location: slot.location,
+        meetingUrl: slot.meetingUrl,
+        slotId: slot.id,
+        panelUserIds: slot.panelUserIds,
+      },
+      tx
+    );
+  });
+}
+
+export type RescheduleInterviewInput = {
+  slotId?: string;
+  startsAt?: Date;
+  endsAt?: Date;
+  location?: string | null;
+  meetingUrl?: string | null;
+  reason?: string;
+};
+
+export async function rescheduleInterview(interviewId: string, input: RescheduleInterviewInput) {
+  return serializable(async (tx) => {
+    const current = await tx.interview.findUnique({
+      where: { id: interviewId },
+      include: { application: { select: { programId: true } } },
+    });
+
+    if (!current) {
+      throw new APIError(404, "Interview not found", "NOT_FOUND");
+    }
+
+    if (current.status !== "SCHEDULED") {
+      throw new APIError(409, `Cannot reschedule a ${current.status.toLowerCase()} interview`, "INVALID_STATUS");
+    }
+
+    let changes: Prisma.InterviewUncheckedUpdateInput;
+
+    if (input.slotId) {
+      const slot = await tx.interviewSlot.findUnique({ where: { id: input.slotId } });
+
+      if (!slot || slot.programId !== current.application.programId || slot.round !== current.round) {
+        throw new APIError(400, "Slot must be for the same program and round", "INVALID_SLOT");
+      }
+
+      if (await slotIsTaken(tx, slot.id, interviewId)) {
+        throw new APIError(409, "Slot has already been booked", "SLOT_TAKEN");
+      }
+
+      changes = {
+        slotId: slot.id,
+        startsAt: slot.startsAt,
+        endsAt: slot.endsAt,
+        location: slot.location,
+        meetingUrl: slot.meetingUrl,
+      };
+    } else if (input.startsAt && input.endsAt) {
+      changes = {
+        slotId: null,
+        startsAt: input.startsAt,
+        endsAt: input.endsAt,
+        location: input.location,
+        meetingUrl: input.meetingUrl,
+      };
+    } else {
+      throw new APIError(400, "Provide a slot or new start and end times", "VALIDATION_ERROR");
+    }
+
+    assertInterviewTimes(changes.startsAt as Date, changes.endsAt as Date);
+
+    const interview = await tx.interview.update({
+      where: { id: interviewId },
+      data: { ...changes, sequence: { increment: 1 } },
+      include: interviewInclude,
+    });
+
+    await tx.application.update({
+      where: { id: interview.applicationId },
+      data: { interviewDate: interview.startsAt },
+    });
+
+    await notifyParticipants(tx, interview, "rescheduled", input.reason);
+    await scheduleReminders(tx, interview);
+
+    return interview;
+  });
+}
+
+export async function cancelInterview(interviewId: string, reason?: string) {
+  return serializable(async (tx) => {
+    const { count } = await tx.interview.updateMany({
+      where: { id: interviewId, status: "SCHEDULED" },
+      data: {
+        status: "CANCELLED",
+        cancelledAt: new Date(),
+        cancellationReason: reason,
+        sequence: { increment: 1 },
+      },
+    });
+
+    if (count === 0) {
+      throw new APIError(409, "Only scheduled interviews can be cancelled", "INVALID_STATUS");
+    }
+
+    const interview = await tx.interview.findUniqueOrThrow({ where: { id: interviewId }, include: interviewInclude });
+
+    await notifyParticipants(tx, interview, "cancelled", reason);
+
+    return interview;
+  });
+}
+
+// Records whether the candidate attended
+export async function recordInterviewOutcome(
+  interviewId: string,
+  attendance: "ATTENDED" | "NO_SHOW",
+  recordedBy: string,
+  notes?: string
+) {
+  const interview = await db.interview.findUnique({ where: { id: interviewId } });
+
+  if (!interview) {
+    throw new APIError(404, "Interview not found", "NOT_FOUND");
+  }
+
+  if (interview.status === "CANCELLED") {
+    throw new APIError(409, "Cannot record an outcome for a cancelled interview", "INVALID_STATUS");
+  }
+
+  if (interview.startsAt > new Date()) {
+    throw new APIError(409, "Cannot record an outcome before the interview starts", "INVALID_STATUS");
+  }
+
+  return db.interview.update({
+    where: { id: interviewId },
+    data: {
+      status: attendance === "ATTENDED" ? "COMPLETED" : "NO_SHOW",
+      outcomeNotes: notes,
+      outcomeRecordedAt: new Date(),
+      outcomeRecordedBy: recordedBy,
+    },
+    include: interviewInclude,
+  });
+}
+
+export async function sendInterviewReminder(interviewId: string, sequence: number) {
+  const interview = await db.interview.findUnique({ where: { id: interviewId }, include: interviewInclude });
+
+  // Cancelled, finished or rescheduled since this reminder was queued
+  if (!interview || interview.status !== "SCHEDULED" || interview.sequence !== sequence) {
+    return;
+  }
+
+  const { title } = interview.application.program;
+  const { date, time } = formatInterviewTime(interview.startsAt);
+  const template = notificationTemplates.interviewReminder(title, `${date} ${time}`);
+
+  const users = [interview.application.student.user, ...interview.panel.map((panelist) => panelist.user)];
+
+  for (const user of users) {
+    await enqueueJob("notification.send", {
+      userId: user.id,
+      ...template,
+      actionUrl: `/interviews/${interview.id}`,
+      metadata: { interviewId: interview.id },
+    });
+
+    await enqueueJob("email.send", {
+      userId: user.id,
+      subject: template.title,
+      html: emailTemplates.interviewReminder(user.firstName || "there", title, date, time),
+    });
+  }
+}
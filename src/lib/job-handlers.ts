@@ -0,0 +1,57 @@
+import { db } from "./db";
+import { parseDocumentWithGemini } from "./gemini";
+import { sendInterviewReminder } from "./interviews";
+import { registerJobHandler } from "./jobs";
+import { createNotification, sendEmailNotification } from "./notifications";
+import { expireOffer } from "./offers";
+import { sendReceiptEmail } from "./receipts";
+import { runPaymentReconciliation } from "./reconciliation";
+import { scoreApplication } from "./scoring";
+import { sendInvitationEmail } from "./teams";
+
+registerJobHandler("document.parse", async ({ documentId }) => {
+  await parseDocumentWithGemini(documentId);
+});
+
+registerJobHandler("application.score", async ({ applicationId }) => {
+  await scoreApplication(applicationId);
+});
+
+registerJobHandler("notification.send", async (notification) => {
+  await createNotification(notification);
+});
+
+registerJobHandler("email.send", async ({ userId, subject, html, attachments }) => {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { email: true },
+  });
+
+  if (!user) return;
+
+  // sendEmailNotification returns null both on failure and when Resend is not configured
+  const result = await sendEmailNotification(user.email, subject, html, attachments);
+  if (!result && process.env.RESEND_API_KEY) {
+    throw new Error(`Failed to send email to user ${userId}`);
+  }
+});
+
+registerJobHandler("offer.expire", async ({ applicationId }) => {
+  await expireOffer(applicationId);
+});
+
+registerJobHandler("interview.remind", async ({ interviewId, sequence }) => {
+  await sendInterviewReminder(interviewId, sequence);
+});
+
+registerJobHandler("payment.reconcile", async ({ scope }) => {
+  await runPaymentReconciliation(scope);
+});
+
+registerJobHandler("receipt.send", async ({ receiptId }) => {
+  await sendReceiptEmail(receiptId);
+});
+
+registerJobHandler("invitation.send", async ({ invitationId }) => {
+  await sendInvitationEmail(invitationId);
+});
@@ -0,0 +1,167 @@
+import { hostname } from "os";
+import type { Job, Prisma } from "@prisma/client";
+import { db } from "./db";
+import type { EmailAttachment } from "./notifications";
+
+// Payload for each job type; add an entry here before enqueuing a new kind of job
+export type JobPayloads = {
+  "document.parse": { documentId: string };
+  "application.score": { applicationId: string };
+  "notification.send": {
+    userId: string;
+    title: string;
+    message: string;
+    type: string;
+    actionUrl?: string;
+    metadata?: Record<string, unknown>;
+  };
+  "email.send": { userId: string; subject: string; html: string; attachments?: EmailAttachment[] };
+  "offer.expire": { applicationId: string };
+  "interview.remind": { interviewId: string; sequence: number };
+  "payment.reconcile": { scope: "pending" | "daily" };
+  "receipt.send": { receiptId: string };
+  "invitation.send": { invitationId: string };
+};
+
+export type JobType = keyof JobPayloads;
+
+type JobHandler<T extends JobType> = (payload: JobPayloads[T], job: Job) => Promise<void>;
+
+const handlers: { [K in JobType]?: JobHandler<K> } = {};
+
+export function registerJobHandler<T extends JobType>(type: T, handler: JobHandler<T>) {
+  (handlers as Record<string, JobHandler<T>>)[type] = handler;
+}
+
+// Pass a transaction client to enqueue atomically with other writes
+export async function enqueueJob<T extends JobType>(
+  type: T,
+  payload: JobPayloads[T],
+  options: { runAt?: Date; maxAttempts?: number } = {},
+  tx: Prisma.TransactionClient = db
+) {
+  return tx.job.create({
+    data: {
+      type,
+      payload: payload as Prisma.InputJsonValue,
+      runAt: options.runAt,
+      maxAttempts: options.maxAttempts,
+    },
+  });
+}
+
+// Exponential backoff: 30s, 1m, 2m, 4m ... capped at 1h
+export function retryDelayMs(attempts: number) {
+  return Math.min(30_000 * 2 ** Math.max(0, attempts - 1), 60 * 60 * 1000);
+}
+
+// Jobs locked longer than this are assumed to belong to a crashed worker
+const STALE_LOCK_MS = 15 * 60 * 1000;
+
+// Returns stale jobs to the queue, or dead-letters them once they have used their attempts,
+// so a job that crashes or hangs its worker every time is not reclaimed forever
+async function releaseStaleJobs() {
+  const lockedBefore = new Date(Date.now() - STALE_LOCK_MS);
+  const error = `Worker stopped responding (locked for over ${STALE_LOCK_MS / 60_000} minutes)`;
+
+  await db.$executeRaw`
+    UPDATE "Job"
+    SET "status" = CASE WHEN "attempts" >= "maxAttempts" THEN 'DEAD'::"JobStatus" ELSE 'PENDING'::"JobStatus" END,
+        "lastError" = ${error}, "lockedAt" = NULL, "lockedBy" = NULL, "updatedAt" = NOW()
+    WHERE "status" = 'RUNNING' AND "lockedAt" < ${lockedBefore}
+  `;
+}
+
+// Claims due jobs; SKIP LOCKED lets several workers poll the same table safely
+async function claimJobs(workerId: string, limit: number) {
+  return db.$queryRaw<Job[]>`
+    UPDATE "Job"
+    SET "status" = 'RUNNING', "lockedAt" = NOW(), "lockedBy" = ${workerId},
+        "attempts" = "attempts" + 1, "updatedAt" = NOW()
+    WHERE "id" IN (
+      SELECT "id" FROM "Job"
+      WHERE "status" = 'PENDING' AND "runAt" <= NOW()
+      ORDER BY "runAt" ASC
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `;
+}
+
+async function runJob(job: Job) {
+  const handler = handlers[job.type as JobType] as JobHandler<JobType> | undefined;
+
+  try {
+    if (!handler) {
+      throw new Error(`No handler registered for job type "${job.type}"`);
+    }
+
+    await handler(job.payload as JobPayloads[JobType], job);
+
+    await db.job.update({
+      where: { id: job.id },
+      data: { status: "COMPLETED", completedAt: new Date(), lockedAt: null, lockedBy: null, lastError: null },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const exhausted = job.attempts >= job.maxAttempts;
+
+    console.error(`Job ${job.id} (${job.type}) failed on attempt ${job.attempts}:`, error);
+
+    await db.job.update({
+      where: { id: job.id },
+      data: {
+        status: exhausted ? "DEAD" : "PENDING",
+        runAt: exhausted ? undefined : new Date(Date.now() + retryDelayMs(job.attempts)),
+        lockedAt: null,
+        lockedBy: null,
+        lastError: message,
+      },
+    });
+  }
+}
+
+export async function processJobs(workerId: string, limit = 10) {
+  await releaseStaleJobs();
+
+  const jobs = await claimJobs(workerId, limit);
+
+  for (const job of jobs) {
+    await runJob(job);
+  }
+
+  return jobs.length;
+}
+
+// Polls for jobs until the returned stop function is called
+export function startJobWorker(options: { pollIntervalMs?: number; batchSize?: number } = {}) {
+  const pollIntervalMs = options.pollIntervalMs ?? 5000;
+  const batchSize = options.batchSize ?? 10;
+  const workerId = `${hostname()}-${process.pid}`;
+
+  let stopped = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  const tick = async () => {
+    let processed = 0;
+
+    try {
+      processed = await processJobs(workerId, batchSize);
+    } catch (error) {
+      console.error("Job worker error:", error);
+    }
+
+    // Keep draining immediately while there is a backlog
+    if (!stopped) {
+      timer = setTimeout(tick, processed === batchSize ? 0 : pollIntervalMs);
+    }
+  };
+
+  timer = setTimeout(tick, 0);
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
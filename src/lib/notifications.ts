@@ -0,0 +1,299 @@
+import type { Prisma } from "@prisma/client";
+import { db } from "./db";
+
+// In-app notification for a user
+export async function createNotification(data: {
+  userId: string;
+  title: string;
+  message: string;
+  type: string;
+  actionUrl?: string;
+  metadata?: Record<string, unknown>;
+}) {
+  return db.notification.create({
+    data: {
+      userId: data.userId,
+      title: data.title,
+      message: data.message,
+      type: data.type,
+      actionUrl: data.actionUrl,
+      metadata: data.metadata as Prisma.InputJsonValue | undefined,
+    },
+  });
+}
+
+// Attachment content is base64 encoded
+export type EmailAttachment = {
+  filename: string;
+  content: string;
+  contentType?: string;
+};
+
+// Send email notification using Resend (if configured)
+export async function sendEmailNotification(
+  email: string,
+  subject: string,
+  htmlContent: string,
+  attachments?: EmailAttachment[]
+) {
+  const RESEND_API_KEY = process.env.RESEND_API_KEY;
+  
+  if (!RESEND_API_KEY) {
+    console.log("Resend API key not configured, skipping email notification");
+    return null;
+  }
+
+  try {
+    const response = await fetch("https://api.resend.com/emails", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${RESEND_API_KEY}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        from: process.env.EMAIL_FROM || "Workstream <noreply@workstream.com>",
+        to: email,
+        subject,
+        html: htmlContent,
+        attachments: attachments?.map(({ contentType, ...attachment }) => ({
+          ...attachment,
+          content_type: contentType,
+        })),
+      }),
+    });
+
+    if (!response.ok) {
+      console.error("Failed to send email:", await response.text());
+      return null;
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error("Error sending email:", error);
+    return null;
+  }
+}
+
+// Notification templates
+export const notificationTemplates = {
+  applicationSubmitted: (programTitle: string) => ({
+    title: "Application Submitted",
+    message: `Your application for "${programTitle}" has been submitted successfully.`,
+    type: "application",
+  }),
+  
+  applicationStatusChange: (programTitle: string, newStatus: string) => ({
+    title: "Application Status Update",
+    message: `Your application for "${programTitle}" has been updated to: ${newStatus}`,
+    type: "application",
+  }),
+  
+  interviewScheduled: (programTitle: string, date: string) => ({
+    title: "Interview Scheduled",
+    message: `An interview has been scheduled for your application to "${programTitle}" on ${date}.`,
+    type: "application",
+  }),
+  
+  interviewRescheduled: (programTitle: string, date: string) => ({
+    title: "Interview Rescheduled",
+    message: `Your interview for "${programTitle}" has been moved to ${date}.`,
+    type: "application",
+  }),
+  
+  interviewCancelled: (programTitle: string) => ({
+    title: "Interview Cancelled",
+    message: `Your interview for "${programTitle}" has been cancelled.`,
+    type: "application",
+  }),
+  
+  interviewReminder: (programTitle: string, date: string) => ({
+    title: "Interview Reminder",
+    message: `Reminder: your interview for "${programTitle}" is on ${date}.`,
+    type: "application",
+  }),
+  
+  applicationAccepted: (programTitle: string) => ({
+    title: "Congratulations! Application Accepted",
+    message: `Great news! Your application for "${programTitle}" has been accepted.`,
+    type: "application",
+  }),
+  
+  applicationRejected: (programTitle: string) => ({
+    title: "Application Update",
+    message: `We regret to inform you that your application for "${programTitle}" was not successful.`,
+    type: "application",
+  }),
+  
+  paymentReceived: (amount: number, programTitle: string) => ({
+    title: "Payment Received",
+    message: `Your payment of GHS ${amount.toFixed(2)} for "${programTitle}" has been received.`,
+    type: "payment",
+  }),
+  
+  refundProcessed: (amount: string) => ({
+    title: "Refund Processed",
+    message: `Your refund of ${amount} has been processed and should reach you within a few days.`,
+    type: "payment",
+  }),
+  
+  refundFailed: (amount: string) => ({
+    title: "Refund Delayed",
+    message: `We could not complete your refund of ${amount}. Our team will follow up with you.`,
+    type: "payment",
+  }),
+  
+  feeWaiverApproved: (programTitle: string, fullWaiver: boolean) => ({
+    title: "Fee Waiver Approved",
+    message: fullWaiver
+      ? `Your application fee for "${programTitle}" has been waived. You can now submit your application.`
+      : `Part of your application fee for "${programTitle}" has been waived. The balance is due at checkout.`,
+    type: "payment",
+  }),
+  
+  feeWaiverRejected: (programTitle: string) => ({
+    title: "Fee Waiver Not Approved",
+    message: `Your fee waiver request for "${programTitle}" was not approved.`,
+    type: "payment",
+  }),
+  
+  stipendPaid: (amount: string, period: string) => ({
+    title: "Stipend Paid",
+    message: `Your ${period} stipend of ${amount} has been paid out.`,
+    type: "payment",
+  }),
+  
+  documentVerified: (documentName: string) => ({
+    title: "Document Verified",
+    message: `Your document "${documentName}" has been verified successfully.`,
+    type: "document",
+  }),
+  
+  newMessage: (senderName: string) => ({
+    title: "New Message",
+    message: `You have a new message from ${senderName}.`,
+    type: "message",
+  }),
+};
+
+// Text from users (names, titles, reasons) is escaped before it goes into an email
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Email templates
+export const emailTemplates = {
+  applicationSubmitted: (userName: string, programTitle: string) => `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h1 style="color: #f59e0b;">Application Submitted</h1>
+      <p>Dear ${escapeHtml(userName)},</p>
+      <p>Your application for <strong>${escapeHtml(programTitle)}</strong> has been submitted successfully.</p>
+      <p>We will review your application and get back to you soon.</p>
+      <p>Best regards,<br>The Workstream Team</p>
+    </div>
+  `,
+  
+  applicationAccepted: (userName: string, programTitle: string) => `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h1 style="color: #10b981;">Congratulations!</h1>
+      <p>Dear ${escapeHtml(userName)},</p>
+      <p>We are delighted to inform you that your application for <strong>${escapeHtml(programTitle)}</strong> has been <strong>accepted</strong>!</p>
+      <p>Please log in to your Workstream account for next steps.</p>
+      <p>Best regards,<br>The Workstream Team</p>
+    </div>
+  `,
+  
+  refundProcessed: (userName: string, amount: string) => `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h1 style="color: #10b981;">Refund Processed</h1>
+      <p>Dear ${escapeHtml(userName)},</p>
+      <p>Your refund of <strong>${amount}</strong> has been processed. Depending on your bank or mobile money provider, it may take a few days to reflect.</p>
+      <p>Best regards,<br>The Workstream Team</p>
+    </div>
+  `,
+  
+  paymentReceipt: (userName: string, receiptNumber: string, amount: string) => `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h1 style="color: #10b981;">Payment Receipt</h1>
+      <p>Dear ${escapeHtml(userName)},</p>
+      <p>Thank you for your payment of <strong>${amount}</strong>. Your receipt <strong>${receiptNumber}</strong> is attached.</p>
+      <p>You can download it again at any time from the payments page of your Workstream account.</p>
+      <p>Best regards,<br>The Workstream Team</p>
+    </div>
+  `,
+  
+  creditNote: (userName: string, creditNoteNumber: string, amount: string) => `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h1 style="color: #10b981;">Credit Note</h1>
+      <p>Dear ${escapeHtml(userName)},</p>
+      <p>A credit note <strong>${creditNoteNumber}</strong> for your refund of <strong>${amount}</strong> is attached for your records.</p>
+      <p>Best regards,<br>The Workstream Team</p>
+    </div>
+  `,
+  
+  refundFailed: (userName: string, amount: string) => `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h1 style="color: #ef4444;">Refund Delayed</h1>
+      <p>Dear ${escapeHtml(userName)},</p>
+      <p>We were unable to complete your refund of <strong>${amount}</strong>. Our team has been notified and will follow up with you.</p>
+      <p>Best regards,<br>The Workstream Team</p>
+    </div>
+  `,
+  
+  interviewScheduled: (userName: string, programTitle: string, date: string, time: string) => `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h1 style="color: #3b82f6;">Interview Scheduled</h1>
+      <p>Dear ${escapeHtml(userName)},</p>
+      <p>An interview has been scheduled for your application to <strong>${escapeHtml(programTitle)}</strong>.</p>
+      <p><strong>Date:</strong> ${date}<br><strong>Time:</strong> ${time}</p>
+      <p>Please log in to your Workstream account for more details.</p>
+      <p>Best regards,<br>The Workstream Team</p>
+    </div>
+  `,
+  
+  interviewRescheduled: (userName: string, programTitle: string, date: string, time: string, reason?: string) => `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h1 style="color: #3b82f6;">Interview Rescheduled</h1>
+      <p>Dear ${escapeHtml(userName)},</p>
+      <p>Your interview for <strong>${escapeHtml(programTitle)}</strong> has been rescheduled.</p>
+      <p><strong>New date:</strong> ${date}<br><strong>New time:</strong> ${time}</p>
+      ${reason ? `<p><strong>Reason:</strong> ${escapeHtml(reason)}</p>` : ""}
+      <p>The attached invite updates the event in your calendar.</p>
+      <p>Best regards,<br>The Workstream Team</p>
+    </div>
+  `,
+  
+  interviewCancelled: (userName: string, programTitle: string, reason?: string) => `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h1 style="color: #ef4444;">Interview Cancelled</h1>
+      <p>Dear ${escapeHtml(userName)},</p>
+      <p>Your interview for <strong>${escapeHtml(programTitle)}</strong> has been cancelled.</p>
+      ${reason ? `<p><strong>Reason:</strong> ${escapeHtml(reason)}</p>` : ""}
+      <p>Please log in to your Workstream account for next steps.</p>
+      <p>Best regards,<br>The Workstream Team</p>
+    </div>
+  `,
+  
+  interviewReminder: (userName: string, programTitle: string, date: string, time: string) => `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h1 style="color: #3b82f6;">Interview Reminder</h1>
+      <p>Dear ${escapeHtml(userName)},</p>
+      <p>This is a reminder of your upcoming interview for <strong>${escapeHtml(programTitle)}</strong>.</p>
+      <p><strong>Date:</strong> ${date}<br><strong>Time:</strong> ${time}</p>
+      <p>Best regards,<br>The Workstream Team</p>
+    </div>
+  `,
+  
+  teamInvitation: (teamName: string, inviterName: string, link: string, expiresOn: string) => `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h1 style="color: #3b82f6;">You're Invited</h1>
+      <p>${escapeHtml(inviterName)} has invited you to join the <strong>${escapeHtml(teamName)}</strong> team on Workstream.</p>
+      <p><a href="${escapeHtml(link)}">Accept the invitation</a> by ${expiresOn}. Sign in with this email address to accept.</p>
+      <p>Best regards,<br>The Workstream Team</p>
+    </div>
+  `,
+};
@@ -0,0 +1,140 @@
+import type { Prisma } from "@prisma/client";
+import { transitionApplication, type TransitionActor } from "./application-status";
+import { cohortSeatsTaken } from "./cohorts";
+import { serializable } from "./db";
+import { APIError } from "../middleware/error-handler";
+
+async function loadOpenOffer(tx: Prisma.TransactionClient, applicationId: string) {
+  const application = await tx.application.findUnique({ where: { id: applicationId } });
+
+  if (!application) {
+    throw new APIError(404, "Application not found", "NOT_FOUND");
+  }
+
+  if (application.status !== "ACCEPTED") {
+    throw new APIError(409, "There is no open offer on this application", "NO_OPEN_OFFER");
+  }
+
+  // Offers made before expiry tracking existed have no deadline
+  if (application.offerExpiresAt && application.offerExpiresAt <= new Date()) {
+    throw new APIError(409, "This offer has expired", "OFFER_EXPIRED");
+  }
+
+  return application;
+}
+
+// Picks the cohort to enrol into: the requested one, the one already assigned,
+// or the earliest cohort of the program that still has a free seat. Programs that do
+// not run cohorts enrol without one.
+async function enrolmentCohort(
+  tx: Prisma.TransactionClient,
+  application: { programId: string; cohortId: string | null },
+  requestedCohortId?: string
+) {
+  const cohortId = requestedCohortId ?? application.cohortId;
+
+  if (cohortId) {
+    const cohort = await tx.cohort.findFirst({
+      where: { id: cohortId, programId: application.programId },
+    });
+
+    if (!cohort || cohort.status === "COMPLETED") {
+      throw new APIError(400, "Cohort is not open for enrolment", "INVALID_COHORT");
+    }
+
+    // The application already counts towards the cohort it is assigned to
+    const taken = await cohortSeatsTaken(tx, cohort.id);
+    if (cohort.id !== application.cohortId && taken >= cohort.maxCapacity) {
+      throw new APIError(409, `Cohort ${cohort.name} is full`, "COHORT_FULL");
+    }
+
+    return cohort.id;
+  }
+
+  if (!(await tx.cohort.count({ where: { programId: application.programId } }))) {
+    return undefined;
+  }
+
+  const cohorts = await tx.cohort.findMany({
+    where: { programId: application.programId, status: { not: "COMPLETED" } },
+    orderBy: { startDate: "asc" },
+  });
+
+  for (const cohort of cohorts) {
+    if (await cohortSeatsTaken(tx, cohort.id) < cohort.maxCapacity) {
+      return cohort.id;
+    }
+  }
+
+  throw new APIError(409, "No cohort has a free seat for this program yet", "NO_COHORT_AVAILABLE");
+}
+
+// Student accepts their offer and is enrolled in a cohort
+export async function acceptOffer(applicationId: string, actor: TransitionActor, cohortId?: string) {
+  return serializable(async (tx) => {
+    const application = await loadOpenOffer(tx, applicationId);
+
+    return transitionApplication(
+      {
+        applicationId,
+        to: "ENROLLED",
+        actor,
+        reason: "Offer accepted",
+        data: {
+          cohortId: await enrolmentCohort(tx, application, cohortId),
+          offerRespondedAt: new Date(),
+        },
+      },
+      tx
+    );
+  });
+}
+
+// Student turns the offer down, freeing the seat for the waitlist
+export async function declineOffer(applicationId: string, actor: TransitionActor, reason?: string) {
+  return serializable(async (tx) => {
+    await loadOpenOffer(tx, applicationId);
+
+    return transitionApplication(
+      {
+        applicationId,
+        to: "WITHDRAWN",
+        actor,
+        reason: reason ?? "Offer declined",
+        data: {
+          offerRespondedAt: new Date(),
+          withdrawalReason: reason ?? "Offer declined",
+        },
+      },
+      tx
+    );
+  });
+}
+
+// Lapses an offer that was not answered in time; no-op if it was answered or extended
+export async function expireOffer(applicationId: string) {
+  return serializable(async (tx) => {
+    const application = await tx.application.findUnique({ where: { id: applicationId } });
+
+    if (
+      !application ||
+      application.status !== "ACCEPTED" ||
+      application.offerRespondedAt ||
+      !application.offerExpiresAt ||
+      application.offerExpiresAt > new Date()
+    ) {
+      return null;
+    }
+
+    return transitionApplication(
+      {
+        applicationId,
+        to: "WITHDRAWN",
+        actor: { role: "SYSTEM" },
+        reason: "Offer lapsed",
+        data: { withdrawalReason: "Offer not accepted before the deadline" },
+      },
+      tx
+    );
+  });
+}
@@ -0,0 +1,129 @@
+import assert from "node:assert/strict";
+import { createHmac } from "node:crypto";
+import { describe, test } from "node:test";
+import { APIError } from "../middleware/error-handler";
+
+// Providers are registered on import
+process.env.PAYMENT_FAKE_PROVIDER = "true";
+delete process.env.PAYSTACK_SECRET_KEY;
+
+const { getFakePaymentProvider, getPaymentProvider, isPaymentProvider } = await import("./payment-providers");
+const { chargeOutcome, settlementConflict } = await import("./settlement");
+
+const fake = getFakePaymentProvider();
+
+function checkout(paymentId: string, amount = 150) {
+  return fake.initialize({
+    paymentId,
+    amount,
+    currency: "GHS",
+    email: "student@example.com",
+    callbackUrl: "http://localhost:3001/payments/callback",
+    metadata: {},
+  });
+}
+
+function chargeWebhook(id: string, charge: unknown) {
+  return JSON.stringify({ id, type: "charge.success", data: { kind: "charge", charge } });
+}
+
+describe("payment provider registry", () => {
+  test("knows only its own providers", () => {
+    assert.equal(isPaymentProvider("paystack"), true);
+    assert.equal(isPaymentProvider("fake"), true);
+    assert.equal(isPaymentProvider("toString"), false);
+    assert.equal(isPaymentProvider("__proto__"), false);
+    assert.throws(() => getPaymentProvider("constructor"), (error) => error instanceof APIError && error.statusCode === 400);
+  });
+
+  test("hands out the registered fake provider", () => {
+    assert.equal(getPaymentProvider("fake"), fake);
+  });
+
+  test("refuses Paystack webhooks when no secret key is configured", () => {
+    const body = JSON.stringify({ event: "charge.success", data: { reference: "pay_forged", status: "success" } });
+    const forged = createHmac("sha512", "").update(body).digest("hex");
+
+    assert.throws(
+      () => getPaymentProvider("paystack").parseWebhook(body, { "x-paystack-signature": forged }),
+      (error) => error instanceof APIError && error.statusCode === 401 && error.code === "INVALID_SIGNATURE",
+    );
+  });
+});
+
+describe("fake provider checkout", () => {
+  const payment = { amount: 150, currency: "GHS", paymentProvider: "fake" };
+
+  test("initialize, webhook, settle", async () => {
+    const checkoutSession = await checkout("pay_fake_ok");
+    assert.match(checkoutSession.authorizationUrl, /reference=pay_fake_ok/);
+    assert.equal((await fake.verify("pay_fake_ok")).status, "pending");
+
+    const charge = fake.completeCharge("pay_fake_ok");
+    const event = fake.parseWebhook(chargeWebhook("evt_ok", charge));
+
+    assert.equal(event.eventId, "evt_ok");
+    assert.equal(event.data.kind, "charge");
+    if (event.data.kind !== "charge") return;
+
+    const outcome = chargeOutcome(event.data.charge);
+    assert.deepEqual(outcome, {
+      provider: "fake",
+      paymentId: "pay_fake_ok",
+      succeeded: true,
+      reference: "pay_fake_ok",
+      channel: "card",
+      amountMinor: 15000,
+      currency: "GHS",
+    });
+    assert.equal(settlementConflict(payment, outcome), null);
+  });
+
+  test("reports an abandoned checkout as failed", async () => {
+    await checkout("pay_fake_failed");
+    fake.completeCharge("pay_fake_failed", "failed");
+
+    const outcome = chargeOutcome(await fake.verify("pay_fake_failed"));
+    assert.equal(outcome.succeeded, false);
+    assert.equal(settlementConflict(payment, outcome), null);
+  });
+
+  test("never settles another provider's payment", async () => {
+    await checkout("pay_fake_cross");
+    const charge = fake.completeCharge("pay_fake_cross");
+
+    // The body claims to be a Paystack charge; the fake provider attributes it to itself
+    const event = fake.parseWebhook(chargeWebhook("evt_cross", { ...charge, provider: "paystack" }));
+    assert.equal(event.data.kind, "charge");
+    if (event.data.kind !== "charge") return;
+
+    const outcome = chargeOutcome(event.data.charge);
+    assert.equal(outcome.provider, "fake");
+    assert.match(settlementConflict({ ...payment, paymentProvider: "paystack" }, outcome) ?? "", /payment is on paystack/);
+    assert.match(settlementConflict({ ...payment, paymentProvider: null }, outcome) ?? "", /payment is on paystack/);
+  });
+
+  test("never settles a short or foreign-currency charge", async () => {
+    await checkout("pay_fake_short", 100);
+    const charge = fake.completeCharge("pay_fake_short");
+
+    assert.match(settlementConflict(payment, chargeOutcome(charge)) ?? "", /expected 15000/);
+    assert.match(settlementConflict({ ...payment, amount: 100, currency: "NGN" }, chargeOutcome(charge)) ?? "", /currency GHS/);
+  });
+
+  test("rejects a webhook body that is not JSON", () => {
+    assert.throws(
+      () => fake.parseWebhook("{not json"),
+      (error) => error instanceof APIError && error.statusCode === 400 && error.code === "INVALID_PAYLOAD",
+    );
+  });
+
+  test("issues refunds immediately", async () => {
+    await checkout("pay_fake_refund");
+    fake.completeCharge("pay_fake_refund");
+
+    const refund = await fake.refund({ reference: "pay_fake_refund", amount: 50, currency: "GHS", reason: "Test" });
+    assert.equal(refund.status, "processed");
+    assert.equal(fake.refunds.get(refund.id)?.amount, 50);
+  });
+});
@@ -0,0 +1,588 @@
+import { createHmac, randomUUID } from "crypto";
+import { z } from "zod";
+import {
+  paystackRequest,
+  toMinorUnits,
+  type PaystackInitData,
+  type PaystackRefund,
+  type PaystackTransaction,
+} from "./paystack";
+import { signaturesMatch } from "./signatures";
+import { APIError } from "../middleware/error-handler";
+
+export type PaymentChannel = "card" | "mobile_money";
+
+export type InitializePaymentInput = {
+  paymentId: string;
+  amount: number;
+  currency: string;
+  email: string;
+  phone?: string | null;
+  name?: string | null;
+  channel?: PaymentChannel;
+  callbackUrl: string;
+  metadata: Record<string, unknown>;
+};
+
+export type InitializedPayment = {
+  reference: string;
+  authorizationUrl: string;
+  accessCode?: string;
+};
+
+// Charge state normalised across providers
+export type VerifiedCharge = {
+  provider: string;
+  paymentId: string;
+  reference: string;
+  status: "success" | "failed" | "pending";
+  channel?: string | null;
+  amountMinor: number;
+  currency?: string;
+};
+
+export type ProviderRefund = {
+  id: string;
+  status: "pending" | "processed" | "failed";
+};
+
+export type PaymentEventData =
+  | { kind: "charge"; charge: VerifiedCharge }
+  | {
+      kind: "refund";
+      status: "processed" | "failed";
+      refundRefs: string[];
+      transactionReference?: string;
+      amountMinor?: number;
+      reason?: string;
+    }
+  | { kind: "dispute"; paymentId: string; status: "OPEN" | "RESOLVED"; resolution?: string | null }
+  | { kind: "ignored" };
+
+export type ParsedWebhook = {
+  eventId: string;
+  type: string;
+  payload: unknown;
+  data: PaymentEventData;
+};
+
+// Thrown by refund() when the provider declines the refund. Anything else it throws (a
+// timeout, a 5xx, an unreadable response) means the refund may or may not have been issued.
+export class RefundRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RefundRejectedError";
+  }
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  initialize(input: InitializePaymentInput): Promise<InitializedPayment>;
+  verify(reference: string): Promise<VerifiedCharge>;
+  // Throws RefundRejectedError when the provider declines
+  refund(input: { reference: string; amount: number; currency: string; reason: string }): Promise<ProviderRefund>;
+  // Throws a 401 APIError when the signature does not check out
+  parseWebhook(body: string, headers: Record<string, string | undefined>): ParsedWebhook;
+}
+
+function refundStatus(status: string, processed: string): ProviderRefund["status"] {
+  if (status === processed) return "processed";
+  return status === "failed" ? "failed" : "pending";
+}
+
+function invalidSignature(): never {
+  throw new APIError(401, "Invalid signature", "INVALID_SIGNATURE");
+}
+
+function invalidPayload(): never {
+  throw new APIError(400, "Webhook body is not a recognised event", "INVALID_PAYLOAD");
+}
+
+// Parses a webhook body (or part of one) against the shape the code below relies on
+function parsePayload<T extends z.ZodTypeAny>(schema: T, body: string): z.infer<T> {
+  let json: unknown;
+  try {
+    json = JSON.parse(body);
+  } catch {
+    invalidPayload();
+  }
+
+  return readPayload(schema, json);
+}
+
+function readPayload<T extends z.ZodTypeAny>(schema: T, value: unknown): z.infer<T> {
+  const result = schema.safeParse(value);
+  if (!result.success) invalidPayload();
+  return result.data;
+}
+
+const webhookEventSchema = z.object({
+  event: z.string(),
+  data: z.record(z.unknown()),
+});
+
+const providerIdSchema = z.union([z.string(), z.number()]);
+
+// ============================================
+// PAYSTACK
+// ============================================
+
+// The fields of a Paystack transaction that charges are read from
+const paystackChargeSchema = z.object({
+  status: z.string(),
+  channel: z.string().nullish(),
+  amount: z.number(),
+  currency: z.string(),
+  metadata: z.object({ paymentId: z.string().optional() }).nullish(),
+  reference: z.string(),
+});
+
+const paystackRefundEventSchema = z.object({
+  id: providerIdSchema.nullish(),
+  refund_reference: providerIdSchema.nullish(),
+  transaction_reference: z.string().optional(),
+  amount: z.number().optional(),
+  reason: z.string().nullish(),
+});
+
+const paystackDisputeEventSchema = z.object({
+  transaction: z.object({
+    reference: z.string().optional(),
+    metadata: z.object({ paymentId: z.string().optional() }).nullish(),
+  }).nullish(),
+  resolution: z.string().nullish(),
+});
+
+class PaystackProvider implements PaymentProvider {
+  readonly name = "paystack";
+
+  constructor(private secretKey: string) {}
+
+  async initialize(input: InitializePaymentInput) {
+    const response = await paystackRequest<PaystackInitData>("/transaction/initialize", {
+      method: "POST",
+      body: {
+        email: input.email,
+        amount: toMinorUnits(input.amount),
+        currency: input.currency,
+        reference: input.paymentId,
+        callback_url: input.callbackUrl,
+        channels: input.channel === "mobile_money" ? ["mobile_money"] : undefined,
+        metadata: { paymentId: input.paymentId, ...input.metadata },
+      },
+    });
+
+    if (!response.status) {
+      throw new APIError(502, response.message || "Failed to initialize payment", "PROVIDER_ERROR");
+    }
+
+    return {
+      reference: response.data.reference,
+      authorizationUrl: response.data.authorization_url,
+      accessCode: response.data.access_code,
+    };
+  }
+
+  async verify(reference: string) {
+    const response = await paystackRequest<PaystackTransaction>(`/transaction/verify/${encodeURIComponent(reference)}`);
+
+    if (!response.status) {
+      throw new APIError(400, "Payment verification failed", "VERIFICATION_FAILED");
+    }
+
+    return this.charge(response.data);
+  }
+
+  async refund(input: { reference: string; amount: number; currency: string; reason: string }) {
+    const response = await paystackRequest<PaystackRefund>("/refund", {
+      method: "POST",
+      body: {
+        transaction: input.reference,
+        amount: toMinorUnits(input.amount),
+        currency: input.currency,
+        merchant_note: input.reason,
+      },
+    });
+
+    if (!response.status) {
+      throw new RefundRejectedError(response.message || "Refund rejected by provider");
+    }
+
+    return { id: String(response.data.id), status: refundStatus(response.data.status, "processed") };
+  }
+
+  parseWebhook(body: string, headers: Record<string, string | undefined>): ParsedWebhook {
+    // Anyone can compute an HMAC with an empty key, so without a secret nothing is trusted
+    if (!this.secretKey) {
+      invalidSignature();
+    }
+
+    const hash = createHmac("sha512", this.secretKey).update(body).digest("hex");
+
+    if (!signaturesMatch(hash, headers["x-paystack-signature"])) {
+      invalidSignature();
+    }
+
+    const event = parsePayload(webhookEventSchema, body);
+    const { data } = event;
+
+    // Paystack sends no event id, so one is derived from the type and the object it is about
+    const subject = data.id ?? data.refund_reference ?? data.reference ?? data.transaction_reference;
+    const parsed = { eventId: `${event.event}:${subject}:${data.status ?? ""}`, type: event.event, payload: event };
+
+    switch (event.event) {
+      case "charge.success":
+      case "charge.failed":
+        return {
+          ...parsed,
+          data: {
+            kind: "charge",
+            charge: {
+              ...this.charge(readPayload(paystackChargeSchema, data)),
+              status: event.event === "charge.success" ? "success" : "failed",
+            },
+          },
+        };
+
+      case "refund.processed":
+      case "refund.failed": {
+        const refund = readPayload(paystackRefundEventSchema, data);
+
+        return {
+          ...parsed,
+          data: {
+            kind: "refund",
+            status: event.event === "refund.processed" ? "processed" : "failed",
+            refundRefs: [refund.id, refund.refund_reference].filter((ref) => ref !== undefined && ref !== null).map(String),
+            transactionReference: refund.transaction_reference,
+            amountMinor: refund.amount,
+            reason: refund.reason ?? undefined,
+          },
+        };
+      }
+
+      case "charge.dispute.create":
+      case "charge.dispute.resolve": {
+        const dispute = readPayload(paystackDisputeEventSchema, data);
+        const paymentId = dispute.transaction?.metadata?.paymentId || dispute.transaction?.reference;
+
+        return {
+          ...parsed,
+          data: paymentId
+            ? {
+                kind: "dispute",
+                paymentId,
+                status: event.event === "charge.dispute.create" ? "OPEN" : "RESOLVED",
+                resolution: dispute.resolution,
+              }
+            : { kind: "ignored" },
+        };
+      }
+
+      // refund.pending, charge.dispute.remind, ...
+      default:
+        return { ...parsed, data: { kind: "ignored" } };
+    }
+  }
+
+  private charge(transaction: z.infer<typeof paystackChargeSchema>): VerifiedCharge {
+    return {
+      provider: this.name,
+      paymentId: transaction.metadata?.paymentId || transaction.reference,
+      reference: transaction.reference,
+      status:
+        transaction.status === "success" ? "success"
+        : ["failed", "abandoned", "reversed"].includes(transaction.status) ? "failed"
+        : "pending",
+      channel: transaction.channel,
+      amountMinor: transaction.amount,
+      currency: transaction.currency,
+    };
+  }
+}
+
+// ============================================
+// FLUTTERWAVE (cards and Ghana mobile money: MTN MoMo, Vodafone Cash, AirtelTigo)
+// ============================================
+
+type FlutterwaveResponse<T> = {
+  status: "success" | "error";
+  message: string;
+  data: T;
+};
+
+type FlutterwaveTransaction = {
+  id: number;
+  tx_ref: string;
+  status: string; // successful, failed, pending
+  amount: number;
+  currency: string;
+  payment_type: string;
+};
+
+// The fields of a Flutterwave transaction that charges are read from
+const flutterwaveChargeSchema = z.object({
+  tx_ref: z.string(),
+  status: z.string(),
+  amount: z.number(),
+  currency: z.string(),
+  payment_type: z.string().nullish(),
+});
+
+const flutterwaveRefundEventSchema = z.object({
+  id: providerIdSchema,
+  comments: z.string().nullish(),
+});
+
+class FlutterwaveProvider implements PaymentProvider {
+  readonly name = "flutterwave";
+
+  constructor(
+    private secretKey: string,
+    private webhookHash: string,
+    private baseUrl: string
+  ) {}
+
+  private async request<T>(path: string, init: { method?: string; body?: unknown } = {}) {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: init.method ?? "GET",
+      headers: {
+        Authorization: `Bearer ${this.secretKey}`,
+        "Content-Type": "application/json",
+      },
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    });
+
+    const body = await response.json().catch(() => null) as FlutterwaveResponse<T> | null;
+
+    // Flutterwave declines with a 4xx and an error body; anything else that is not ok is an outage
+    if (!body || (!response.ok && (response.status >= 500 || body.status !== "error"))) {
+      throw new APIError(502, `Flutterwave responded with ${response.status}`, "PROVIDER_ERROR");
+    }
+
+    return body;
+  }
+
+  async initialize(input: InitializePaymentInput) {
+    const response = await this.request<{ link: string }>("/payments", {
+      method: "POST",
+      body: {
+        tx_ref: input.paymentId,
+        amount: input.amount,
+        currency: input.currency,
+        redirect_url: input.callbackUrl,
+        payment_options: input.channel === "mobile_money" ? "mobilemoneyghana" : "card,mobilemoneyghana",
+        customer: { email: input.email, phonenumber: input.phone ?? undefined, name: input.name ?? undefined },
+        meta: { paymentId: input.paymentId, ...input.metadata },
+      },
+    });
+
+    if (response.status !== "success") {
+      throw new APIError(502, response.message || "Failed to initialize payment", "PROVIDER_ERROR");
+    }
+
+    return { reference: input.paymentId, authorizationUrl: response.data.link };
+  }
+
+  async verify(reference: string) {
+    const response = await this.request<FlutterwaveTransaction>(
+      `/transactions/verify_by_reference?tx_ref=${encodeURIComponent(reference)}`
+    );
+
+    if (response.status !== "success") {
+      throw new APIError(400, "Payment verification failed", "VERIFICATION_FAILED");
+    }
+
+    return this.charge(response.data);
+  }
+
+  async refund(input: { reference: string; amount: number; currency: string; reason: string }) {
+    // Refunds are issued against Flutterwave's transaction id, not our reference
+    const transaction = await this.request<FlutterwaveTransaction>(
+      `/transactions/verify_by_reference?tx_ref=${encodeURIComponent(input.reference)}`
+    );
+
+    if (transaction.status !== "success") {
+      throw new RefundRejectedError(transaction.message || "Transaction not found at provider");
+    }
+
+    const response = await this.request<{ id: number; status: string }>(`/transactions/${transaction.data.id}/refund`, {
+      method: "POST",
+      body: { amount: input.amount, comments: input.reason },
+    });
+
+    if (response.status !== "success") {
+      throw new RefundRejectedError(response.message || "Refund rejected by provider");
+    }
+
+    return { id: String(response.data.id), status: refundStatus(response.data.status, "completed") };
+  }
+
+  parseWebhook(body: string, headers: Record<string, string | undefined>): ParsedWebhook {
+    // Flutterwave echoes the secret hash configured on the dashboard
+    if (!this.webhookHash || !signaturesMatch(this.webhookHash, headers["verif-hash"])) {
+      invalidSignature();
+    }
+
+    const event = parsePayload(webhookEventSchema, body);
+    const { data } = event;
+    const parsed = { eventId: `${event.event}:${data.id}:${data.status ?? ""}`, type: event.event, payload: event };
+
+    if (event.event === "charge.completed") {
+      return { ...parsed, data: { kind: "charge", charge: this.charge(readPayload(flutterwaveChargeSchema, data)) } };
+    }
+
+    if (event.event === "refund.completed" || event.event === "refund.failed") {
+      const refund = readPayload(flutterwaveRefundEventSchema, data);
+
+      return {
+        ...parsed,
+        data: {
+          kind: "refund",
+          status: event.event === "refund.completed" ? "processed" : "failed",
+          refundRefs: [String(refund.id)],
+          reason: refund.comments ?? undefined,
+        },
+      };
+    }
+
+    return { ...parsed, data: { kind: "ignored" } };
+  }
+
+  private charge(transaction: z.infer<typeof flutterwaveChargeSchema>): VerifiedCharge {
+    return {
+      provider: this.name,
+      paymentId: transaction.tx_ref,
+      reference: transaction.tx_ref,
+      status:
+        transaction.status === "successful" ? "success"
+        : transaction.status === "failed" ? "failed"
+        : "pending",
+      channel: transaction.payment_type?.startsWith("mobilemoney") ? "mobile_money" : transaction.payment_type,
+      amountMinor: toMinorUnits(transaction.amount),
+      currency: transaction.currency,
+    };
+  }
+}
+
+// ============================================
+// FAKE (in-memory, for development and tests)
+// ============================================
+
+const fakeEventSchema = z.object({
+  id: z.string(),
+  type: z.string(),
+  data: z.custom<PaymentEventData>((value) => typeof value === "object" && value !== null && "kind" in value),
+});
+
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = "fake";
+
+  readonly charges = new Map<string, VerifiedCharge>();
+  readonly refunds = new Map<string, ProviderRefund & { reference: string; amount: number }>();
+
+  async initialize(input: InitializePaymentInput) {
+    this.charges.set(input.paymentId, {
+      provider: this.name,
+      paymentId: input.paymentId,
+      reference: input.paymentId,
+      status: "pending",
+      channel: input.channel ?? "card",
+      amountMinor: toMinorUnits(input.amount),
+      currency: input.currency,
+    });
+
+    return {
+      reference: input.paymentId,
+      authorizationUrl: `${input.callbackUrl}?reference=${encodeURIComponent(input.paymentId)}&provider=fake`,
+    };
+  }
+
+  // Simulates the payer finishing (or abandoning) checkout
+  completeCharge(reference: string, status: "success" | "failed" = "success") {
+    const charge = this.charges.get(reference);
+    if (!charge) throw new Error(`Unknown fake charge ${reference}`);
+    charge.status = status;
+    return charge;
+  }
+
+  async verify(reference: string) {
+    const charge = this.charges.get(reference);
+
+    if (!charge) {
+      throw new APIError(400, "Payment verification failed", "VERIFICATION_FAILED");
+    }
+
+    return { ...charge };
+  }
+
+  async refund(input: { reference: string; amount: number; currency: string; reason: string }) {
+    const refund = { id: randomUUID(), status: "processed" as const, reference: input.reference, amount: input.amount };
+    this.refunds.set(refund.id, refund);
+    return { id: refund.id, status: refund.status };
+  }
+
+  // Accepts already-normalised events: { id, type, data }
+  parseWebhook(body: string): ParsedWebhook {
+    const event = parsePayload(fakeEventSchema, body);
+
+    // Charges reported here are always this provider's, whatever the body claims
+    const data = event.data.kind === "charge"
+      ? { ...event.data, charge: { ...event.data.charge, provider: this.name } }
+      : event.data;
+
+    return { eventId: event.id, type: event.type, payload: event, data };
+  }
+}
+
+// ============================================
+// REGISTRY
+// ============================================
+
+function createProviders() {
+  const providers: Record<string, PaymentProvider> = {
+    paystack: new PaystackProvider(process.env.PAYSTACK_SECRET_KEY || ""),
+    flutterwave: new FlutterwaveProvider(
+      process.env.FLUTTERWAVE_SECRET_KEY || "",
+      process.env.FLUTTERWAVE_WEBHOOK_HASH || "",
+      process.env.FLUTTERWAVE_BASE_URL || "https://api.flutterwave.com/v3"
+    ),
+  };
+
+  // The fake provider accepts unsigned webhooks, so it is only there when asked for and
+  // never in production
+  if (process.env.PAYMENT_FAKE_PROVIDER === "true" && process.env.NODE_ENV !== "production") {
+    providers.fake = new FakePaymentProvider();
+  }
+
+  return providers;
+}
+
+const providers = createProviders();
+
+export const DEFAULT_PAYMENT_PROVIDER = process.env.PAYMENT_PROVIDER || "paystack";
+
+export function getPaymentProvider(name?: string | null): PaymentProvider {
+  const key = name || DEFAULT_PAYMENT_PROVIDER;
+
+  if (!isPaymentProvider(key)) {
+    throw new APIError(400, `Unknown payment provider "${key}"`, "UNKNOWN_PROVIDER");
+  }
+
+  return providers[key];
+}
+
+export function isPaymentProvider(name: string) {
+  return Object.hasOwn(providers, name);
+}
+
+// The in-memory provider, for tests and local development that drive checkouts by hand
+export function getFakePaymentProvider() {
+  const provider = providers.fake;
+
+  if (!(provider instanceof FakePaymentProvider)) {
+    throw new Error("The fake payment provider is not enabled (set PAYMENT_FAKE_PROVIDER=true)");
+  }
+
+  return provider;
+}
@@ -0,0 +1,201 @@
+import { Prisma, type Payment } from "@prisma/client";
+import { transitionApplication } from "./application-status";
+import { db, serializable } from "./db";
+import { enqueueJob } from "./jobs";
+import { notificationTemplates } from "./notifications";
+import { issueReceipt } from "./receipts";
+import { paymentProviderOf, settlementConflict, type ChargeOutcome } from "./settlement";
+
+export type SettlementResult = {
+  payment: Payment | null;
+  changed: boolean;
+};
+
+// Applies a charge result to our payment. Shared by the verify route and webhooks, and
+// safe to call repeatedly or out of order: a COMPLETED or REFUNDED payment never moves back.
+export async function settlePayment(outcome: ChargeOutcome): Promise<SettlementResult> {
+  return serializable(async (tx) => {
+    const payment = await tx.payment.findUnique({
+      where: { id: outcome.paymentId },
+      include: { application: { select: { id: true, status: true } } },
+    });
+
+    if (!payment) {
+      return { payment: null, changed: false };
+    }
+
+    const conflict = settlementConflict(payment, outcome);
+
+    if (conflict) {
+      console.warn(`Payment ${payment.id} not settled: ${conflict}`);
+      return { payment, changed: false };
+    }
+
+    if (!outcome.succeeded) {
+      const { count } = await tx.payment.updateMany({
+        where: { id: payment.id, status: "PENDING" },
+        data: { status: "FAILED", paymentMethod: outcome.channel ?? undefined },
+      });
+
+      return { payment: await tx.payment.findUnique({ where: { id: payment.id } }), changed: count > 0 };
+    }
+
+    // A late success after a failure or expiry still completes the payment
+    const { count } = await tx.payment.updateMany({
+      where: { id: payment.id, status: { in: ["PENDING", "FAILED", "EXPIRED"] } },
+      data: {
+        status: "COMPLETED",
+        paymentMethod: outcome.channel ?? undefined,
+        paidAt: new Date(),
+      },
+    });
+
+    if (count === 0) {
+      return { payment, changed: false };
+    }
+
+    await issueReceipt(tx, payment.id);
+
+    if (payment.application?.status === "DRAFT") {
+      // Application is now ready for review
+      await transitionApplication(
+        {
+          applicationId: payment.application.id,
+          to: "SUBMITTED",
+          actor: { role: "SYSTEM" },
+          reason: `Application fee paid (${outcome.reference})`,
+        },
+        tx
+      );
+      await enqueueJob("application.score", { applicationId: payment.application.id }, {}, tx);
+    }
+
+    const settled = await tx.payment.findUniqueOrThrow({
+      where: { id: payment.id },
+      include: { student: { select: { userId: true } }, application: { select: { program: { select: { title: true } } } } },
+    });
+
+    await enqueueJob(
+      "notification.send",
+      {
+        userId: settled.student.userId,
+        ...notificationTemplates.paymentReceived(settled.amount, settled.application?.program.title ?? settled.description),
+        actionUrl: "/payments",
+        metadata: { paymentId: settled.id },
+      },
+      {},
+      tx
+    );
+
+    return { payment: settled, changed: true };
+  });
+}
+
+export type DisputeUpdate = {
+  provider: string;
+  paymentId: string;
+  status: "OPEN" | "RESOLVED";
+  resolution?: string | null;
+};
+
+export async function recordDispute(update: DisputeUpdate) {
+  const payment = await db.payment.findUnique({ where: { id: update.paymentId } });
+
+  if (!payment || paymentProviderOf(payment) !== update.provider) return null;
+
+  // A resolution that arrived first is not reopened by a late "created" event
+  if (update.status === "OPEN" && payment.disputeStatus === "RESOLVED") {
+    return payment;
+  }
+
+  const updated = await db.payment.update({
+    where: { id: payment.id },
+    data: {
+      disputeStatus: update.status,
+      disputeResolution: update.resolution ?? undefined,
+      disputedAt: payment.disputedAt ?? new Date(),
+    },
+  });
+
+  if (update.status === "OPEN" && payment.disputeStatus !== "OPEN") {
+    const admins = await db.user.findMany({
+      where: { role: "PLATFORM_ADMIN", isActive: true },
+      select: { id: true },
+    });
+
+    for (const admin of admins) {
+      await enqueueJob("notification.send", {
+        userId: admin.id,
+        title: "Payment Disputed",
+        message: `A chargeback was raised on payment ${payment.id} (${payment.currency} ${payment.amount.toFixed(2)}).`,
+        type: "payment",
+        actionUrl: `/admin/payments/${payment.id}`,
+        metadata: { paymentId: payment.id },
+      });
+    }
+  }
+
+  return updated;
+}
+
+export type EventHandlerResult = {
+  paymentId?: string | null;
+  // False when the event was valid but there was nothing to apply
+  applied: boolean;
+};
+
+// Logs a provider event and runs its handler once. Replays of an event that was
+// processed or ignored return early; a previously failed event is retried.
+export async function processPaymentEvent(
+  event: { provider: string; eventId: string; type: string; payload: unknown },
+  handler: () => Promise<EventHandlerResult>
+) {
+  const key = { provider_eventId: { provider: event.provider, eventId: event.eventId } };
+
+  let logged = await db.paymentEvent.findUnique({ where: key });
+
+  if (logged && (logged.status === "PROCESSED" || logged.status === "IGNORED")) {
+    return { duplicate: true, event: logged };
+  }
+
+  if (!logged) {
+    try {
+      logged = await db.paymentEvent.create({
+        data: {
+          provider: event.provider,
+          eventId: event.eventId,
+          type: event.type,
+          payload: event.payload as Prisma.InputJsonValue,
+        },
+      });
+    } catch (error) {
+      // Another delivery of the same event won the race
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+        return { duplicate: true, event: await db.paymentEvent.findUniqueOrThrow({ where: key }) };
+      }
+      throw error;
+    }
+  }
+
+  try {
+    const result = await handler();
+
+    const processed = await db.paymentEvent.update({
+      where: { id: logged.id },
+      data: {
+        status: result.applied ? "PROCESSED" : "IGNORED",
+        paymentId: result.paymentId ?? undefined,
+        processedAt: new Date(),
+        error: null,
+      },
+    });
+
+    return { duplicate: false, event: processed };
+  } catch (error) {
+    await db.paymentEvent.update({
+      where: { id: logged.id },
+      data: { status: "FAILED", error: error instanceof Error ? error.message : String(error) },
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,69 @@
+// Thin client for the Paystack REST API.
+// PAYSTACK_BASE_URL can point at a local stand-in when developing or testing.
+
+import { APIError } from "../middleware/error-handler";
+
+const PAYSTACK_SECRET_KEY = process.env.PAYSTACK_SECRET_KEY || "";
+const PAYSTACK_BASE_URL = process.env.PAYSTACK_BASE_URL || "https://api.paystack.co";
+
+export type PaystackResponse<T> = {
+  status: boolean;
+  message: string;
+  data: T;
+};
+
+export type PaystackInitData = {
+  authorization_url: string;
+  access_code: string;
+  reference: string;
+};
+
+export type PaystackTransaction = {
+  id: number;
+  status: string;
+  channel: string;
+  amount: number;
+  currency: string;
+  metadata: {
+    paymentId?: string;
+    applicationId?: string;
+  } | null;
+  reference: string;
+};
+
+export type PaystackRefund = {
+  id: number;
+  status: string; // pending, processing, processed, failed
+  amount: number;
+  currency: string;
+  transaction: { id: number; reference: string } | number;
+};
+
+export async function paystackRequest<T>(path: string, init: { method?: string; body?: unknown } = {}) {
+  const response = await fetch(`${PAYSTACK_BASE_URL}${path}`, {
+    method: init.method ?? "GET",
+    headers: {
+      Authorization: `Bearer ${PAYSTACK_SECRET_KEY}`,
+      "Content-Type": "application/json",
+    },
+    body: init.body === undefined ? undefined : JSON.stringify(init.body),
+  });
+
+  const body = await response.json().catch(() => null) as PaystackResponse<T> | null;
+
+  // Paystack declines with a 4xx and a JSON body; a 5xx or an unreadable body is an outage
+  if (!body || response.status >= 500) {
+    throw new APIError(502, `Paystack responded with ${response.status}`, "PROVIDER_ERROR");
+  }
+
+  return body;
+}
+
+// Paystack amounts are in the currency's minor unit (pesewas for GHS)
+export function toMinorUnits(amount: number) {
+  return Math.round(amount * 100);
+}
+
+export function fromMinorUnits(amount: number) {
+  return amount / 100;
+}
@@ -0,0 +1,204 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { applicationScope, authorize, can, programScope, type Action, type Actor, type Resource } from "./policy";
+import { APIError } from "../middleware/error-handler";
+
+const student: Actor = { userId: "student-1", role: "STUDENT", university: null, employer: null };
+
+const universityAdmin: Actor = {
+  userId: "university-admin-1",
+  role: "UNIVERSITY_ADMIN",
+  university: { universityId: "university-1", canManagePrograms: true, canReviewApplications: true, isOwner: true },
+  employer: null,
+};
+
+const employerAdmin: Actor = {
+  userId: "employer-admin-1",
+  role: "EMPLOYER_ADMIN",
+  university: null,
+  employer: {
+    employerId: "employer-1",
+    canCreatePrograms: true,
+    canReviewCandidates: true,
+    canApproveHires: true,
+    isOwner: true,
+  },
+};
+
+const platformAdmin: Actor = { userId: "platform-admin-1", role: "PLATFORM_ADMIN", university: null, employer: null };
+
+// A record belonging to the actors above, and one belonging to someone else entirely
+const own: Resource = { studentUserId: "student-1", universityId: "university-1", employerId: "employer-1" };
+const foreign: Resource = { studentUserId: "student-2", universityId: "university-2", employerId: "employer-2" };
+
+// Who may take each action with every permission flag set. Typed as a Record so a new
+// action in the policy does not compile until it is added here.
+const EXPECTED: Record<Action, { student: boolean; university: boolean; employer: boolean }> = {
+  "platform.manage": { student: false, university: false, employer: false },
+  "university.view": { student: false, university: true, employer: false },
+  "employer.view": { student: false, university: false, employer: true },
+  "team.view": { student: false, university: true, employer: true },
+  "team.manage": { student: false, university: true, employer: true },
+  "apiKey.manage": { student: false, university: true, employer: true },
+  "program.view": { student: false, university: true, employer: true },
+  "program.manage": { student: false, university: true, employer: false },
+  "application.view": { student: true, university: true, employer: true },
+  "application.update": { student: true, university: false, employer: false },
+  "application.review": { student: false, university: true, employer: false },
+  "candidate.review": { student: false, university: false, employer: true },
+  "hire.approve": { student: false, university: false, employer: true },
+  "interview.manage": { student: false, university: true, employer: true },
+  "document.view": { student: true, university: true, employer: true },
+  "payment.view": { student: true, university: true, employer: true },
+  "discountCode.manage": { student: false, university: false, employer: true },
+  "stipend.manage": { student: false, university: false, employer: true },
+};
+
+const ACTIONS = Object.keys(EXPECTED) as Action[];
+
+function withUniversityFlags(flags: Partial<NonNullable<Actor["university"]>>): Actor {
+  return { ...universityAdmin, university: { ...universityAdmin.university!, ...flags } };
+}
+
+function withEmployerFlags(flags: Partial<NonNullable<Actor["employer"]>>): Actor {
+  return { ...employerAdmin, employer: { ...employerAdmin.employer!, ...flags } };
+}
+
+describe("policy matrix", () => {
+  const actors = { student, university: universityAdmin, employer: employerAdmin };
+
+  for (const action of ACTIONS) {
+    for (const [role, actor] of Object.entries(actors) as [keyof typeof actors, Actor][]) {
+      const allowed = EXPECTED[action][role];
+
+      test(`${role} ${allowed ? "may" : "may not"} ${action}`, () => {
+        assert.equal(can(actor, action), allowed, "without a resource");
+        assert.equal(can(actor, action, own), allowed, "on their own record");
+        assert.equal(can(actor, action, foreign), false, "on another organisation's record");
+      });
+    }
+
+    test(`platform admin may ${action} anywhere`, () => {
+      assert.equal(can(platformAdmin, action), true);
+      assert.equal(can(platformAdmin, action, own), true);
+      assert.equal(can(platformAdmin, action, foreign), true);
+    });
+  }
+
+  test("a student's record at their own university is still not another student's", () => {
+    const classmate = { ...own, studentUserId: "student-2" };
+
+    assert.equal(can(student, "application.view", classmate), false);
+    assert.equal(can(universityAdmin, "application.view", classmate), true);
+  });
+});
+
+describe("permission flags", () => {
+  test("canManagePrograms off: may view programs but not manage them", () => {
+    const actor = withUniversityFlags({ canManagePrograms: false });
+
+    assert.equal(can(actor, "program.manage", own), false);
+    assert.equal(can(actor, "program.view", own), true);
+    assert.equal(programScope(actor, "program.manage"), null);
+  });
+
+  test("canReviewApplications off: may view applications but not review them or run interviews", () => {
+    const actor = withUniversityFlags({ canReviewApplications: false });
+
+    assert.equal(can(actor, "application.review", own), false);
+    assert.equal(can(actor, "interview.manage", own), false);
+    assert.equal(can(actor, "application.view", own), true);
+  });
+
+  test("canReviewCandidates off: sees no candidates, documents or interviews", () => {
+    const actor = withEmployerFlags({ canReviewCandidates: false });
+
+    for (const action of ["candidate.review", "application.view", "document.view", "interview.manage"] as Action[]) {
+      assert.equal(can(actor, action, own), false, action);
+    }
+    assert.equal(can(actor, "payment.view", own), true);
+    assert.equal(applicationScope(actor, "application.view"), null);
+  });
+
+  test("canApproveHires off: may not approve hires or manage stipends", () => {
+    const actor = withEmployerFlags({ canApproveHires: false });
+
+    assert.equal(can(actor, "hire.approve", own), false);
+    assert.equal(can(actor, "stipend.manage", own), false);
+    assert.equal(can(actor, "candidate.review", own), true);
+  });
+
+  test("canCreatePrograms off: may not sponsor discount codes", () => {
+    assert.equal(can(withEmployerFlags({ canCreatePrograms: false }), "discountCode.manage", own), false);
+  });
+
+  test("members who are not owners may view the team but not manage it or its API keys", () => {
+    for (const actor of [withUniversityFlags({ isOwner: false }), withEmployerFlags({ isOwner: false })]) {
+      assert.equal(can(actor, "team.view", own), true);
+      assert.equal(can(actor, "team.manage", own), false);
+      assert.equal(can(actor, "apiKey.manage", own), false);
+    }
+  });
+
+  test("admins not linked to an organisation may do nothing", () => {
+    for (const actor of [{ ...universityAdmin, university: null }, { ...employerAdmin, employer: null }]) {
+      for (const action of ACTIONS) {
+        assert.equal(can(actor, action), false, action);
+      }
+    }
+  });
+});
+
+describe("API key actions", () => {
+  const apiKey: Actor = { ...universityAdmin, actions: ["application.view", "application.review"] };
+
+  test("may take only the actions its scopes grant", () => {
+    assert.equal(can(apiKey, "application.view", own), true);
+    assert.equal(can(apiKey, "application.review", own), true);
+    assert.equal(can(apiKey, "program.manage", own), false);
+    assert.equal(can(apiKey, "team.manage", own), false);
+  });
+
+  test("stays inside its own organisation", () => {
+    assert.equal(can(apiKey, "application.review", foreign), false);
+  });
+
+  test("limits platform admin keys too", () => {
+    const platformKey: Actor = { ...platformAdmin, actions: ["program.view"] };
+
+    assert.equal(can(platformKey, "program.view", foreign), true);
+    assert.equal(can(platformKey, "platform.manage"), false);
+  });
+
+  test("gets no scope for an action it was not granted", () => {
+    assert.deepEqual(programScope(apiKey, "application.review"), { universityId: "university-1" });
+    assert.equal(programScope(apiKey, "program.manage"), null);
+    assert.equal(applicationScope(apiKey, "program.manage"), null);
+  });
+});
+
+describe("scopes", () => {
+  test("filter to the actor's own organisation, student or everything", () => {
+    assert.deepEqual(programScope(universityAdmin, "program.manage"), { universityId: "university-1" });
+    assert.deepEqual(programScope(employerAdmin, "candidate.review"), { employerId: "employer-1" });
+    assert.deepEqual(programScope(platformAdmin, "program.manage"), {});
+    assert.deepEqual(applicationScope(student, "application.view"), { student: { userId: "student-1" } });
+    assert.deepEqual(applicationScope(employerAdmin, "application.view"), { program: { employerId: "employer-1" } });
+  });
+
+  test("are empty for actors who may not take the action", () => {
+    assert.equal(programScope(student, "program.manage"), null);
+    assert.equal(applicationScope(student, "application.review"), null);
+    assert.equal(programScope(employerAdmin, "application.review"), null);
+  });
+});
+
+describe("authorize", () => {
+  test("throws a 403 naming the action", () => {
+    assert.throws(
+      () => authorize(student, "program.manage"),
+      (error) => error instanceof APIError && error.statusCode === 403 && error.message === "Not authorized to manage programs",
+    );
+    assert.doesNotThrow(() => authorize(universityAdmin, "program.manage", own));
+  });
+});
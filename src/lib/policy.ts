@@ -0,0 +1,166 @@
+import type { EmployerAdmin, Prisma, UniversityAdmin, UserRole } from "@prisma/client";
+import { APIError } from "../middleware/error-handler";
+
+// ============================================
+// ACTORS
+// ============================================
+
+type UniversityFlag = "canManagePrograms" | "canReviewApplications" | "isOwner";
+type EmployerFlag = "canCreatePrograms" | "canReviewCandidates" | "canApproveHires" | "isOwner";
+
+export type UniversityMembership = Pick<UniversityAdmin, "universityId" | UniversityFlag>;
+export type EmployerMembership = Pick<EmployerAdmin, "employerId" | EmployerFlag>;
+
+// The signed-in user together with the university or employer they act for
+export type Actor = {
+  userId: string;
+  role: UserRole;
+  university: UniversityMembership | null;
+  employer: EmployerMembership | null;
+  // Set for API keys, which may only take the actions their scopes grant
+  actions?: Action[];
+};
+
+// ============================================
+// POLICY
+// ============================================
+
+// Who may take each action. Platform admins may take every action. A student may act on
+// resources they own; university and employer admins on resources of their own university
+// or employer, and only with the permission flag named (true means any admin of it).
+type Rule = {
+  description: string;
+  student?: true;
+  university?: UniversityFlag | true;
+  employer?: EmployerFlag | true;
+};
+
+const POLICY = {
+  "platform.manage": { description: "manage the platform" },
+
+  "university.view": { description: "view this university", university: true },
+  "employer.view": { description: "view this employer", employer: true },
+
+  "team.view": { description: "view this team", university: true, employer: true },
+  "team.manage": { description: "manage this team", university: "isOwner", employer: "isOwner" },
+  "apiKey.manage": { description: "manage API keys", university: "isOwner", employer: "isOwner" },
+
+  "program.view": { description: "view this program", university: true, employer: true },
+  "program.manage": { description: "manage programs", university: "canManagePrograms" },
+
+  "application.view": {
+    description: "view this application",
+    student: true,
+    university: true,
+    employer: "canReviewCandidates",
+  },
+  "application.update": { description: "change this application", student: true },
+  "application.review": { description: "review applications", university: "canReviewApplications" },
+
+  "candidate.review": { description: "review candidates", employer: "canReviewCandidates" },
+  "hire.approve": { description: "approve hires", employer: "canApproveHires" },
+
+  "interview.manage": {
+    description: "manage interviews",
+    university: "canReviewApplications",
+    employer: "canReviewCandidates",
+  },
+
+  "document.view": {
+    description: "view this document",
+    student: true,
+    university: true,
+    employer: "canReviewCandidates",
+  },
+  "payment.view": { description: "view this payment", student: true, university: true, employer: true },
+  "discountCode.manage": { description: "sponsor discount codes", employer: "canCreatePrograms" },
+  "stipend.manage": { description: "manage stipends", employer: "canApproveHires" },
+} satisfies Record<string, Rule>;
+
+export type Action = keyof typeof POLICY;
+
+// What an action is taken on. Programs and cohort-scoped records pass their program;
+// applications, payments and documents also name the student who owns them.
+export type Resource = {
+  studentUserId?: string;
+  universityId?: string;
+  employerId?: string;
+};
+
+export function applicationResource(application: {
+  student: { userId: string };
+  program: { universityId: string; employerId: string };
+}): Resource {
+  return {
+    studentUserId: application.student.userId,
+    universityId: application.program.universityId,
+    employerId: application.program.employerId,
+  };
+}
+
+function hasFlag<F extends string>(membership: Record<F, boolean>, requirement: F | true | undefined) {
+  return requirement === true || (requirement !== undefined && membership[requirement]);
+}
+
+// Whether the actor may take the action on the resource. Without a resource, whether
+// they may take it on anything at all (used to fail fast before loading records).
+export function can(actor: Actor, action: Action, resource?: Resource) {
+  if (actor.actions && !actor.actions.includes(action)) return false;
+  if (actor.role === "PLATFORM_ADMIN") return true;
+
+  const rule: Rule = POLICY[action];
+
+  if (actor.role === "STUDENT") {
+    return !!rule.student && (!resource || resource.studentUserId === actor.userId);
+  }
+
+  if (actor.university && hasFlag(actor.university, rule.university)) {
+    return !resource || resource.universityId === actor.university.universityId;
+  }
+
+  if (actor.employer && hasFlag(actor.employer, rule.employer)) {
+    return !resource || resource.employerId === actor.employer.employerId;
+  }
+
+  return false;
+}
+
+export function authorize(actor: Actor, action: Action, resource?: Resource) {
+  if (!can(actor, action, resource)) {
+    throw new APIError(403, `Not authorized to ${POLICY[action].description}`, "FORBIDDEN");
+  }
+}
+
+// ============================================
+// SCOPES
+// ============================================
+
+// Programs the actor may take the action on, as a filter; null when there are none
+export function programScope(actor: Actor, action: Action): Prisma.ProgramWhereInput | null {
+  if (actor.actions && !actor.actions.includes(action)) return null;
+  if (actor.role === "PLATFORM_ADMIN") return {};
+
+  const rule: Rule = POLICY[action];
+
+  if (actor.university && hasFlag(actor.university, rule.university)) {
+    return { universityId: actor.university.universityId };
+  }
+
+  if (actor.employer && hasFlag(actor.employer, rule.employer)) {
+    return { employerId: actor.employer.employerId };
+  }
+
+  return null;
+}
+
+// Applications the actor may take the action on, as a filter; null when there are none
+export function applicationScope(actor: Actor, action: Action): Prisma.ApplicationWhereInput | null {
+  const rule: Rule = POLICY[action];
+
+  if (actor.role === "STUDENT") {
+    return rule.student ? { student: { userId: actor.userId } } : null;
+  }
+
+  const programs = programScope(actor, action);
+  return programs && { program: programs };
+}
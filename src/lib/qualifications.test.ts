@@ -0,0 +1,37 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { educationLevel, gradeRank } from "./qualifications";
+
+describe("educationLevel", () => {
+  test("reads Junior High records as level 1, not as high school", () => {
+    assert.equal(educationLevel("Junior High School"), 1);
+    assert.equal(educationLevel("JHS"), 1);
+    assert.equal(educationLevel("BECE"), 1);
+  });
+
+  test("reads school exams as Senior High, including their certificates", () => {
+    assert.equal(educationLevel("WASSCE Certificate"), 2);
+    assert.equal(educationLevel("Senior High School"), 2);
+    assert.equal(educationLevel("high school"), 2);
+  });
+
+  test("prefers the highest level named", () => {
+    assert.equal(educationLevel("Masters degree"), 5);
+    assert.equal(educationLevel("BSc Computer Science"), 4);
+    assert.equal(educationLevel("HND"), 3);
+    assert.equal(educationLevel("Certificate in Accounting"), 3);
+  });
+
+  test("returns null for unrecognised education", () => {
+    assert.equal(educationLevel("Self taught"), null);
+  });
+});
+
+describe("gradeRank", () => {
+  test("ranks WASSCE and plain letter grades", () => {
+    assert.equal(gradeRank("A1"), 1);
+    assert.equal(gradeRank(" c 6 "), 6);
+    assert.equal(gradeRank("B"), 3);
+    assert.equal(gradeRank("Z"), null);
+  });
+});
@@ -0,0 +1,29 @@
+// WASSCE grades, best to worst. Plain letter grades map to the worst grade in their band.
+const GRADE_RANKS: Record<string, number> = {
+  A1: 1, B2: 2, B3: 3, C4: 4, C5: 5, C6: 6, D7: 7, E8: 8, F9: 9,
+  A: 1, B: 3, C: 6, D: 7, E: 8, F: 9,
+};
+
+// Highest level first so "Masters degree" is not read as a bachelor's, except that Junior
+// High comes before Senior High so "Junior High School" is not read as "high school". A bare
+// "certificate" is only a diploma-level award once the school exams are ruled out, so
+// "WASSCE Certificate" stays Senior High.
+const EDUCATION_LEVELS: Array<{ level: number; label: string; pattern: RegExp }> = [
+  { level: 6, label: "Doctorate", pattern: /\b(phd|doctorate|doctoral)\b/ },
+  { level: 5, label: "Master's", pattern: /\b(masters?|msc|mba|mphil|ma|postgraduate)\b/ },
+  { level: 4, label: "Bachelor's", pattern: /\b(bachelors?|bsc|ba|beng|degree|undergraduate)\b/ },
+  { level: 3, label: "Diploma", pattern: /\b(hnd|diploma)\b/ },
+  { level: 1, label: "Junior High", pattern: /\b(bece|jhs|junior high)\b/ },
+  { level: 2, label: "Senior High", pattern: /\b(wassce|ssce|shs|senior high|high school|a[- ]?level|o[- ]?level)\b/ },
+  { level: 3, label: "Diploma", pattern: /\bcertificate\b/ },
+];
+
+export function gradeRank(grade: string): number | null {
+  const normalized = grade.trim().toUpperCase().replace(/[\s+-]/g, "");
+  return GRADE_RANKS[normalized] ?? null;
+}
+
+export function educationLevel(education: string): number | null {
+  const normalized = education.toLowerCase();
+  return EDUCATION_LEVELS.find((entry) => entry.pattern.test(normalized))?.level ?? null;
+}
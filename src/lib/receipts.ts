@@ -0,0 +1,312 @@
+import type { Prisma, ReceiptKind, Refund } from "@prisma/client";
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFImage, type PDFPage } from "pdf-lib";
+import { db } from "./db";
+import { enqueueJob } from "./jobs";
+import { emailTemplates, sendEmailNotification } from "./notifications";
+import { fetchPublicFile } from "./remote-files";
+
+const NUMBER_PREFIX: Record<ReceiptKind, string> = {
+  RECEIPT: "RCT",
+  CREDIT_NOTE: "CRN",
+};
+
+// Takes the next number in the kind's yearly sequence. Runs in the caller's transaction,
+// so a rolled-back receipt gives its number back and the sequence stays gapless.
+async function nextReceiptNumber(tx: Prisma.TransactionClient, kind: ReceiptKind, issuedAt: Date) {
+  const year = issuedAt.getUTCFullYear();
+  const name = `${kind}-${year}`;
+
+  const [sequence] = await tx.$queryRaw<{ value: number }[]>`
+    INSERT INTO "DocumentSequence" ("name", "value") VALUES (${name}, 1)
+    ON CONFLICT ("name") DO UPDATE SET "value" = "DocumentSequence"."value" + 1
+    RETURNING "value"
+  `;
+
+  return `${NUMBER_PREFIX[kind]}-${year}-${String(sequence.value).padStart(6, "0")}`;
+}
+
+// Issues the receipt for a completed payment, once. Call inside the transaction that completes it;
+// receipts issued later on request (for payments from before receipts existed) are not emailed.
+export async function issueReceipt(tx: Prisma.TransactionClient, paymentId: string, options: { email?: boolean } = {}) {
+  const existing = await tx.receipt.findFirst({ where: { paymentId, kind: "RECEIPT" } });
+  if (existing) return existing;
+
+  const payment = await tx.payment.findUniqueOrThrow({ where: { id: paymentId } });
+  const issuedAt = new Date();
+
+  const receipt = await tx.receipt.create({
+    data: {
+      number: await nextReceiptNumber(tx, "RECEIPT", issuedAt),
+      kind: "RECEIPT",
+      paymentId,
+      amount: payment.amount,
+      currency: payment.currency,
+      issuedAt,
+    },
+  });
+
+  if (options.email !== false) {
+    await enqueueJob("receipt.send", { receiptId: receipt.id }, {}, tx);
+  }
+
+  return receipt;
+}
+
+// Issues the credit note for a processed refund, once
+export async function issueCreditNote(tx: Prisma.TransactionClient, refund: Refund) {
+  const existing = await tx.receipt.findUnique({ where: { refundId: refund.id } });
+  if (existing) return existing;
+
+  const issuedAt = new Date();
+
+  const creditNote = await tx.receipt.create({
+    data: {
+      number: await nextReceiptNumber(tx, "CREDIT_NOTE", issuedAt),
+      kind: "CREDIT_NOTE",
+      paymentId: refund.paymentId,
+      refundId: refund.id,
+      amount: refund.amount,
+      currency: refund.currency,
+      issuedAt,
+    },
+  });
+
+  await enqueueJob("receipt.send", { receiptId: creditNote.id }, {}, tx);
+
+  return creditNote;
+}
+
+// ============================================
+// PDF RENDERING
+// ============================================
+
+const receiptInclude = {
+  refund: true,
+  payment: {
+    include: {
+      student: { include: { user: true } },
+      redemption: { include: { code: { select: { code: true } } } },
+      receipts: { where: { kind: "RECEIPT" }, select: { number: true } },
+      application: {
+        select: {
+          applicationNumber: true,
+          program: {
+            select: {
+              title: true,
+              university: { select: { name: true, logoUrl: true, email: true } },
+              employer: { select: { name: true, logoUrl: true } },
+            },
+          },
+        },
+      },
+    },
+  },
+} satisfies Prisma.ReceiptInclude;
+
+type ReceiptWithContext = Prisma.ReceiptGetPayload<{ include: typeof receiptInclude }>;
+
+const PAGE_WIDTH = 595.28; // A4
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const INK = rgb(0.12, 0.14, 0.18);
+const MUTED = rgb(0.42, 0.45, 0.5);
+const RULE = rgb(0.85, 0.87, 0.9);
+
+// The standard PDF fonts only cover Latin-1
+function pdfText(text: string) {
+  return text.replace(/[^\x20-\x7E\xA0-\xFF]/g, "?");
+}
+
+function money(amount: number, currency: string) {
+  return `${currency} ${amount.toFixed(2)}`;
+}
+
+function formatDate(date: Date) {
+  return date.toLocaleDateString("en-GB", { day: "numeric", month: "long", year: "numeric", timeZone: "UTC" });
+}
+
+const MAX_LOGO_BYTES = 1024 * 1024;
+
+// Logos are best effort; a receipt without one is still a receipt. Logo URLs are set by
+// university and employer admins, so they are only fetched from public https hosts.
+async function embedLogo(pdf: PDFDocument, url: string | null | undefined): Promise<PDFImage | null> {
+  if (!url) return null;
+
+  try {
+    const { bytes, contentType: type } = await fetchPublicFile(url, { maxBytes: MAX_LOGO_BYTES, timeoutMs: 5000 });
+
+    if (type.includes("png")) return await pdf.embedPng(bytes);
+    if (type.includes("jpeg") || type.includes("jpg")) return await pdf.embedJpg(bytes);
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+function drawLogo(page: PDFPage, logo: PDFImage, x: number, top: number, align: "left" | "right") {
+  const scaled = logo.scaleToFit(140, 48);
+  page.drawImage(logo, {
+    x: align === "left" ? x : x - scaled.width,
+    y: top - scaled.height,
+    width: scaled.width,
+    height: scaled.height,
+  });
+}
+
+function drawRight(page: PDFPage, text: string, right: number, y: number, font: PDFFont, size: number, color = INK) {
+  const safe = pdfText(text);
+  page.drawText(safe, { x: right - font.widthOfTextAtSize(safe, size), y, size, font, color });
+}
+
+function drawLeft(page: PDFPage, text: string, x: number, y: number, font: PDFFont, size: number, color = INK) {
+  page.drawText(pdfText(text), { x, y, size, font, color });
+}
+
+async function renderPdf(receipt: ReceiptWithContext) {
+  const { payment } = receipt;
+  const program = payment.application?.program;
+  const user = payment.student.user;
+  const isCreditNote = receipt.kind === "CREDIT_NOTE";
+
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`${isCreditNote ? "Credit note" : "Receipt"} ${receipt.number}`);
+  pdf.setAuthor(program?.university.name ?? "Workstream");
+  pdf.setCreationDate(receipt.issuedAt);
+
+  const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const right = PAGE_WIDTH - MARGIN;
+  let y = PAGE_HEIGHT - MARGIN;
+
+  // Branding: the university issues the receipt, the employer co-brands it
+  const [universityLogo, employerLogo] = await Promise.all([
+    embedLogo(pdf, program?.university.logoUrl),
+    embedLogo(pdf, program?.employer.logoUrl),
+  ]);
+
+  if (universityLogo) drawLogo(page, universityLogo, MARGIN, y, "left");
+  if (employerLogo) drawLogo(page, employerLogo, right, y, "right");
+  if (universityLogo || employerLogo) y -= 64;
+
+  drawLeft(page, program?.university.name ?? "Workstream", MARGIN, y, bold, 16);
+  drawRight(page, isCreditNote ? "CREDIT NOTE" : "RECEIPT", right, y, bold, 20);
+  y -= 16;
+
+  if (program) {
+    drawLeft(page, `in partnership with ${program.employer.name}`, MARGIN, y, regular, 10, MUTED);
+  }
+  y -= 36;
+
+  // Document details
+  const details: [string, string][] = [
+    [isCreditNote ? "Credit note no." : "Receipt no.", receipt.number],
+    ["Date issued", formatDate(receipt.issuedAt)],
+  ];
+
+  if (isCreditNote && payment.receipts[0]) {
+    details.push(["Against receipt", payment.receipts[0].number]);
+  }
+  if (payment.providerRef) details.push(["Payment reference", payment.providerRef]);
+  if (payment.paymentMethod) details.push(["Payment method", payment.paymentMethod.replace(/_/g, " ")]);
+  if (payment.paidAt) details.push(["Paid on", formatDate(payment.paidAt)]);
+
+  const billedTo = [
+    [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email,
+    user.email,
+    payment.application ? `Application ${payment.application.applicationNumber}` : null,
+  ].filter((line): line is string => !!line);
+
+  drawLeft(page, "BILLED TO", MARGIN, y, bold, 9, MUTED);
+  billedTo.forEach((line, index) => drawLeft(page, line, MARGIN, y - 14 - index * 13, regular, 10));
+
+  details.forEach(([label, value], index) => {
+    drawRight(page, label, right - 150, y - index * 14, regular, 9, MUTED);
+    drawRight(page, value, right, y - index * 14, bold, 9);
+  });
+
+  y -= Math.max(billedTo.length * 13 + 14, details.length * 14) + 30;
+
+  // Line items
+  page.drawRectangle({ x: MARGIN, y: y - 6, width: right - MARGIN, height: 22, color: rgb(0.96, 0.97, 0.98) });
+  drawLeft(page, "DESCRIPTION", MARGIN + 8, y, bold, 9, MUTED);
+  drawRight(page, "AMOUNT", right - 8, y, bold, 9, MUTED);
+  y -= 28;
+
+  const lines: [string, number][] = [];
+
+  if (isCreditNote) {
+    lines.push([`Refund: ${receipt.refund?.reason ?? payment.description}`, -receipt.amount]);
+  } else {
+    const discount = payment.redemption;
+    lines.push([payment.description, payment.amount + (discount?.amount ?? 0)]);
+    if (discount) lines.push([`Discount (${discount.code.code})`, -discount.amount]);
+  }
+
+  for (const [description, amount] of lines) {
+    drawLeft(page, description.length > 80 ? `${description.slice(0, 77)}...` : description, MARGIN + 8, y, regular, 10);
+    drawRight(page, money(amount, receipt.currency), right - 8, y, regular, 10);
+    y -= 18;
+  }
+
+  page.drawLine({ start: { x: MARGIN, y: y + 6 }, end: { x: right, y: y + 6 }, thickness: 1, color: RULE });
+  y -= 14;
+
+  drawRight(page, isCreditNote ? "Total credited" : "Total paid", right - 150, y, bold, 11);
+  drawRight(page, money(isCreditNote ? -receipt.amount : receipt.amount, receipt.currency), right - 8, y, bold, 11);
+
+  // Footer
+  const footer = [
+    "This document was generated electronically and is valid without a signature.",
+    program?.university.email ? `Questions about this ${isCreditNote ? "credit note" : "receipt"}: ${program.university.email}` : null,
+  ].filter((line): line is string => !!line);
+
+  footer.forEach((line, index) => drawLeft(page, line, MARGIN, MARGIN + (footer.length - 1 - index) * 12, regular, 8, MUTED));
+
+  return pdf.save();
+}
+
+export async function renderReceipt(receiptId: string) {
+  const receipt = await db.receipt.findUniqueOrThrow({
+    where: { id: receiptId },
+    include: receiptInclude,
+  });
+
+  return {
+    receipt,
+    filename: `${receipt.number}.pdf`,
+    content: await renderPdf(receipt),
+  };
+}
+
+// Emails a receipt or credit note to the student with the PDF attached
+export async function sendReceiptEmail(receiptId: string) {
+  const sent = await db.receipt.findUniqueOrThrow({ where: { id: receiptId }, select: { emailedAt: true } });
+  if (sent.emailedAt) return;
+
+  const { receipt, filename, content } = await renderReceipt(receiptId);
+
+  const user = receipt.payment.student.user;
+  const isCreditNote = receipt.kind === "CREDIT_NOTE";
+  const amount = money(receipt.amount, receipt.currency);
+
+  const result = await sendEmailNotification(
+    user.email,
+    `${isCreditNote ? "Credit note" : "Receipt"} ${receipt.number}`,
+    isCreditNote
+      ? emailTemplates.creditNote(user.firstName || "Student", receipt.number, amount)
+      : emailTemplates.paymentReceipt(user.firstName || "Student", receipt.number, amount),
+    [{ filename, content: Buffer.from(content).toString("base64"), contentType: "application/pdf" }]
+  );
+
+  // sendEmailNotification returns null both on failure and when Resend is not configured
+  if (!result) {
+    if (process.env.RESEND_API_KEY) throw new Error(`Failed to email receipt ${receipt.number}`);
+    return;
+  }
+
+  await db.receipt.update({
+    where: { id: receipt.id },
+    data: { emailedAt: new Date() },
+  });
+}
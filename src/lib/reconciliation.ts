@@ -0,0 +1,229 @@
+import type { Payment, ReconciliationAction } from "@prisma/client";
+import { db } from "./db";
+import { enqueueJob } from "./jobs";
+import { getPaymentProvider, type VerifiedCharge } from "./payment-providers";
+import { settlePayment } from "./payments";
+import { fromMinorUnits, toMinorUnits } from "./paystack";
+import { chargeOutcome, paymentProviderOf } from "./settlement";
+import { APIError } from "../middleware/error-handler";
+
+// PENDING payments younger than this may still be completing in the browser
+export const RECONCILE_AFTER_MINUTES = parseInt(process.env.PAYMENT_RECONCILE_AFTER_MINUTES || "30", 10);
+
+// Checkouts still unpaid this long after they were started are treated as abandoned
+export const PAYMENT_EXPIRY_HOURS = parseInt(process.env.PAYMENT_EXPIRY_HOURS || "24", 10);
+
+const RECONCILE_INTERVAL_MINUTES = parseInt(process.env.PAYMENT_RECONCILE_INTERVAL_MINUTES || "15", 10);
+
+// Hour (UTC) at which the previous day's completed payments are re-checked
+const DAILY_RECONCILE_HOUR = 2;
+
+const RECONCILE_BATCH_SIZE = 100;
+
+export type ReconciliationScope = "pending" | "daily";
+
+function mismatchOf(payment: Payment, charge: VerifiedCharge) {
+  if (charge.currency && charge.currency !== payment.currency) return "CURRENCY";
+  if (charge.amountMinor !== toMinorUnits(payment.amount)) return "AMOUNT";
+  // Money we think we hold but the provider does not (e.g. a reversed charge)
+  if (payment.status === "COMPLETED" && charge.status !== "success") return "STATUS";
+  return null;
+}
+
+// Re-verifies one payment with its provider, applies the result and records the check
+export async function reconcilePayment(payment: Payment) {
+  const providerName = paymentProviderOf(payment);
+  const check = {
+    paymentId: payment.id,
+    provider: providerName,
+    expectedAmount: payment.amount,
+    expectedCurrency: payment.currency,
+  };
+
+  let charge: VerifiedCharge | null;
+
+  try {
+    charge = await getPaymentProvider(providerName).verify(payment.providerRef ?? payment.id);
+  } catch (error) {
+    // The provider has no transaction when the checkout page was never opened
+    if (error instanceof APIError && error.code === "VERIFICATION_FAILED") {
+      charge = null;
+    } else {
+      return db.paymentReconciliation.create({
+        data: { ...check, action: "ERROR", error: error instanceof Error ? error.message : String(error) },
+      });
+    }
+  }
+
+  let action: ReconciliationAction = "UNCHANGED";
+  const abandoned = payment.createdAt.getTime() < Date.now() - PAYMENT_EXPIRY_HOURS * 60 * 60 * 1000;
+
+  if (charge && charge.status !== "pending") {
+    const { payment: settled, changed } = await settlePayment(chargeOutcome(charge));
+    if (changed) action = settled?.status === "COMPLETED" ? "SETTLED" : "FAILED";
+  } else if (abandoned && payment.status === "PENDING") {
+    const { count } = await db.payment.updateMany({
+      where: { id: payment.id, status: "PENDING" },
+      data: { status: "EXPIRED" },
+    });
+    if (count > 0) action = "EXPIRED";
+  }
+
+  return db.paymentReconciliation.create({
+    data: {
+      ...check,
+      action,
+      providerStatus: charge?.status ?? "not_found",
+      providerAmount: charge ? fromMinorUnits(charge.amountMinor) : null,
+      providerCurrency: charge?.currency,
+      mismatch: charge ? mismatchOf(payment, charge) : null,
+    },
+  });
+}
+
+async function reconcileAll(payments: Payment[]) {
+  const summary: Record<ReconciliationAction, number> & { checked: number; mismatches: number } = {
+    checked: 0,
+    mismatches: 0,
+    SETTLED: 0,
+    FAILED: 0,
+    EXPIRED: 0,
+    UNCHANGED: 0,
+    ERROR: 0,
+  };
+
+  // One at a time to stay well inside provider rate limits
+  for (const payment of payments) {
+    const check = await reconcilePayment(payment);
+    summary.checked++;
+    summary[check.action]++;
+    if (check.mismatch) summary.mismatches++;
+  }
+
+  return summary;
+}
+
+// Payments left PENDING by a closed browser or a lost webhook
+export async function reconcilePendingPayments() {
+  const payments = await db.payment.findMany({
+    where: {
+      status: "PENDING",
+      createdAt: { lt: new Date(Date.now() - RECONCILE_AFTER_MINUTES * 60 * 1000) },
+    },
+    orderBy: { createdAt: "asc" },
+    take: RECONCILE_BATCH_SIZE,
+  });
+
+  return reconcileAll(payments);
+}
+
+// Payments completed in the last day, checked for amount, currency and status drift
+export async function reconcileCompletedPayments() {
+  const payments = await db.payment.findMany({
+    where: {
+      status: "COMPLETED",
+      // Fully discounted fees never went through a provider
+      amount: { gt: 0 },
+      paidAt: { gte: new Date(Date.now() - 24 * 60 * 60 * 1000) },
+    },
+    orderBy: { paidAt: "asc" },
+  });
+
+  return reconcileAll(payments);
+}
+
+function nextRunAt(scope: ReconciliationScope) {
+  if (scope === "pending") {
+    return new Date(Date.now() + RECONCILE_INTERVAL_MINUTES * 60 * 1000);
+  }
+
+  const next = new Date();
+  next.setUTCHours(DAILY_RECONCILE_HOUR, 0, 0, 0);
+  if (next.getTime() <= Date.now()) next.setUTCDate(next.getUTCDate() + 1);
+  return next;
+}
+
+// Keeps exactly one upcoming reconciliation job per scope. Called at startup and
+// by each run to schedule the next, so restarts never start a second chain.
+export async function schedulePaymentReconciliation(scope: ReconciliationScope) {
+  const scheduled = await db.job.findFirst({
+    where: {
+      type: "payment.reconcile",
+      status: "PENDING",
+      payload: { path: ["scope"], equals: scope },
+    },
+  });
+
+  if (scheduled) return scheduled;
+
+  return enqueueJob("payment.reconcile", { scope }, { runAt: nextRunAt(scope) });
+}
+
+export async function runPaymentReconciliation(scope: ReconciliationScope) {
+  try {
+    const summary = scope === "pending"
+      ? await reconcilePendingPayments()
+      : await reconcileCompletedPayments();
+
+    if (summary.checked > 0) {
+      console.log(`Payment reconciliation (${scope}):`, summary);
+    }
+  } finally {
+    await schedulePaymentReconciliation(scope);
+  }
+}
+
+// Checks made on one UTC day, with everything that needs a human
+export async function reconciliationReport(date: Date) {
+  const from = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const to = new Date(from.getTime() + 24 * 60 * 60 * 1000);
+  const checkedAt = { gte: from, lt: to };
+
+  const [byAction, mismatches, errors, stillPending, unconfirmedRefunds] = await Promise.all([
+    db.paymentReconciliation.groupBy({
+      by: ["action"],
+      where: { checkedAt },
+      _count: { _all: true },
+    }),
+    db.paymentReconciliation.findMany({
+      where: { checkedAt, mismatch: { not: null } },
+      orderBy: { checkedAt: "asc" },
+      include: {
+        payment: {
+          select: { id: true, status: true, amount: true, currency: true, providerRef: true, paidAt: true, applicationId: true },
+        },
+      },
+    }),
+    db.paymentReconciliation.findMany({
+      where: { checkedAt, action: "ERROR" },
+      orderBy: { checkedAt: "asc" },
+    }),
+    db.payment.count({
+      where: {
+        status: "PENDING",
+        createdAt: { lt: new Date(Date.now() - RECONCILE_AFTER_MINUTES * 60 * 1000) },
+      },
+    }),
+    // Refunds whose request never got an answer from the provider and no webhook has matched
+    db.refund.findMany({
+      where: {
+        status: "PENDING",
+        providerRef: null,
+        createdAt: { lt: new Date(Date.now() - RECONCILE_AFTER_MINUTES * 60 * 1000) },
+      },
+      orderBy: { createdAt: "asc" },
+    }),
+  ]);
+
+  const totals = Object.fromEntries(byAction.map((row) => [row.action, row._count._all]));
+
+  return {
+    date: from.toISOString().slice(0, 10),
+    checked: byAction.reduce((sum, row) => sum + row._count._all, 0),
+    totals,
+    mismatches,
+    errors,
+    stillPending,
+    unconfirmedRefunds,
+  };
+}
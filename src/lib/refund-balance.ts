@@ -0,0 +1,29 @@
+import { fromMinorUnits, toMinorUnits } from "./paystack";
+import { APIError } from "../middleware/error-handler";
+
+type RefundablePayment = {
+  amount: number;
+  currency: string;
+};
+
+// The refund to issue, in minor units: the requested amount, or everything still refundable
+// when none is given. openRefunds are the payment's PENDING and PROCESSED refunds.
+export function refundAmountMinor(
+  payment: RefundablePayment,
+  openRefunds: { amount: number }[],
+  requested?: number,
+) {
+  const refunded = openRefunds.reduce((sum, refund) => sum + toMinorUnits(refund.amount), 0);
+  const refundable = toMinorUnits(payment.amount) - refunded;
+  const amount = requested === undefined ? refundable : toMinorUnits(requested);
+
+  if (amount <= 0 || amount > refundable) {
+    throw new APIError(
+      400,
+      `Refund amount must be between 0 and ${fromMinorUnits(refundable).toFixed(2)} ${payment.currency}`,
+      "INVALID_REFUND_AMOUNT",
+    );
+  }
+
+  return amount;
+}
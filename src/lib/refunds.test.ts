@@ -0,0 +1,159 @@
+import assert from "node:assert/strict";
+import { createHmac } from "node:crypto";
+import { after, describe, test } from "node:test";
+import { APIError } from "../middleware/error-handler";
+import { startPaystackStandIn } from "../test/paystack-stand-in";
+
+const SECRET = "sk_test_stand_in";
+
+const paystack = await startPaystackStandIn(SECRET);
+process.env.PAYSTACK_BASE_URL = paystack.url;
+process.env.PAYSTACK_SECRET_KEY = SECRET;
+
+// lib/paystack reads its configuration on import, so everything using it is imported after
+const { getPaymentProvider, RefundRejectedError } = await import("./payment-providers");
+const { refundAmountMinor } = await import("./refund-balance");
+const provider = getPaymentProvider("paystack");
+
+after(() => paystack.close());
+
+function rejectsWith(status: number, code: string) {
+  return (error: unknown) => error instanceof APIError && error.statusCode === status && error.code === code;
+}
+
+describe("refund amount", () => {
+  const payment = { amount: 150, currency: "GHS" };
+
+  test("defaults to everything still refundable", () => {
+    assert.equal(refundAmountMinor(payment, []), 15000);
+    assert.equal(refundAmountMinor(payment, [{ amount: 50 }]), 10000);
+  });
+
+  test("allows partial refunds up to the balance", () => {
+    assert.equal(refundAmountMinor(payment, [], 40.5), 4050);
+    assert.equal(refundAmountMinor(payment, [{ amount: 40.5 }], 109.5), 10950);
+  });
+
+  test("rejects refunding more than was paid", () => {
+    assert.throws(() => refundAmountMinor(payment, [], 150.01), rejectsWith(400, "INVALID_REFUND_AMOUNT"));
+    assert.throws(() => refundAmountMinor(payment, [{ amount: 100 }], 60), rejectsWith(400, "INVALID_REFUND_AMOUNT"));
+    assert.throws(() => refundAmountMinor(payment, [{ amount: 150 }]), rejectsWith(400, "INVALID_REFUND_AMOUNT"));
+    assert.throws(() => refundAmountMinor(payment, [], 0), rejectsWith(400, "INVALID_REFUND_AMOUNT"));
+  });
+});
+
+describe("paystack refunds", () => {
+  test("refunds a payment in full", async () => {
+    paystack.addTransaction("pay_full", 20000);
+
+    const refund = await provider.refund({ reference: "pay_full", amount: 200, currency: "GHS", reason: "Withdrawn" });
+
+    assert.equal(refund.status, "pending");
+    const issued = paystack.refunds.find((entry) => String(entry.id) === refund.id);
+    assert.equal(issued?.amount, 20000);
+    assert.equal(issued?.merchantNote, "Withdrawn");
+  });
+
+  test("refunds part of a payment, twice", async () => {
+    const transaction = paystack.addTransaction("pay_partial", 20000);
+
+    await provider.refund({ reference: "pay_partial", amount: 50, currency: "GHS", reason: "Partial" });
+    await provider.refund({ reference: "pay_partial", amount: 150, currency: "GHS", reason: "Rest" });
+
+    assert.equal(transaction.refunded, 20000);
+  });
+
+  test("reports Paystack declining an over-refund as a rejection", async () => {
+    const transaction = paystack.addTransaction("pay_over", 10000);
+
+    await assert.rejects(
+      provider.refund({ reference: "pay_over", amount: 100.01, currency: "GHS", reason: "Too much" }),
+      (error) => error instanceof RefundRejectedError && /unrefunded balance/.test(error.message),
+    );
+    assert.equal(transaction.refunded, 0);
+  });
+
+  test("does not report an outage as a rejection", async () => {
+    paystack.addTransaction("pay_outage", 10000);
+    paystack.failNextRefund(502);
+
+    await assert.rejects(
+      provider.refund({ reference: "pay_outage", amount: 100, currency: "GHS", reason: "Outage" }),
+      (error) => !(error instanceof RefundRejectedError) && rejectsWith(502, "PROVIDER_ERROR")(error),
+    );
+  });
+});
+
+describe("paystack refund webhooks", () => {
+  test("parses refund.processed", async () => {
+    paystack.addTransaction("pay_hook_ok", 5000);
+    const refund = await provider.refund({ reference: "pay_hook_ok", amount: 50, currency: "GHS", reason: "Done" });
+
+    const issued = paystack.refunds.find((entry) => String(entry.id) === refund.id)!;
+    const delivery = paystack.refundWebhook(issued, "refund.processed");
+    const event = provider.parseWebhook(delivery.body, delivery.headers);
+
+    assert.equal(event.type, "refund.processed");
+    assert.deepEqual(event.data, {
+      kind: "refund",
+      status: "processed",
+      refundRefs: [refund.id],
+      transactionReference: "pay_hook_ok",
+      amountMinor: 5000,
+      reason: "Done",
+    });
+  });
+
+  test("parses refund.failed", async () => {
+    paystack.addTransaction("pay_hook_failed", 5000);
+    const refund = await provider.refund({ reference: "pay_hook_failed", amount: 20, currency: "GHS", reason: "Bounced" });
+
+    const issued = paystack.refunds.find((entry) => String(entry.id) === refund.id)!;
+    const delivery = paystack.refundWebhook(issued, "refund.failed");
+    const event = provider.parseWebhook(delivery.body, delivery.headers);
+
+    assert.equal(event.data.kind, "refund");
+    assert.equal(event.data.kind === "refund" && event.data.status, "failed");
+    assert.equal(event.data.kind === "refund" && event.data.amountMinor, 2000);
+  });
+
+  test("gives each delivery of an event the same id", async () => {
+    paystack.addTransaction("pay_hook_replay", 5000);
+    const refund = await provider.refund({ reference: "pay_hook_replay", amount: 50, currency: "GHS", reason: "Replay" });
+
+    const issued = paystack.refunds.find((entry) => String(entry.id) === refund.id)!;
+    const first = paystack.refundWebhook(issued, "refund.processed");
+    const second = paystack.refundWebhook(issued, "refund.processed");
+
+    assert.equal(
+      provider.parseWebhook(first.body, first.headers).eventId,
+      provider.parseWebhook(second.body, second.headers).eventId,
+    );
+  });
+
+  test("rejects a delivery with a bad signature", async () => {
+    paystack.addTransaction("pay_hook_forged", 5000);
+    const refund = await provider.refund({ reference: "pay_hook_forged", amount: 50, currency: "GHS", reason: "Forged" });
+
+    const issued = paystack.refunds.find((entry) => String(entry.id) === refund.id)!;
+    const delivery = paystack.refundWebhook(issued, "refund.processed");
+
+    assert.throws(
+      () => provider.parseWebhook(delivery.body, { "x-paystack-signature": "0".repeat(128) }),
+      rejectsWith(401, "INVALID_SIGNATURE"),
+    );
+    assert.throws(() => provider.parseWebhook(delivery.body, {}), rejectsWith(401, "INVALID_SIGNATURE"));
+  });
+
+  test("rejects a signed event that is missing the fields it is read from", () => {
+    const signed = (body: string) => ({ "x-paystack-signature": createHmac("sha512", SECRET).update(body).digest("hex") });
+
+    const charge = JSON.stringify({ event: "charge.success", data: { status: "success", amount: 5000 } });
+    assert.throws(() => provider.parseWebhook(charge, signed(charge)), rejectsWith(400, "INVALID_PAYLOAD"));
+
+    const refund = JSON.stringify({ event: "refund.processed", data: { id: { nested: true }, amount: "50" } });
+    assert.throws(() => provider.parseWebhook(refund, signed(refund)), rejectsWith(400, "INVALID_PAYLOAD"));
+
+    assert.throws(() => provider.parseWebhook("[]", signed("[]")), rejectsWith(400, "INVALID_PAYLOAD"));
+  });
+});
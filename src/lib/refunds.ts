@@ -0,0 +1,209 @@
+import type { Prisma, Refund } from "@prisma/client";
+import { db, serializable } from "./db";
+import { enqueueJob } from "./jobs";
+import { emailTemplates, notificationTemplates } from "./notifications";
+import { getPaymentProvider, RefundRejectedError } from "./payment-providers";
+import { fromMinorUnits, toMinorUnits } from "./paystack";
+import { issueCreditNote } from "./receipts";
+import { refundAmountMinor } from "./refund-balance";
+import { paymentProviderOf, paymentsOnProvider } from "./settlement";
+import { APIError } from "../middleware/error-handler";
+
+// Refunds that still count against the refundable balance
+const OPEN_REFUND_STATUSES: Refund["status"][] = ["PENDING", "PROCESSED"];
+
+export type RefundRequest = {
+  amount?: number;
+  reason: string;
+  requestedById: string;
+};
+
+// Issues a full or partial refund through the payment's provider. The refund row is
+// written first so concurrent requests cannot refund more than was paid. When the provider
+// cannot be reached the refund stays PENDING, still holding its amount, until the provider's
+// refund webhook settles it (matched by transaction and amount) or an admin looks into it.
+export async function requestRefund(paymentId: string, request: RefundRequest) {
+  const { refund, payment, provider } = await serializable(async (tx) => {
+    const payment = await tx.payment.findUnique({
+      where: { id: paymentId },
+      include: { refunds: { where: { status: { in: OPEN_REFUND_STATUSES } } } },
+    });
+
+    if (!payment) {
+      throw new APIError(404, "Payment not found", "NOT_FOUND");
+    }
+
+    if (payment.status !== "COMPLETED") {
+      throw new APIError(409, `Cannot refund a ${payment.status.toLowerCase()} payment`, "INVALID_STATUS");
+    }
+
+    const provider = getPaymentProvider(paymentProviderOf(payment));
+
+    const amount = refundAmountMinor(payment, payment.refunds, request.amount);
+
+    const refund = await tx.refund.create({
+      data: {
+        paymentId,
+        amount: fromMinorUnits(amount),
+        currency: payment.currency,
+        reason: request.reason,
+        requestedById: request.requestedById,
+      },
+    });
+
+    return { refund, payment, provider };
+  });
+
+  let issued;
+  try {
+    issued = await provider.refund({
+      reference: payment.providerRef ?? payment.id,
+      amount: refund.amount,
+      currency: refund.currency,
+      reason: refund.reason,
+    });
+  } catch (error) {
+    if (error instanceof RefundRejectedError) {
+      await markRefundFailed(refund.id, error.message);
+      throw new APIError(502, error.message || "Refund could not be issued", "REFUND_FAILED");
+    }
+
+    console.warn(`Refund ${refund.id} outcome unknown, leaving it pending:`, error);
+    return refund;
+  }
+
+  await db.refund.update({
+    where: { id: refund.id },
+    data: { providerRef: issued.id },
+  });
+
+  // Some refunds (e.g. mobile money reversals) complete immediately
+  if (issued.status === "processed") {
+    await markRefundProcessed(refund.id);
+  }
+
+  return db.refund.findUniqueOrThrow({ where: { id: refund.id } });
+}
+
+async function notifyStudent(
+  tx: Prisma.TransactionClient,
+  refund: Refund,
+  outcome: "processed" | "failed"
+) {
+  const payment = await tx.payment.findUniqueOrThrow({
+    where: { id: refund.paymentId },
+    select: { student: { select: { user: { select: { id: true, firstName: true } } } } },
+  });
+
+  const user = payment.student.user;
+  const amount = `${refund.currency} ${refund.amount.toFixed(2)}`;
+  const template = outcome === "processed"
+    ? notificationTemplates.refundProcessed(amount)
+    : notificationTemplates.refundFailed(amount);
+
+  await enqueueJob(
+    "notification.send",
+    { userId: user.id, ...template, actionUrl: "/payments", metadata: { refundId: refund.id } },
+    {},
+    tx
+  );
+
+  await enqueueJob(
+    "email.send",
+    {
+      userId: user.id,
+      subject: template.title,
+      html: outcome === "processed"
+        ? emailTemplates.refundProcessed(user.firstName || "Student", amount)
+        : emailTemplates.refundFailed(user.firstName || "Student", amount),
+    },
+    {},
+    tx
+  );
+}
+
+// Idempotent: only a PENDING refund moves, so replayed webhooks are harmless
+export async function markRefundProcessed(refundId: string) {
+  return serializable(async (tx) => {
+    const { count } = await tx.refund.updateMany({
+      where: { id: refundId, status: "PENDING" },
+      data: { status: "PROCESSED", processedAt: new Date() },
+    });
+
+    if (count === 0) return null;
+
+    const refund = await tx.refund.findUniqueOrThrow({ where: { id: refundId } });
+
+    const payment = await tx.payment.update({
+      where: { id: refund.paymentId },
+      data: { refundedAmount: { increment: refund.amount } },
+    });
+
+    if (toMinorUnits(payment.refundedAmount) >= toMinorUnits(payment.amount)) {
+      await tx.payment.update({
+        where: { id: payment.id },
+        data: { status: "REFUNDED" },
+      });
+    }
+
+    await issueCreditNote(tx, refund);
+    await notifyStudent(tx, refund, "processed");
+
+    return refund;
+  });
+}
+
+export async function markRefundFailed(refundId: string, failureReason?: string) {
+  return serializable(async (tx) => {
+    const { count } = await tx.refund.updateMany({
+      where: { id: refundId, status: "PENDING" },
+      data: { status: "FAILED", failureReason },
+    });
+
+    if (count === 0) return null;
+
+    const refund = await tx.refund.findUniqueOrThrow({ where: { id: refundId } });
+
+    // Nothing was sent to the provider if the refund has no reference yet
+    if (refund.providerRef) {
+      await notifyStudent(tx, refund, "failed");
+    }
+
+    return refund;
+  });
+}
+
+export type RefundLookup = {
+  provider: string;
+  refundRefs: string[];
+  transactionReference?: string;
+  amountMinor?: number;
+};
+
+// Matches a refund webhook to our row: by refund id when the provider sends one,
+// otherwise the oldest pending refund of that amount on the transaction. Only refunds of
+// payments taken through the provider the webhook came from are considered.
+export async function findRefundForEvent(lookup: RefundLookup) {
+  const onProvider = paymentsOnProvider(lookup.provider);
+
+  if (lookup.refundRefs.length) {
+    const refund = await db.refund.findFirst({
+      where: { providerRef: { in: lookup.refundRefs }, payment: onProvider },
+    });
+    if (refund) return refund;
+  }
+
+  if (!lookup.transactionReference) return null;
+
+  const pending = await db.refund.findMany({
+    where: {
+      status: "PENDING",
+      payment: {
+        AND: [onProvider, { OR: [{ providerRef: lookup.transactionReference }, { id: lookup.transactionReference }] }],
+      },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return pending.find((refund) => lookup.amountMinor === undefined || toMinorUnits(refund.amount) === lookup.amountMinor) ?? null;
+}
@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { assertPublicUrl, fetchPublicFile, isPublicAddress } from "./remote-files";
+
+describe("isPublicAddress", () => {
+  test("refuses loopback, private, link-local and mapped addresses", () => {
+    for (const address of ["127.0.0.1", "10.1.2.3", "172.20.0.1", "192.168.1.1", "169.254.169.254", "100.64.0.1",
+      "0.0.0.0", "::1", "::", "fd00::1", "fe80::1", "::ffff:127.0.0.1", "::ffff:10.0.0.1"]) {
+      assert.equal(isPublicAddress(address), false, address);
+    }
+  });
+
+  test("accepts public addresses", () => {
+    assert.equal(isPublicAddress("8.8.8.8"), true);
+    assert.equal(isPublicAddress("2606:4700:4700::1111"), true);
+  });
+
+  test("refuses things that are not addresses", () => {
+    assert.equal(isPublicAddress("example.com"), false);
+  });
+});
+
+describe("assertPublicUrl", () => {
+  test("only accepts https", async () => {
+    await assert.rejects(assertPublicUrl("http://8.8.8.8/logo.png"), /https/);
+    await assert.rejects(assertPublicUrl("file:///etc/passwd"), /https/);
+  });
+
+  test("refuses internal hosts by address or by name", async () => {
+    await assert.rejects(assertPublicUrl("https://169.254.169.254/latest/meta-data"), /not a public host/);
+    await assert.rejects(assertPublicUrl("https://[::1]/logo.png"), /not a public host/);
+    await assert.rejects(assertPublicUrl("https://localhost/logo.png"), /not a public host/);
+  });
+
+  test("accepts a public address", async () => {
+    assert.equal((await assertPublicUrl("https://8.8.8.8/logo.png")).hostname, "8.8.8.8");
+  });
+});
+
+describe("fetchPublicFile", () => {
+  test("never requests an internal URL", async () => {
+    await assert.rejects(
+      fetchPublicFile("https://127.0.0.1:8000/api/v1/admin/users", { maxBytes: 1024, timeoutMs: 1000 }),
+      /not a public host/,
+    );
+  });
+});
@@ -0,0 +1,91 @@
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+
+// Loopback, private, link-local, carrier-grade NAT, multicast and reserved ranges, so none of
+// them can be reached through a URL an admin typed in. BlockList checks IPv4-mapped IPv6
+// addresses (::ffff:10.0.0.1) against the IPv4 ranges.
+const NON_PUBLIC = new BlockList();
+
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, "ipv4");
+}
+
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, "ipv6");
+}
+
+export function isPublicAddress(address: string) {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !NON_PUBLIC.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+// Checks a URL before the server fetches it: https only, and every address the host resolves
+// to must be public. Throws with the reason otherwise.
+export async function assertPublicUrl(url: string) {
+  const parsed = new URL(url);
+
+  if (parsed.protocol !== "https:") {
+    throw new Error(`Only https URLs are fetched, not ${parsed.protocol}`);
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(hostname) ? [{ address: hostname }] : await lookup(hostname, { all: true });
+
+  if (!addresses.length || !addresses.every(({ address }) => isPublicAddress(address))) {
+    throw new Error(`${parsed.hostname} is not a public host`);
+  }
+
+  return parsed;
+}
+
+// Downloads a file from a public https URL, refusing redirects (which could lead to an
+// internal host) and anything larger than maxBytes
+export async function fetchPublicFile(url: string, options: { maxBytes: number; timeoutMs: number }) {
+  const parsed = await assertPublicUrl(url);
+
+  const response = await fetch(parsed, { redirect: "error", signal: AbortSignal.timeout(options.timeoutMs) });
+
+  if (!response.ok || !response.body) {
+    throw new Error(`${parsed.hostname} responded with ${response.status}`);
+  }
+
+  if (Number(response.headers.get("content-length") ?? 0) > options.maxBytes) {
+    await response.body.cancel();
+    throw new Error(`File is larger than ${options.maxBytes} bytes`);
+  }
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for await (const chunk of response.body) {
+    size += chunk.byteLength;
+
+    if (size > options.maxBytes) {
+      throw new Error(`File is larger than ${options.maxBytes} bytes`);
+    }
+
+    chunks.push(chunk);
+  }
+
+  return { bytes: new Uint8Array(Buffer.concat(chunks)), contentType: response.headers.get("content-type") ?? "" };
+}
@@ -0,0 +1,190 @@
+import type { Prisma, RubricCriterion } from "@prisma/client";
+import { db } from "./db";
+import { APIError } from "../middleware/error-handler";
+
+export const SCORECARD_RECOMMENDATIONS = ["STRONG_YES", "YES", "NO", "STRONG_NO"] as const;
+
+type CriterionScore = { criterionId: string; score: number };
+
+function round(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function mean(values: number[]) {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+// Population variance: the spread between the interviewers who actually scored
+function variance(values: number[]) {
+  const average = mean(values);
+  return mean(values.map((value) => (value - average) ** 2));
+}
+
+// Weighted score out of 100; each criterion contributes score / maxScore times its share of the weight
+export function scorecardTotal(
+  criteria: Pick<RubricCriterion, "id" | "weight" | "maxScore">[],
+  scores: CriterionScore[]
+) {
+  const totalWeight = criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+
+  const weighted = criteria.reduce((sum, criterion) => {
+    const score = scores.find((entry) => entry.criterionId === criterion.id)?.score ?? 0;
+    return sum + criterion.weight * (score / criterion.maxScore);
+  }, 0);
+
+  return round((weighted / totalWeight) * 100);
+}
+
+export type ScorecardSummary = {
+  scorecards: number;
+  averageScore: number | null;
+  variance: number | null;
+  standardDeviation: number | null;
+  minScore: number | null;
+  maxScore: number | null;
+  criteria: {
+    criterionId: string;
+    name: string;
+    weight: number;
+    maxScore: number;
+    averageScore: number | null;
+    variance: number | null;
+  }[];
+};
+
+// Aggregates every interviewer's scorecard for a candidate, with inter-rater variance
+export function summarizeScorecards(
+  criteria: Pick<RubricCriterion, "id" | "name" | "weight" | "maxScore">[],
+  scorecards: { totalScore: number; scores: CriterionScore[] }[]
+): ScorecardSummary {
+  const totals = scorecards.map((scorecard) => scorecard.totalScore);
+  const hasScores = totals.length > 0;
+
+  return {
+    scorecards: totals.length,
+    averageScore: hasScores ? round(mean(totals)) : null,
+    variance: hasScores ? round(variance(totals)) : null,
+    standardDeviation: hasScores ? round(Math.sqrt(variance(totals))) : null,
+    minScore: hasScores ? Math.min(...totals) : null,
+    maxScore: hasScores ? Math.max(...totals) : null,
+    criteria: criteria.map((criterion) => {
+      const scores = scorecards.flatMap((scorecard) =>
+        scorecard.scores.filter((entry) => entry.criterionId === criterion.id).map((entry) => entry.score)
+      );
+
+      return {
+        criterionId: criterion.id,
+        name: criterion.name,
+        weight: criterion.weight,
+        maxScore: criterion.maxScore,
+        averageScore: scores.length ? round(mean(scores)) : null,
+        variance: scores.length ? round(variance(scores)) : null,
+      };
+    }),
+  };
+}
+
+// Scorecards from cancelled and no-show interviews do not count
+const countedInterviews: Prisma.InterviewWhereInput = {
+  status: { notIn: ["CANCELLED", "NO_SHOW"] },
+};
+
+export async function applicationScorecardSummary(applicationId: string, tx: Prisma.TransactionClient = db) {
+  const application = await tx.application.findUniqueOrThrow({
+    where: { id: applicationId },
+    select: { programId: true },
+  });
+
+  const [criteria, scorecards] = await Promise.all([
+    tx.rubricCriterion.findMany({
+      where: { programId: application.programId },
+      orderBy: { order: "asc" },
+    }),
+    tx.scorecard.findMany({
+      where: { interview: { applicationId, ...countedInterviews } },
+      include: { scores: true },
+    }),
+  ]);
+
+  return summarizeScorecards(criteria, scorecards);
+}
+
+export type ScorecardInput = {
+  scores: { criterionId: string; score: number; comment?: string }[];
+  recommendation?: (typeof SCORECARD_RECOMMENDATIONS)[number];
+  comments?: string;
+};
+
+// Creates or replaces the interviewer's scorecard and refreshes the candidate's interview score
+export async function submitScorecard(interviewId: string, interviewerId: string, input: ScorecardInput) {
+  return db.$transaction(async (tx) => {
+    const interview = await tx.interview.findUnique({
+      where: { id: interviewId },
+      include: { application: { select: { programId: true } }, panel: true },
+    });
+
+    if (!interview) {
+      throw new APIError(404, "Interview not found", "NOT_FOUND");
+    }
+
+    if (!interview.panel.some((panelist) => panelist.userId === interviewerId)) {
+      throw new APIError(403, "Only panelists can score this interview", "FORBIDDEN");
+    }
+
+    if (interview.status === "CANCELLED" || interview.status === "NO_SHOW" || interview.startsAt > new Date()) {
+      throw new APIError(409, "Scorecards can only be submitted for interviews that took place", "INVALID_STATUS");
+    }
+
+    const criteria = await tx.rubricCriterion.findMany({
+      where: { programId: interview.application.programId },
+    });
+
+    if (!criteria.length) {
+      throw new APIError(400, "This program has no interview rubric", "NO_RUBRIC");
+    }
+
+    for (const criterion of criteria) {
+      const entry = input.scores.find((score) => score.criterionId === criterion.id);
+
+      if (!entry) {
+        throw new APIError(400, `Missing score for "${criterion.name}"`, "INCOMPLETE_SCORECARD");
+      }
+
+      if (entry.score < 0 || entry.score > criterion.maxScore) {
+        throw new APIError(400, `Score for "${criterion.name}" must be between 0 and ${criterion.maxScore}`, "INVALID_SCORE");
+      }
+    }
+
+    if (input.scores.length !== criteria.length) {
+      throw new APIError(400, "Scores must match the program rubric", "INVALID_SCORE");
+    }
+
+    const data = {
+      totalScore: scorecardTotal(criteria, input.scores),
+      recommendation: input.recommendation,
+      comments: input.comments,
+    };
+
+    const scorecard = await tx.scorecard.upsert({
+      where: { interviewId_interviewerId: { interviewId, interviewerId } },
+      create: { ...data, interviewId, interviewerId },
+      update: { ...data, scores: { deleteMany: {} } },
+    });
+
+    await tx.scorecardScore.createMany({
+      data: input.scores.map((entry) => ({ ...entry, scorecardId: scorecard.id })),
+    });
+
+    const summary = await applicationScorecardSummary(interview.applicationId, tx);
+
+    await tx.application.update({
+      where: { id: interview.applicationId },
+      data: { interviewScore: summary.averageScore },
+    });
+
+    return tx.scorecard.findUniqueOrThrow({
+      where: { id: scorecard.id },
+      include: { scores: { include: { criterion: true } } },
+    });
+  });
+}
@@ -0,0 +1,142 @@
+import type { Prisma } from "@prisma/client";
+import { db } from "./db";
+import { isGeminiConfigured, scoreApplicationWithGemini, type MatchScore } from "./gemini";
+
+const applicationForScoring = {
+  student: {
+    include: {
+      documents: {
+        where: { type: { in: ["CV", "TRANSCRIPT"] } },
+        select: { type: true, parsedData: true },
+      },
+    },
+  },
+  program: true,
+} satisfies Prisma.ApplicationInclude;
+
+type ScoringApplication = Prisma.ApplicationGetPayload<{ include: typeof applicationForScoring }>;
+
+function tokenize(...values: Array<string | null | undefined>) {
+  return new Set(
+    values
+      .filter((value): value is string => !!value)
+      .flatMap((value) => value.toLowerCase().split(/[^a-z0-9+#]+/))
+      .filter((word) => word.length > 2)
+  );
+}
+
+function overlap(a: Set<string>, b: Set<string>) {
+  let count = 0;
+  for (const word of a) if (b.has(word)) count++;
+  return count;
+}
+
+function cvSkills(application: ScoringApplication): string[] {
+  return application.student.documents
+    .filter((document) => document.type === "CV")
+    .flatMap((document) => {
+      const data = document.parsedData as { skills?: unknown } | null;
+      return Array.isArray(data?.skills) ? data.skills.filter((skill): skill is string => typeof skill === "string") : [];
+    });
+}
+
+// Deterministic score used when Gemini is not configured or fails
+export function heuristicMatchScore(application: ScoringApplication): MatchScore {
+  const { student, program } = application;
+  const programTerms = tokenize(program.field, program.specialization, program.jobRole, ...program.tags);
+  const reasons: string[] = [];
+
+  // Eligibility: up to 30
+  const eligibility = application.meetsRequirements === true ? 30 : application.meetsRequirements === null ? 15 : 0;
+  reasons.push(`eligibility ${eligibility}/30`);
+
+  // Field of study and interests: up to 20
+  const studentTerms = tokenize(student.fieldOfStudy, ...student.interestedFields);
+  const fieldMatches = overlap(studentTerms, programTerms);
+  const fieldScore = Math.min(20, fieldMatches * 10);
+  reasons.push(`field alignment ${fieldScore}/20`);
+
+  // CV skills: up to 20
+  const skillMatches = overlap(tokenize(...cvSkills(application)), programTerms);
+  const skillScore = Math.min(20, skillMatches * 5);
+  reasons.push(`CV skills ${skillScore}/20`);
+
+  // GPA on a 4.0 scale (5.0 scales are normalised): up to 15
+  const gpa = student.gpa ?? 0;
+  const gpaScore = Math.round(Math.min(1, gpa / (gpa > 4 ? 5 : 4)) * 15);
+  reasons.push(`GPA ${gpaScore}/15`);
+
+  // Motivation letter length and relevance: up to 15
+  const letter = application.motivationLetter ?? "";
+  const letterLength = Math.min(10, Math.floor(letter.trim().split(/\s+/).filter(Boolean).length / 30));
+  const letterRelevance = Math.min(5, overlap(tokenize(letter), programTerms) * 2);
+  const letterScore = letterLength + letterRelevance;
+  reasons.push(`motivation letter ${letterScore}/15`);
+
+  const score = eligibility + fieldScore + skillScore + gpaScore + letterScore;
+
+  return {
+    score: Math.max(0, Math.min(100, score)),
+    rationale: `Heuristic score: ${reasons.join(", ")}.`,
+  };
+}
+
+function scoringContext(application: ScoringApplication) {
+  const { student, program } = application;
+
+  return {
+    program: {
+      title: program.title,
+      field: program.field,
+      specialization: program.specialization,
+      jobRole: program.jobRole,
+      minEducation: program.minEducation,
+      requiredGrades: program.requiredGrades,
+    },
+    applicant: {
+      highestEducation: student.highestEducation,
+      fieldOfStudy: student.fieldOfStudy,
+      gpa: student.gpa,
+      grades: { math: student.mathGrade, english: student.englishGrade, science: student.scienceGrade },
+      interestedFields: student.interestedFields,
+      meetsRequirements: application.meetsRequirements,
+      documents: student.documents.map((document) => ({ type: document.type, data: document.parsedData })),
+    },
+    motivationLetter: application.motivationLetter,
+  };
+}
+
+// Computes and stores the match score for an application
+export async function scoreApplication(applicationId: string) {
+  const application = await db.application.findUnique({
+    where: { id: applicationId },
+    include: applicationForScoring,
+  });
+
+  if (!application) return null;
+
+  let result: MatchScore;
+  let source = "heuristic";
+
+  if (isGeminiConfigured()) {
+    try {
+      result = await scoreApplicationWithGemini(scoringContext(application));
+      source = "gemini";
+    } catch (error) {
+      console.error("Gemini scoring error:", error);
+      result = heuristicMatchScore(application);
+    }
+  } else {
+    result = heuristicMatchScore(application);
+  }
+
+  return db.application.update({
+    where: { id: applicationId },
+    data: {
+      aiScore: Math.round(result.score * 10) / 10,
+      aiScoreRationale: result.rationale,
+      aiScoreSource: source,
+      aiScoredAt: new Date(),
+    },
+  });
+}
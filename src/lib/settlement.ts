@@ -0,0 +1,64 @@
+import type { Payment, Prisma } from "@prisma/client";
+import type { VerifiedCharge } from "./payment-providers";
+import { toMinorUnits } from "./paystack";
+
+// Payments from before providers were recorded all went through Paystack
+const LEGACY_PAYMENT_PROVIDER = "paystack";
+
+export function paymentProviderOf(payment: Pick<Payment, "paymentProvider">) {
+  return payment.paymentProvider ?? LEGACY_PAYMENT_PROVIDER;
+}
+
+// Payments taken through one provider, for matching that provider's events
+export function paymentsOnProvider(provider: string): Prisma.PaymentWhereInput {
+  return provider === LEGACY_PAYMENT_PROVIDER
+    ? { OR: [{ paymentProvider: provider }, { paymentProvider: null }] }
+    : { paymentProvider: provider };
+}
+
+export type ChargeOutcome = {
+  // Provider the result came from; it must be the one the payment was taken through
+  provider: string;
+  paymentId: string;
+  succeeded: boolean;
+  reference: string;
+  channel?: string | null;
+  // Amount the provider reports in minor units; a short payment is never settled
+  amountMinor?: number;
+  currency?: string;
+};
+
+export function chargeOutcome(charge: VerifiedCharge): ChargeOutcome {
+  return {
+    provider: charge.provider,
+    paymentId: charge.paymentId,
+    succeeded: charge.status === "success",
+    reference: charge.reference,
+    channel: charge.channel,
+    amountMinor: charge.amountMinor,
+    currency: charge.currency,
+  };
+}
+
+// Why a charge result must not be applied to the payment it names, or null when it can be
+export function settlementConflict(
+  payment: Pick<Payment, "amount" | "currency" | "paymentProvider">,
+  outcome: ChargeOutcome,
+) {
+  // Another provider's event carrying our payment id, e.g. a forged or misrouted webhook
+  if (paymentProviderOf(payment) !== outcome.provider) {
+    return `payment is on ${paymentProviderOf(payment)}, charge came from ${outcome.provider}`;
+  }
+
+  if (!outcome.succeeded) return null;
+
+  if (outcome.amountMinor !== undefined && outcome.amountMinor < toMinorUnits(payment.amount)) {
+    return `reported ${outcome.amountMinor} minor units, expected ${toMinorUnits(payment.amount)}`;
+  }
+
+  if (outcome.currency && outcome.currency !== payment.currency) {
+    return `reported currency ${outcome.currency}, expected ${payment.currency}`;
+  }
+
+  return null;
+}
@@ -0,0 +1,11 @@
+import { timingSafeEqual } from "crypto";
+
+// Compares two signatures without leaking where they differ
+export function signaturesMatch(expected: string, received: string | undefined) {
+  if (!received) return false;
+
+  const a = Buffer.from(expected);
+  const b = Buffer.from(received);
+
+  return a.length === b.length && timingSafeEqual(a, b);
+}
@@ -0,0 +1,73 @@
+import type { ApplicationStatus, Prisma } from "@prisma/client";
+import { APIError } from "../middleware/error-handler";
+
+// Statuses that occupy one of the program's slots
+export const SEAT_HOLDING_STATUSES: ApplicationStatus[] = ["ACCEPTED", "ENROLLED", "COMPLETED"];
+
+export function holdsSeat(status: ApplicationStatus) {
+  return SEAT_HOLDING_STATUSES.includes(status);
+}
+
+// Takes one slot, closing the program when it was the last one
+export async function reserveSlot(tx: Prisma.TransactionClient, programId: string) {
+  const { count } = await tx.program.updateMany({
+    where: { id: programId, availableSlots: { gt: 0 } },
+    data: { availableSlots: { decrement: 1 } },
+  });
+
+  if (count === 0) {
+    throw new APIError(409, "No slots available", "NO_SLOTS_AVAILABLE");
+  }
+
+  await tx.program.updateMany({
+    where: { id: programId, availableSlots: 0, status: "OPEN" },
+    data: { status: "CLOSED", closedForCapacity: true },
+  });
+}
+
+// Gives a slot back, reopening the program if it was only closed for capacity
+export async function releaseSlot(tx: Prisma.TransactionClient, programId: string) {
+  await tx.program.update({
+    where: { id: programId },
+    data: { availableSlots: { increment: 1 } },
+  });
+
+  await tx.program.updateMany({
+    where: {
+      id: programId,
+      status: "CLOSED",
+      closedForCapacity: true,
+      applicationDeadline: { gt: new Date() },
+    },
+    data: { status: "OPEN", closedForCapacity: false },
+  });
+}
+
+// Applies the program slot change implied by a status transition. Cohort seats have no
+// counter: they are the seat-holding applications assigned to the cohort (cohortSeatsTaken),
+// checked wherever an application joins a cohort.
+export async function applySlotAccounting(
+  tx: Prisma.TransactionClient,
+  params: { programId: string; from: ApplicationStatus; to: ApplicationStatus }
+) {
+  const { programId, from, to } = params;
+
+  if (!holdsSeat(from) && holdsSeat(to)) {
+    await reserveSlot(tx, programId);
+  } else if (holdsSeat(from) && !holdsSeat(to)) {
+    await releaseSlot(tx, programId);
+  }
+}
+
+// Recomputes availableSlots after totalSlots changes
+export async function resizeProgramSlots(tx: Prisma.TransactionClient, programId: string, totalSlots: number) {
+  const held = await tx.application.count({
+    where: { programId, status: { in: SEAT_HOLDING_STATUSES } },
+  });
+
+  if (totalSlots < held) {
+    throw new APIError(400, `Cannot reduce slots below the ${held} already taken`, "INVALID_SLOTS");
+  }
+
+  return totalSlots - held;
+}
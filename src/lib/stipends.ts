@@ -0,0 +1,426 @@
+import { Prisma, type PayoutStatus } from "@prisma/client";
+import { db, serializable } from "./db";
+import { toCsv } from "./cohorts";
+import { enqueueJob } from "./jobs";
+import { notificationTemplates } from "./notifications";
+import { APIError } from "../middleware/error-handler";
+
+export const PAUSE_CODES = ["WITHDRAWN", "ATTENDANCE", "MANUAL"] as const;
+export type PauseCode = (typeof PAUSE_CODES)[number];
+
+// Payouts that have not gone to the bank yet and can still be held back
+const HOLDABLE_STATUSES: PayoutStatus[] = ["PENDING", "FAILED"];
+
+// Payouts that still need money to move
+const OUTSTANDING_STATUSES: PayoutStatus[] = ["PENDING", "EXPORTED", "FAILED"];
+
+type AttendanceProgram = { stipendMinAttendance: number | null };
+
+// Students without recorded attendance are not held back
+function belowAttendance(program: AttendanceProgram, attendanceRate: number | null) {
+  return program.stipendMinAttendance !== null && attendanceRate !== null && attendanceRate < program.stipendMinAttendance;
+}
+
+// ============================================
+// SCHEDULES
+// ============================================
+
+export type DisbursementPeriod = {
+  period: string;
+  dueDate: string;
+  amountPerStudent?: number;
+};
+
+export async function createDisbursements(cohortId: string, periods: DisbursementPeriod[], createdById: string) {
+  const cohort = await db.cohort.findUnique({
+    where: { id: cohortId },
+    include: { program: true },
+  });
+
+  if (!cohort) {
+    throw new APIError(404, "Cohort not found", "NOT_FOUND");
+  }
+
+  if (!cohort.program.isFunded) {
+    throw new APIError(400, "Stipends are only paid on funded programs", "NOT_FUNDED");
+  }
+
+  const missingAmount = periods.some((period) => period.amountPerStudent === undefined) && !cohort.program.stipendAmount;
+
+  if (missingAmount) {
+    throw new APIError(400, "Program has no stipend amount; give amountPerStudent for each period", "INVALID_AMOUNT");
+  }
+
+  let disbursements;
+  try {
+    disbursements = await db.$transaction(
+      periods.map((period) =>
+        db.stipendDisbursement.create({
+          data: {
+            cohortId,
+            period: period.period,
+            dueDate: new Date(period.dueDate),
+            amountPerStudent: period.amountPerStudent ?? cohort.program.stipendAmount!,
+            createdById,
+          },
+        })
+      )
+    );
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      throw new APIError(409, "A disbursement already exists for one of these periods", "DUPLICATE_PERIOD");
+    }
+    throw error;
+  }
+
+  for (const disbursement of disbursements) {
+    await preparePayouts(disbursement.id);
+  }
+
+  return disbursements;
+}
+
+// Creates a payout for every student ENROLLED in the cohort who does not have one yet.
+// Safe to call repeatedly; students who enrol later are picked up by the next call.
+async function syncPayouts(tx: Prisma.TransactionClient, disbursementId: string) {
+  const disbursement = await tx.stipendDisbursement.findUniqueOrThrow({
+    where: { id: disbursementId },
+    include: { cohort: { include: { program: true } }, payouts: { select: { applicationId: true } } },
+  });
+
+  if (disbursement.status === "PAID" || disbursement.status === "CANCELLED") {
+    return disbursement;
+  }
+
+  const existing = new Set(disbursement.payouts.map((payout) => payout.applicationId));
+
+  const enrolled = await tx.application.findMany({
+    where: { cohortId: disbursement.cohortId, status: "ENROLLED" },
+    select: { id: true, applicationNumber: true, attendanceRate: true },
+  });
+
+  for (const application of enrolled) {
+    if (existing.has(application.id)) continue;
+
+    const held = belowAttendance(disbursement.cohort.program, application.attendanceRate);
+
+    await tx.stipendPayout.create({
+      data: {
+        disbursementId,
+        applicationId: application.id,
+        amount: disbursement.amountPerStudent,
+        reference: `STP-${disbursement.period}-${application.applicationNumber}`.replace(/[^A-Za-z0-9-]/g, ""),
+        ...(held && {
+          status: "PAUSED",
+          pauseCode: "ATTENDANCE",
+          pauseReason: `Attendance ${application.attendanceRate}% is below the required ${disbursement.cohort.program.stipendMinAttendance}%`,
+        }),
+      },
+    });
+  }
+
+  return disbursement;
+}
+
+async function preparePayouts(disbursementId: string) {
+  return serializable((tx) => syncPayouts(tx, disbursementId));
+}
+
+// Moves the disbursement along as its payouts settle
+async function refreshDisbursementStatus(tx: Prisma.TransactionClient, disbursementId: string) {
+  const disbursement = await tx.stipendDisbursement.findUniqueOrThrow({ where: { id: disbursementId } });
+
+  if (disbursement.status === "CANCELLED") return disbursement;
+
+  const counts = await tx.stipendPayout.groupBy({
+    by: ["status"],
+    where: { disbursementId },
+    _count: { _all: true },
+  });
+
+  const count = (statuses: PayoutStatus[]) =>
+    counts.filter((row) => statuses.includes(row.status)).reduce((sum, row) => sum + row._count._all, 0);
+
+  const status =
+    count(OUTSTANDING_STATUSES) > 0 ? (disbursement.exportedAt ? "PROCESSING" : "SCHEDULED")
+    : count(["PAID"]) > 0 ? "PAID"
+    : disbursement.status;
+
+  return tx.stipendDisbursement.update({
+    where: { id: disbursementId },
+    data: {
+      status,
+      paidAt: status === "PAID" ? disbursement.paidAt ?? new Date() : null,
+    },
+  });
+}
+
+// ============================================
+// BANK EXPORT AND RESULTS
+// ============================================
+
+const PAYOUT_FILE_HEADERS = [
+  "Reference",
+  "Beneficiary Name",
+  "Method",
+  "Bank/Network",
+  "Account Number",
+  "Amount",
+  "Currency",
+  "Narration",
+];
+
+// Builds the bank bulk-payment file from PENDING payouts and marks them EXPORTED.
+// Students without payout details stay PENDING and are listed as skipped.
+export async function exportPayoutFile(disbursementId: string) {
+  return serializable(async (tx) => {
+    const disbursement = await syncPayouts(tx, disbursementId);
+
+    if (disbursement.status === "CANCELLED") {
+      throw new APIError(409, "Disbursement has been cancelled", "INVALID_STATUS");
+    }
+
+    const payouts = await tx.stipendPayout.findMany({
+      where: { disbursementId, status: "PENDING" },
+      include: {
+        application: {
+          select: {
+            applicationNumber: true,
+            student: {
+              select: {
+                payoutMethod: true,
+                payoutProvider: true,
+                payoutAccountNumber: true,
+                payoutAccountName: true,
+                user: { select: { firstName: true, lastName: true } },
+              },
+            },
+          },
+        },
+      },
+      orderBy: { reference: "asc" },
+    });
+
+    const ready = payouts.filter(({ application: { student } }) => student.payoutAccountNumber && student.payoutProvider);
+    const skipped = payouts.filter((payout) => !ready.includes(payout));
+
+    const exportedAt = new Date();
+
+    if (ready.length > 0) {
+      await tx.stipendPayout.updateMany({
+        where: { id: { in: ready.map((payout) => payout.id) } },
+        data: { status: "EXPORTED", exportedAt },
+      });
+
+      await tx.stipendDisbursement.update({
+        where: { id: disbursementId },
+        data: { exportedAt },
+      });
+    }
+
+    const refreshed = await refreshDisbursementStatus(tx, disbursementId);
+
+    const program = disbursement.cohort.program;
+
+    const csv = toCsv(
+      PAYOUT_FILE_HEADERS,
+      ready.map(({ reference, amount, application: { student } }) => [
+        reference,
+        student.payoutAccountName || [student.user.firstName, student.user.lastName].filter(Boolean).join(" "),
+        student.payoutMethod ?? "BANK",
+        student.payoutProvider,
+        student.payoutAccountNumber,
+        amount.toFixed(2),
+        disbursement.currency,
+        `${program.title} stipend ${disbursement.period}`.slice(0, 60),
+      ])
+    );
+
+    return {
+      disbursement: refreshed,
+      csv,
+      exported: ready.length,
+      skipped: skipped.map((payout) => ({
+        payoutId: payout.id,
+        applicationNumber: payout.application.applicationNumber,
+        reason: "No payout account on file",
+      })),
+    };
+  });
+}
+
+export type PayoutResult = {
+  reference: string;
+  status: "PAID" | "FAILED";
+  failureReason?: string;
+};
+
+// Applies the bank's results file. Only EXPORTED payouts move, so a results file can be replayed.
+export async function recordPayoutResults(disbursementId: string, results: PayoutResult[]) {
+  return serializable(async (tx) => {
+    const disbursement = await tx.stipendDisbursement.findUnique({ where: { id: disbursementId } });
+
+    if (!disbursement) {
+      throw new APIError(404, "Disbursement not found", "NOT_FOUND");
+    }
+
+    const unmatched: string[] = [];
+    const now = new Date();
+
+    for (const result of results) {
+      const payout = await tx.stipendPayout.findFirst({
+        where: { disbursementId, reference: result.reference, status: "EXPORTED" },
+        include: { application: { select: { student: { select: { userId: true } } } } },
+      });
+
+      if (!payout) {
+        unmatched.push(result.reference);
+        continue;
+      }
+
+      await tx.stipendPayout.update({
+        where: { id: payout.id },
+        data: result.status === "PAID"
+          ? { status: "PAID", paidAt: now, failureReason: null }
+          : { status: "FAILED", failureReason: result.failureReason ?? "Rejected by bank" },
+      });
+
+      if (result.status === "PAID") {
+        await enqueueJob(
+          "notification.send",
+          {
+            userId: payout.application.student.userId,
+            ...notificationTemplates.stipendPaid(`${disbursement.currency} ${payout.amount.toFixed(2)}`, disbursement.period),
+            actionUrl: "/stipends",
+            metadata: { payoutId: payout.id },
+          },
+          {},
+          tx
+        );
+      }
+    }
+
+    return { disbursement: await refreshDisbursementStatus(tx, disbursementId), unmatched };
+  });
+}
+
+// ============================================
+// HOLDS
+// ============================================
+
+// Holds back payouts that have not gone to the bank yet
+export async function holdPayouts(
+  tx: Prisma.TransactionClient,
+  applicationId: string,
+  pauseCode: PauseCode,
+  pauseReason: string
+) {
+  const { count } = await tx.stipendPayout.updateMany({
+    where: { applicationId, status: { in: HOLDABLE_STATUSES } },
+    data: { status: "PAUSED", pauseCode, pauseReason },
+  });
+
+  return count;
+}
+
+// Releases payouts held for one reason; holds placed for other reasons stay
+export async function releasePayouts(tx: Prisma.TransactionClient, applicationId: string, pauseCode: PauseCode) {
+  const { count } = await tx.stipendPayout.updateMany({
+    where: { applicationId, status: "PAUSED", pauseCode },
+    data: { status: "PENDING", pauseCode: null, pauseReason: null },
+  });
+
+  return count;
+}
+
+export type AttendanceRecord = {
+  applicationId: string;
+  attendanceRate: number;
+};
+
+// Updates attendance for students in a cohort and holds or releases their payouts to match
+export async function recordAttendance(cohortId: string, records: AttendanceRecord[]) {
+  return serializable(async (tx) => {
+    const cohort = await tx.cohort.findUniqueOrThrow({
+      where: { id: cohortId },
+      include: { program: { select: { stipendMinAttendance: true } } },
+    });
+
+    const applications = await tx.application.findMany({
+      where: { id: { in: records.map((record) => record.applicationId) }, cohortId },
+      select: { id: true },
+    });
+
+    const inCohort = new Set(applications.map((application) => application.id));
+    const outside = records.filter((record) => !inCohort.has(record.applicationId));
+
+    if (outside.length > 0) {
+      throw new APIError(400, `Applications not in this cohort: ${outside.map((record) => record.applicationId).join(", ")}`, "INVALID_APPLICATIONS");
+    }
+
+    const now = new Date();
+    let held = 0;
+    let released = 0;
+
+    for (const record of records) {
+      await tx.application.update({
+        where: { id: record.applicationId },
+        data: { attendanceRate: record.attendanceRate, attendanceUpdatedAt: now },
+      });
+
+      if (belowAttendance(cohort.program, record.attendanceRate)) {
+        held += await holdPayouts(
+          tx,
+          record.applicationId,
+          "ATTENDANCE",
+          `Attendance ${record.attendanceRate}% is below the required ${cohort.program.stipendMinAttendance}%`
+        );
+      } else {
+        released += await releasePayouts(tx, record.applicationId, "ATTENDANCE");
+      }
+    }
+
+    return { updated: records.length, held, released };
+  });
+}
+
+export type PayoutUpdate = {
+  status: "PENDING" | "PAUSED" | "CANCELLED";
+  reason?: string;
+};
+
+// Manual hold, release, retry of a failed payout, or cancellation
+export async function updatePayout(payoutId: string, update: PayoutUpdate) {
+  return serializable(async (tx) => {
+    const payout = await tx.stipendPayout.findUnique({
+      where: { id: payoutId },
+      include: { application: { select: { status: true } } },
+    });
+
+    if (!payout) {
+      throw new APIError(404, "Payout not found", "NOT_FOUND");
+    }
+
+    if (payout.status === "PAID" || payout.status === "EXPORTED" || payout.status === "CANCELLED") {
+      throw new APIError(409, `Cannot change a ${payout.status.toLowerCase()} payout`, "INVALID_STATUS");
+    }
+
+    if (update.status === "PENDING" && payout.application.status === "WITHDRAWN") {
+      throw new APIError(409, "Student has withdrawn from the program", "APPLICATION_WITHDRAWN");
+    }
+
+    await tx.stipendPayout.update({
+      where: { id: payoutId },
+      data: {
+        status: update.status,
+        pauseCode: update.status === "PAUSED" ? "MANUAL" : null,
+        pauseReason: update.status === "PAUSED" ? update.reason ?? "Held by employer" : null,
+        failureReason: update.status === "CANCELLED" ? update.reason : undefined,
+      },
+    });
+
+    await refreshDisbursementStatus(tx, payout.disbursementId);
+
+    return tx.stipendPayout.findUniqueOrThrow({ where: { id: payoutId } });
+  });
+}
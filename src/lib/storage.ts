@@ -0,0 +1,204 @@
+import { createHash } from "crypto";
+import { createReadStream, createWriteStream } from "fs";
+import { mkdir, rm, stat } from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { ReadableStream as WebReadableStream } from "stream/web";
+import { GetObjectCommand, DeleteObjectCommand, S3Client } from "@aws-sdk/client-s3";
+import { Upload } from "@aws-sdk/lib-storage";
+import type { DocumentType } from "@prisma/client";
+import { APIError } from "../middleware/error-handler";
+
+export type StoredObject = {
+  body: Readable;
+  contentLength?: number;
+};
+
+export interface StorageDriver {
+  put(key: string, body: Readable, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredObject | null>;
+  delete(key: string): Promise<void>;
+  // URL recorded on Document.fileUrl; not necessarily publicly reachable
+  urlFor(key: string): string;
+}
+
+// Local filesystem driver for development and tests
+class LocalStorageDriver implements StorageDriver {
+  constructor(private root: string) {}
+
+  private resolve(key: string) {
+    const resolved = path.resolve(this.root, key);
+    if (!resolved.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return resolved;
+  }
+
+  async put(key: string, body: Readable) {
+    const target = this.resolve(key);
+    await mkdir(path.dirname(target), { recursive: true });
+    try {
+      await pipeline(body, createWriteStream(target));
+    } catch (error) {
+      await rm(target, { force: true });
+      throw error;
+    }
+  }
+
+  async get(key: string) {
+    const target = this.resolve(key);
+    try {
+      const { size } = await stat(target);
+      return { body: createReadStream(target), contentLength: size };
+    } catch {
+      return null;
+    }
+  }
+
+  async delete(key: string) {
+    await rm(this.resolve(key), { force: true });
+  }
+
+  urlFor(key: string) {
+    return `file://${this.resolve(key)}`;
+  }
+}
+
+// S3-compatible driver (AWS S3, Cloudflare R2, MinIO)
+class S3StorageDriver implements StorageDriver {
+  private client: S3Client;
+
+  constructor(private bucket: string, private endpoint?: string) {
+    this.client = new S3Client({
+      region: process.env.S3_REGION || "us-east-1",
+      endpoint,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+      credentials: {
+        accessKeyId: process.env.S3_ACCESS_KEY_ID || "",
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || "",
+      },
+    });
+  }
+
+  async put(key: string, body: Readable, contentType: string) {
+    // Multipart upload so large files are streamed rather than buffered
+    const upload = new Upload({
+      client: this.client,
+      params: { Bucket: this.bucket, Key: key, Body: body, ContentType: contentType },
+    });
+    await upload.done();
+  }
+
+  async get(key: string) {
+    try {
+      const object = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      if (!object.Body) return null;
+      return { body: object.Body as Readable, contentLength: object.ContentLength };
+    } catch (error) {
+      if ((error as { name?: string }).name === "NoSuchKey") return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string) {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+
+  urlFor(key: string) {
+    return this.endpoint
+      ? `${this.endpoint.replace(/\/$/, "")}/${this.bucket}/${key}`
+      : `https://${this.bucket}.s3.amazonaws.com/${key}`;
+  }
+}
+
+function createStorage(): StorageDriver {
+  if (process.env.STORAGE_DRIVER === "s3") {
+    if (!process.env.S3_BUCKET) {
+      throw new Error("S3_BUCKET is required when STORAGE_DRIVER=s3");
+    }
+    return new S3StorageDriver(process.env.S3_BUCKET, process.env.S3_ENDPOINT);
+  }
+
+  return new LocalStorageDriver(process.env.STORAGE_LOCAL_DIR || "./storage");
+}
+
+export const storage = createStorage();
+
+// ============================================
+// UPLOAD POLICY
+// ============================================
+
+const MB = 1024 * 1024;
+const PDF = ["application/pdf"];
+const IMAGES = ["image/jpeg", "image/png", "image/webp"];
+
+export const uploadPolicies: Record<DocumentType, { maxBytes: number; mimeTypes: string[] }> = {
+  TRANSCRIPT: { maxBytes: 10 * MB, mimeTypes: [...PDF, ...IMAGES] },
+  CERTIFICATE: { maxBytes: 10 * MB, mimeTypes: [...PDF, ...IMAGES] },
+  CV: { maxBytes: 5 * MB, mimeTypes: PDF },
+  ID_DOCUMENT: { maxBytes: 5 * MB, mimeTypes: [...PDF, ...IMAGES] },
+  RECOMMENDATION: { maxBytes: 5 * MB, mimeTypes: PDF },
+  OTHER: { maxBytes: 10 * MB, mimeTypes: [...PDF, ...IMAGES] },
+};
+
+export function assertUploadAllowed(type: DocumentType, mimeType: string, size?: number) {
+  const policy = uploadPolicies[type];
+
+  if (!policy.mimeTypes.includes(mimeType)) {
+    throw new APIError(400, `File type ${mimeType || "unknown"} is not allowed for ${type}`, "INVALID_FILE_TYPE");
+  }
+
+  if (size !== undefined && size > policy.maxBytes) {
+    throw new APIError(400, `File exceeds the ${policy.maxBytes / MB}MB limit for ${type}`, "FILE_TOO_LARGE");
+  }
+}
+
+// Counts and hashes bytes as they stream through, failing once the limit is exceeded.
+// Readable.from is lazy, so nothing is read until the storage driver consumes it.
+function meter(source: Readable, maxBytes: number) {
+  const hash = createHash("sha256");
+  let size = 0;
+
+  async function* measure() {
+    for await (const chunk of source) {
+      const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+      size += buffer.length;
+      if (size > maxBytes) {
+        source.destroy();
+        throw new APIError(400, `File exceeds the ${maxBytes / MB}MB limit`, "FILE_TOO_LARGE");
+      }
+      hash.update(buffer);
+      yield buffer;
+    }
+  }
+
+  return { stream: Readable.from(measure()), result: () => ({ size, sha256: hash.digest("hex") }) };
+}
+
+export function storageKey(studentId: string, fileName: string, id: string) {
+  const safeName = fileName.replace(/[^a-zA-Z0-9._-]+/g, "_").slice(-100) || "document";
+  return `documents/${studentId}/${id}-${safeName}`;
+}
+
+// Streams a file into storage, enforcing the policy for its document type
+export async function storeDocument(params: {
+  key: string;
+  type: DocumentType;
+  mimeType: string;
+  body: Readable | WebReadableStream<Uint8Array>;
+}) {
+  const { key, type, mimeType } = params;
+  assertUploadAllowed(type, mimeType);
+
+  const source = params.body instanceof Readable ? params.body : Readable.fromWeb(params.body);
+  const metered = meter(source, uploadPolicies[type].maxBytes);
+
+  await storage.put(key, metered.stream, mimeType);
+
+  return {
+    key,
+    url: storage.urlFor(key),
+    ...metered.result(),
+  };
+}
@@ -0,0 +1,520 @@
+import { createHmac } from "crypto";
+import type { Prisma, TeamEventType, TeamInvitation } from "@prisma/client";
+import { db, serializable } from "./db";
+import type { Actor } from "./authorization";
+import { enqueueJob } from "./jobs";
+import { emailTemplates, sendEmailNotification } from "./notifications";
+import { signaturesMatch } from "./signatures";
+import { APIError } from "../middleware/error-handler";
+
+const INVITATION_EXPIRY_DAYS = Number(process.env.INVITATION_EXPIRY_DAYS || 7);
+
+// ============================================
+// TEAMS
+// ============================================
+
+export type Team = { kind: "university"; id: string } | { kind: "employer"; id: string };
+
+// Permission flags each kind of team hands out; ownership is granted by transfer only
+export const TEAM_FLAGS = {
+  university: ["canManagePrograms", "canReviewApplications"],
+  employer: ["canCreatePrograms", "canReviewCandidates", "canApproveHires"],
+} as const;
+
+type PermissionFlag = (typeof TEAM_FLAGS)[keyof typeof TEAM_FLAGS][number];
+export type TeamPermissions = Partial<Record<PermissionFlag, boolean>>;
+
+export type MemberDetails = {
+  title?: string;
+  department?: string;
+  permissions?: TeamPermissions;
+};
+
+// The team a university or employer admin acts for
+export function actingTeam(actor: Actor): Team {
+  if (actor.university) return { kind: "university", id: actor.university.universityId };
+  if (actor.employer) return { kind: "employer", id: actor.employer.employerId };
+  throw new APIError(404, "Team not found", "NOT_FOUND");
+}
+
+function teamWhere(team: Team) {
+  return team.kind === "university" ? { universityId: team.id } : { employerId: team.id };
+}
+
+// Rejects flags that belong to the other kind of team, e.g. canApproveHires for a university
+function teamPermissions(team: Team, permissions: TeamPermissions = {}) {
+  const flags: readonly string[] = TEAM_FLAGS[team.kind];
+
+  for (const flag of Object.keys(permissions)) {
+    if (!flags.includes(flag)) {
+      throw new APIError(400, `${flag} does not apply to ${team.kind} teams`, "INVALID_PERMISSION");
+    }
+  }
+
+  return permissions;
+}
+
+function memberPermissions(team: Team, member: TeamPermissions): TeamPermissions {
+  return Object.fromEntries(TEAM_FLAGS[team.kind].map((flag) => [flag, member[flag]]));
+}
+
+async function recordTeamEvent(
+  tx: Prisma.TransactionClient,
+  team: Team,
+  type: TeamEventType,
+  event: { actorId: string | null; subjectId?: string; invitationId?: string; details?: Prisma.InputJsonValue },
+) {
+  await tx.teamEvent.create({
+    data: { type, ...teamWhere(team), ...event },
+  });
+}
+
+// ============================================
+// MEMBERS
+// ============================================
+
+const memberUser = { select: { id: true, email: true, firstName: true, lastName: true } };
+
+export async function listMembers(team: Team) {
+  const members = team.kind === "university"
+    ? await db.universityAdmin.findMany({
+        where: { universityId: team.id },
+        include: { user: memberUser },
+        orderBy: { createdAt: "asc" },
+      })
+    : await db.employerAdmin.findMany({
+        where: { employerId: team.id },
+        include: { user: memberUser },
+        orderBy: { createdAt: "asc" },
+      });
+
+  return members.map((member) => ({
+    userId: member.userId,
+    user: member.user,
+    title: member.title,
+    department: member.department,
+    isOwner: member.isOwner,
+    permissions: memberPermissions(team, member),
+    joinedAt: member.createdAt,
+  }));
+}
+
+// The team a user already belongs to, if any; a user is on at most one team
+async function currentTeam(tx: Prisma.TransactionClient, userId: string): Promise<Team | null> {
+  const user = await tx.user.findUnique({
+    where: { id: userId },
+    select: {
+      universityAdmin: { select: { universityId: true } },
+      employerAdmin: { select: { employerId: true } },
+    },
+  });
+
+  if (!user) {
+    throw new APIError(404, "User not found", "NOT_FOUND");
+  }
+
+  if (user.universityAdmin) return { kind: "university", id: user.universityAdmin.universityId };
+  if (user.employerAdmin) return { kind: "employer", id: user.employerAdmin.employerId };
+  return null;
+}
+
+function sameTeam(a: Team | null, b: Team) {
+  return a?.kind === b.kind && a.id === b.id;
+}
+
+async function findMember(tx: Prisma.TransactionClient, team: Team, userId: string) {
+  const member = team.kind === "university"
+    ? await tx.universityAdmin.findFirst({ where: { userId, universityId: team.id } })
+    : await tx.employerAdmin.findFirst({ where: { userId, employerId: team.id } });
+
+  if (!member) {
+    throw new APIError(404, "Team member not found", "NOT_FOUND");
+  }
+
+  return member;
+}
+
+async function createMember(tx: Prisma.TransactionClient, team: Team, userId: string, details: MemberDetails) {
+  const { permissions, ...profile } = details;
+  const data = { userId, ...profile, ...teamPermissions(team, permissions) };
+
+  if (team.kind === "university") {
+    await tx.universityAdmin.create({ data: { ...data, universityId: team.id } });
+  } else {
+    await tx.employerAdmin.create({ data: { ...data, employerId: team.id } });
+  }
+
+  await tx.user.update({
+    where: { id: userId },
+    data: { role: team.kind === "university" ? "UNIVERSITY_ADMIN" : "EMPLOYER_ADMIN" },
+  });
+}
+
+async function changeMember(
+  tx: Prisma.TransactionClient,
+  team: Team,
+  userId: string,
+  data: Omit<MemberDetails, "permissions"> & TeamPermissions & { isOwner?: boolean },
+) {
+  return team.kind === "university"
+    ? tx.universityAdmin.update({ where: { userId }, data })
+    : tx.employerAdmin.update({ where: { userId }, data });
+}
+
+// Platform admins attach users to a team directly. Assigning someone already on the team
+// updates their details instead; users on another team must be removed from it first.
+export async function assignMember(
+  actorId: string,
+  team: Team,
+  userId: string,
+  details: MemberDetails & { isOwner?: boolean },
+) {
+  const { isOwner, ...member } = details;
+
+  await serializable(async (tx) => {
+    const existing = await currentTeam(tx, userId);
+
+    if (existing && !sameTeam(existing, team)) {
+      throw new APIError(409, "User already belongs to another team", "ALREADY_ON_TEAM");
+    }
+
+    if (existing) {
+      await updateMemberIn(tx, actorId, team, userId, member);
+    } else {
+      await createMember(tx, team, userId, member);
+      await recordTeamEvent(tx, team, "MEMBER_ADDED", {
+        actorId,
+        subjectId: userId,
+        details: { permissions: teamPermissions(team, member.permissions), assigned: true },
+      });
+    }
+
+    if (isOwner) {
+      await transferOwnershipIn(tx, actorId, team, userId);
+    }
+  });
+}
+
+async function updateMemberIn(
+  tx: Prisma.TransactionClient,
+  actorId: string,
+  team: Team,
+  userId: string,
+  details: MemberDetails,
+) {
+  const before = await findMember(tx, team, userId);
+  const { permissions, ...profile } = details;
+
+  const after = await changeMember(tx, team, userId, { ...profile, ...teamPermissions(team, permissions) });
+
+  await recordTeamEvent(tx, team, "MEMBER_UPDATED", {
+    actorId,
+    subjectId: userId,
+    details: { before: memberPermissions(team, before), after: memberPermissions(team, after) },
+  });
+
+  return { before, after };
+}
+
+export async function updateMember(actor: Actor, team: Team, userId: string, details: MemberDetails) {
+  return serializable((tx) => updateMemberIn(tx, actor.userId, team, userId, details));
+}
+
+async function deleteMember(tx: Prisma.TransactionClient, team: Team, userId: string) {
+  if (team.kind === "university") {
+    await tx.universityAdmin.delete({ where: { userId } });
+  } else {
+    await tx.employerAdmin.delete({ where: { userId } });
+  }
+}
+
+// Removing a member takes away their admin access; they keep their account as a plain user.
+// Returns the membership that was removed.
+export async function removeMember(actor: Actor, team: Team, userId: string) {
+  return serializable(async (tx) => {
+    const member = await findMember(tx, team, userId);
+
+    if (member.isOwner) {
+      throw new APIError(409, "Transfer ownership before removing the team owner", "OWNER_REQUIRED");
+    }
+
+    await deleteMember(tx, team, userId);
+    await tx.user.update({ where: { id: userId }, data: { role: "STUDENT" } });
+
+    await recordTeamEvent(tx, team, "MEMBER_REMOVED", {
+      actorId: actor.userId,
+      subjectId: userId,
+      details: { permissions: memberPermissions(team, member) },
+    });
+
+    return member;
+  });
+}
+
+// Takes a deleted account off its team. An owner leaves the team without one until a
+// platform admin assigns a new owner.
+export async function leaveTeam(tx: Prisma.TransactionClient, userId: string) {
+  const team = await currentTeam(tx, userId);
+  if (!team) return;
+
+  const member = await findMember(tx, team, userId);
+  await deleteMember(tx, team, userId);
+
+  await recordTeamEvent(tx, team, "MEMBER_REMOVED", {
+    actorId: null,
+    subjectId: userId,
+    details: { permissions: memberPermissions(team, member), wasOwner: member.isOwner, accountDeleted: true },
+  });
+}
+
+// Returns the new owner's membership before and after the transfer
+async function transferOwnershipIn(tx: Prisma.TransactionClient, actorId: string, team: Team, userId: string) {
+  const member = await findMember(tx, team, userId);
+  if (member.isOwner) return { before: member, after: member };
+
+  const previous = team.kind === "university"
+    ? await tx.universityAdmin.findFirst({ where: { universityId: team.id, isOwner: true } })
+    : await tx.employerAdmin.findFirst({ where: { employerId: team.id, isOwner: true } });
+
+  if (previous) {
+    await changeMember(tx, team, previous.userId, { isOwner: false });
+  }
+
+  const after = await changeMember(tx, team, userId, { isOwner: true });
+
+  await recordTeamEvent(tx, team, "OWNERSHIP_TRANSFERRED", {
+    actorId,
+    subjectId: userId,
+    details: { from: previous?.userId ?? null, to: userId },
+  });
+
+  return { before: member, after };
+}
+
+export async function transferOwnership(actor: Actor, team: Team, userId: string) {
+  return serializable((tx) => transferOwnershipIn(tx, actor.userId, team, userId));
+}
+
+// ============================================
+// INVITATIONS
+// ============================================
+
+function invitationSecret() {
+  const secret = process.env.INVITATION_SECRET;
+  if (!secret) {
+    throw new Error("INVITATION_SECRET is not configured");
+  }
+  return secret;
+}
+
+function invitationSignature(invitation: Pick<TeamInvitation, "id" | "expiresAt">) {
+  return createHmac("sha256", invitationSecret())
+    .update(`${invitation.id}.${invitation.expiresAt.getTime()}`)
+    .digest("base64url");
+}
+
+// The expiry is part of what is signed, so re-sending an invitation invalidates earlier links
+export function invitationToken(invitation: Pick<TeamInvitation, "id" | "expiresAt">) {
+  return `${invitation.id}.${invitationSignature(invitation)}`;
+}
+
+export async function listInvitations(team: Team, status?: TeamInvitation["status"]) {
+  return db.teamInvitation.findMany({
+    where: { ...teamWhere(team), ...(status && { status }) },
+    include: { invitedBy: memberUser },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+// Inviting an address that already has a pending invitation re-sends it with the new details
+export async function inviteMember(actor: Actor, team: Team, email: string, details: MemberDetails) {
+  const normalized = email.trim().toLowerCase();
+  const { permissions, ...profile } = details;
+  const expiresAt = new Date(Date.now() + INVITATION_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+
+  return serializable(async (tx) => {
+    const user = await tx.user.findUnique({ where: { email: normalized }, select: { id: true } });
+
+    if (user) {
+      const existing = await currentTeam(tx, user.id);
+      if (sameTeam(existing, team)) {
+        throw new APIError(409, "Already a member of this team", "ALREADY_ON_TEAM");
+      }
+      if (existing) {
+        throw new APIError(409, "User already belongs to another team", "ALREADY_ON_TEAM");
+      }
+    }
+
+    const data = {
+      ...profile,
+      permissions: teamPermissions(team, permissions),
+      expiresAt,
+      invitedById: actor.userId,
+    };
+
+    const pending = await tx.teamInvitation.findFirst({
+      where: { ...teamWhere(team), email: normalized, status: "PENDING" },
+    });
+
+    const invitation = pending
+      ? await tx.teamInvitation.update({ where: { id: pending.id }, data })
+      : await tx.teamInvitation.create({ data: { ...data, ...teamWhere(team), email: normalized } });
+
+    await recordTeamEvent(tx, team, "INVITATION_SENT", {
+      actorId: actor.userId,
+      subjectId: user?.id,
+      invitationId: invitation.id,
+      details: { email: normalized, permissions: data.permissions, resent: !!pending },
+    });
+
+    await enqueueJob("invitation.send", { invitationId: invitation.id }, {}, tx);
+
+    return invitation;
+  });
+}
+
+export async function revokeInvitation(actor: Actor, team: Team, invitationId: string) {
+  return serializable(async (tx) => {
+    const invitation = await tx.teamInvitation.findFirst({
+      where: { id: invitationId, ...teamWhere(team) },
+    });
+
+    if (!invitation) {
+      throw new APIError(404, "Invitation not found", "NOT_FOUND");
+    }
+
+    if (invitation.status !== "PENDING") {
+      throw new APIError(409, `Invitation is already ${invitation.status.toLowerCase()}`, "INVITATION_CLOSED");
+    }
+
+    const revoked = await tx.teamInvitation.update({
+      where: { id: invitationId },
+      data: { status: "REVOKED", revokedAt: new Date() },
+    });
+
+    await recordTeamEvent(tx, team, "INVITATION_REVOKED", {
+      actorId: actor.userId,
+      invitationId,
+      details: { email: invitation.email },
+    });
+
+    return revoked;
+  });
+}
+
+// Joins the signed-in user to the team they were invited to. The invitation must be
+// addressed to their account's email and still be pending.
+export async function acceptInvitation(userId: string, token: string) {
+  const [invitationId, signature] = token.split(".");
+
+  return serializable(async (tx) => {
+    const invitation = invitationId
+      ? await tx.teamInvitation.findUnique({ where: { id: invitationId } })
+      : null;
+
+    if (!invitation || !signaturesMatch(invitationSignature(invitation), signature)) {
+      throw new APIError(404, "Invitation not found", "NOT_FOUND");
+    }
+
+    if (invitation.status !== "PENDING") {
+      throw new APIError(409, `Invitation is already ${invitation.status.toLowerCase()}`, "INVITATION_CLOSED");
+    }
+
+    if (invitation.expiresAt < new Date()) {
+      throw new APIError(409, "Invitation has expired", "INVITATION_EXPIRED");
+    }
+
+    const user = await tx.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { email: true, emailVerified: true, role: true, student: { select: { id: true } } },
+    });
+
+    if (user.email.toLowerCase() !== invitation.email) {
+      throw new APIError(403, "This invitation was sent to a different email address", "FORBIDDEN");
+    }
+
+    // Otherwise anyone could sign up with the invited address and take the seat
+    if (!user.emailVerified) {
+      throw new APIError(403, "Verify your email address before accepting this invitation", "EMAIL_NOT_VERIFIED");
+    }
+
+    // Admin access replaces the account's role, so accounts in use elsewhere cannot join
+    if (user.role === "PLATFORM_ADMIN" || user.student || (await currentTeam(tx, userId))) {
+      throw new APIError(409, "This account cannot join a team; sign in with a separate account", "ALREADY_ON_TEAM");
+    }
+
+    const team: Team = invitation.universityId
+      ? { kind: "university", id: invitation.universityId }
+      : { kind: "employer", id: invitation.employerId! };
+
+    await createMember(tx, team, userId, {
+      title: invitation.title ?? undefined,
+      department: invitation.department ?? undefined,
+      permissions: invitation.permissions as TeamPermissions,
+    });
+
+    await tx.teamInvitation.update({
+      where: { id: invitation.id },
+      data: { status: "ACCEPTED", acceptedById: userId, acceptedAt: new Date() },
+    });
+
+    await recordTeamEvent(tx, team, "MEMBER_ADDED", {
+      actorId: userId,
+      subjectId: userId,
+      invitationId: invitation.id,
+      details: { permissions: invitation.permissions as Prisma.InputJsonValue },
+    });
+
+    return team;
+  });
+}
+
+export async function sendInvitationEmail(invitationId: string) {
+  const invitation = await db.teamInvitation.findUnique({
+    where: { id: invitationId },
+    include: {
+      university: { select: { name: true } },
+      employer: { select: { name: true } },
+      invitedBy: { select: { firstName: true, lastName: true, email: true } },
+    },
+  });
+
+  // Revoked or accepted before the job ran
+  if (!invitation || invitation.status !== "PENDING") return;
+
+  const teamName = invitation.university?.name ?? invitation.employer?.name ?? "Workstream";
+  const { firstName, lastName, email } = invitation.invitedBy;
+  const inviter = [firstName, lastName].filter(Boolean).join(" ") || email;
+  const link = `${process.env.FRONTEND_URL || "http://localhost:3001"}/invitations/accept?token=${invitationToken(invitation)}`;
+
+  const result = await sendEmailNotification(
+    invitation.email,
+    `You've been invited to join ${teamName} on Workstream`,
+    emailTemplates.teamInvitation(teamName, inviter, link, invitation.expiresAt.toDateString()),
+  );
+
+  if (!result && process.env.RESEND_API_KEY) {
+    throw new Error(`Failed to send invitation ${invitation.id}`);
+  }
+}
+
+// ============================================
+// AUDIT TRAIL
+// ============================================
+
+export async function listTeamEvents(team: Team, page: number, limit: number) {
+  const where = teamWhere(team);
+
+  const [events, total] = await Promise.all([
+    db.teamEvent.findMany({
+      where,
+      include: { actor: memberUser, subject: memberUser },
+      skip: (page - 1) * limit,
+      take: limit,
+      orderBy: { createdAt: "desc" },
+    }),
+    db.teamEvent.count({ where }),
+  ]);
+
+  return { events, total };
+}
@@ -0,0 +1,86 @@
+import type { Prisma } from "@prisma/client";
+import { APIError } from "../middleware/error-handler";
+
+// Waitlists are kept per program and cohort; a null cohort is the program-wide list
+type WaitlistScope = { programId: string; cohortId: string | null };
+
+function scopeWhere({ programId, cohortId }: WaitlistScope) {
+  return { programId, cohortId, status: "WAITLISTED" as const };
+}
+
+// Puts the application at the end of its waitlist
+export async function appendToWaitlist(tx: Prisma.TransactionClient, applicationId: string, scope: WaitlistScope) {
+  const last = await tx.application.aggregate({
+    where: scopeWhere(scope),
+    _max: { waitlistPosition: true },
+  });
+
+  await tx.application.update({
+    where: { id: applicationId },
+    data: {
+      waitlistPosition: (last._max.waitlistPosition ?? 0) + 1,
+      waitlistedAt: new Date(),
+    },
+  });
+}
+
+// Clears the application's position and closes the gap behind it
+export async function removeFromWaitlist(
+  tx: Prisma.TransactionClient,
+  applicationId: string,
+  scope: WaitlistScope,
+  position: number | null
+) {
+  await tx.application.update({
+    where: { id: applicationId },
+    data: { waitlistPosition: null },
+  });
+
+  if (position === null) return;
+
+  await tx.application.updateMany({
+    where: { ...scopeWhere(scope), waitlistPosition: { gt: position } },
+    data: { waitlistPosition: { decrement: 1 } },
+  });
+}
+
+// Next application to promote when a seat frees up: same cohort first, then program-wide
+export async function nextOnWaitlist(tx: Prisma.TransactionClient, scope: WaitlistScope) {
+  const scopes = scope.cohortId ? [scope, { ...scope, cohortId: null }] : [scope];
+
+  for (const candidateScope of scopes) {
+    const next = await tx.application.findFirst({
+      where: scopeWhere(candidateScope),
+      orderBy: [{ waitlistPosition: "asc" }, { waitlistedAt: "asc" }],
+    });
+    if (next) return next;
+  }
+
+  return null;
+}
+
+// Rewrites positions to follow the given order; the list must contain every waitlisted application
+export async function reorderWaitlist(tx: Prisma.TransactionClient, scope: WaitlistScope, applicationIds: string[]) {
+  const waitlisted = await tx.application.findMany({
+    where: scopeWhere(scope),
+    select: { id: true },
+  });
+
+  const expected = new Set(waitlisted.map((application) => application.id));
+  const provided = new Set(applicationIds);
+
+  if (
+    provided.size !== applicationIds.length ||
+    provided.size !== expected.size ||
+    applicationIds.some((id) => !expected.has(id))
+  ) {
+    throw new APIError(400, "Order must list every waitlisted application exactly once", "INVALID_WAITLIST_ORDER");
+  }
+
+  for (const [index, id] of applicationIds.entries()) {
+    await tx.application.update({
+      where: { id },
+      data: { waitlistPosition: index + 1 },
+    });
+  }
+}
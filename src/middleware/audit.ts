@@ -0,0 +1,78 @@
+import { getConnInfo } from "@hono/node-server/conninfo";
+import type { Context, Next } from "hono";
+import { routePath } from "hono/route";
+import { recordAudit, type AuditChange } from "../lib/audit";
+import type { AppEnv } from "./auth";
+
+const READ_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+// A user's own inbox is not platform data, so reading and clearing it is not audited
+const UNAUDITED_PREFIXES = ["/api/v1/notifications", "/api/v1/messages"];
+
+// Adds the entity and its before/after state to the request's audit entry. Routes that do
+// not call this are still recorded, with the entity derived from the route.
+export function auditChange(c: Context<AppEnv>, change: AuditChange) {
+  c.set("audit", { ...c.get("audit"), ...change });
+}
+
+// Load balancers and reverse proxies in front of the API, whose X-Forwarded-For is believed
+const TRUSTED_PROXIES = new Set(
+  (process.env.TRUSTED_PROXIES || "").split(",").map(normalizeIp).filter(Boolean),
+);
+
+// Node reports IPv4 clients of a dual-stack socket as ::ffff:1.2.3.4
+function normalizeIp(address: string) {
+  return address.trim().replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/, "");
+}
+
+// The client's address. Anyone can send X-Forwarded-For, so it is only read when the request
+// came from a trusted proxy, and then from the right: the last hop that is not one of ours.
+function clientIp(c: Context<AppEnv>) {
+  let remote: string | undefined;
+  try {
+    remote = getConnInfo(c).remote.address;
+  } catch {
+    return undefined;
+  }
+
+  if (!remote || !TRUSTED_PROXIES.has(normalizeIp(remote))) return remote;
+
+  const hops = (c.req.header("X-Forwarded-For") ?? "").split(",").map(normalizeIp).filter(Boolean);
+  return hops.reverse().find((hop) => !TRUSTED_PROXIES.has(hop)) ?? remote;
+}
+
+// Records every successful change made by a platform, university or employer admin, or an
+// API key acting for one. Runs after the route so failed requests are left out and the
+// route's auditChange details are available. A failure to record is logged rather than
+// failing a change that has already been made.
+export const auditTrail = async (c: Context<AppEnv>, next: Next) => {
+  await next();
+
+  const auth = c.get("auth");
+
+  if (READ_METHODS.has(c.req.method) || !auth || auth.role === "STUDENT" || c.error || c.res.status >= 400) {
+    return;
+  }
+
+  const path = routePath(c);
+  if (UNAUDITED_PREFIXES.some((prefix) => path.startsWith(prefix))) return;
+
+  try {
+    await recordAudit(
+      {
+        actorId: auth.userId,
+        actorRole: auth.role,
+        apiKeyId: auth.apiKey?.id,
+        method: c.req.method,
+        path,
+        params: c.req.param() as Record<string, string>,
+        status: c.res.status,
+        ip: clientIp(c),
+        userAgent: c.req.header("User-Agent"),
+      },
+      c.get("audit"),
+    );
+  } catch (error) {
+    console.error(`Failed to record audit log for ${c.req.method} ${path}:`, error);
+  }
+};
@@ -1,21 +1,36 @@
-import { verifyToken } from "@clerk/backend";
+import type { UserRole } from "@prisma/client";
 import type { Context, Next } from "hono";
+import { matchedRoutes } from "hono/route";
 import { APIError } from "./error-handler";
-import { db } from "../lib/db";
+import type { AuditChange } from "../lib/audit";
+import { authenticateApiKey } from "../lib/api-keys";
+import { authProvider, findOrProvisionUser, isSessionEnded, type Identity } from "../lib/auth-providers";
+import { authorize, loadActor, type Action, type Actor } from "../lib/authorization";
 
 export type AuthContext = {
   userId: string;
   clerkUserId: string;
-  role: string;
+  role: UserRole;
+  // Set when the request authenticated with an X-API-Key; userId is then the key's service account
+  apiKey?: {
+    id: string;
+    scopes: string[];
+    universityId: string | null;
+    employerId: string | null;
+  };
 };
 
 export type AppEnv = {
   Variables: {
     auth: AuthContext;
+    actor: Actor;
+    // Details for the request's audit entry, set with auditChange
+    audit: AuditChange;
   };
 };
 
-export const requireAuth = async (c: Context<AppEnv>, next: Next) => {
+// Verifies the bearer token with the configured auth provider (Clerk, or local JWTs in development)
+export async function verifyBearerToken(c: Context<AppEnv>): Promise<Identity> {
   const authHeader = c.req.header("Authorization");
 
   if (!authHeader?.startsWith("Bearer ")) {
@@ -24,40 +39,83 @@ export const requireAuth = async (c: Context<AppEnv>, next: Next) => {
 
   const token = authHeader.split(" ")[1];
 
+  let identity: Identity;
   try {
-    const payload = await verifyToken(token, {
-      secretKey: process.env.CLERK_SECRET_KEY!,
-    });
-    
-    if (!payload.sub) {
-      throw new APIError(401, "Invalid token", "INVALID_TOKEN");
-    }
+    identity = await authProvider.verify(token);
+  } catch (error) {
+    if (error instanceof APIError) throw error;
+    throw new APIError(401, "Invalid or expired token", "INVALID_TOKEN");
+  }
 
-    // Get or create user in our database
-    const user = await db.user.findUnique({
-      where: { clerkId: payload.sub },
-    });
+  if (await isSessionEnded(identity)) {
+    throw new APIError(401, "Session has ended", "SESSION_ENDED");
+  }
 
-    if (!user) {
-      throw new APIError(401, "User not found", "USER_NOT_FOUND");
-    }
+  return identity;
+}
+
+// Every middleware made by requirePermission, so requireAuth can tell which routes check one
+const permissionChecks = new WeakSet<object>();
+
+// Whether the route being handled runs requirePermission
+function checksPermission(c: Context<AppEnv>) {
+  const routes = matchedRoutes(c);
+  const current = routes[c.req.routeIndex];
+
+  return routes.some(
+    (route) => route.path === current.path && route.method === current.method && permissionChecks.has(route.handler)
+  );
+}
+
+// Partner integrations send X-API-Key instead of a user's bearer token. A key is limited to
+// the actions its scopes grant, which only requirePermission enforces, so routes without one
+// (a user's own inbox, messages and profile) refuse keys.
+export const requireAuth = async (c: Context<AppEnv>, next: Next) => {
+  const key = c.req.header("X-API-Key");
 
-    if (!user.isActive) {
-      throw new APIError(403, "Account is deactivated", "ACCOUNT_DEACTIVATED");
+  if (key) {
+    if (!checksPermission(c)) {
+      throw new APIError(403, "API keys cannot be used on this route", "API_KEY_NOT_ALLOWED");
     }
 
-    // Set auth context
+    const apiKey = await authenticateApiKey(key);
+
     c.set("auth", {
-      userId: user.id,
-      clerkUserId: payload.sub,
-      role: user.role,
+      userId: apiKey.serviceAccountId,
+      clerkUserId: apiKey.serviceAccount.clerkId,
+      role: apiKey.serviceAccount.role,
+      apiKey: {
+        id: apiKey.id,
+        scopes: apiKey.scopes,
+        universityId: apiKey.universityId,
+        employerId: apiKey.employerId,
+      },
     });
 
-    await next();
-  } catch (error) {
-    if (error instanceof APIError) throw error;
-    throw new APIError(401, "Invalid or expired token", "INVALID_TOKEN");
+    return next();
+  }
+
+  const identity = await verifyBearerToken(c);
+
+  // Get or create user in our database
+  const user = await findOrProvisionUser(identity);
+
+  if (!user) {
+    throw new APIError(401, "User not found", "USER_NOT_FOUND");
   }
+
+  if (!user.isActive) {
+    throw new APIError(403, "Account is deactivated", "ACCOUNT_DEACTIVATED");
+  }
+
+  // Set auth context
+  c.set("auth", {
+    userId: user.id,
+    clerkUserId: identity.subject,
+    role: user.role,
+  });
+
+  await next();
 };
 
 export const requireRole = (...roles: string[]) => {
@@ -75,3 +133,24 @@ export const requireRole = (...roles: string[]) => {
     await next();
   };
 };
+
+// Checks the policy allows the action at all and makes the actor available to the route,
+// which still authorizes the specific resource once it has loaded it
+export const requirePermission = (action: Action) => {
+  const middleware = async (c: Context<AppEnv>, next: Next) => {
+    const auth = c.get("auth");
+
+    if (!auth) {
+      throw new APIError(401, "Not authenticated", "UNAUTHORIZED");
+    }
+
+    const actor = c.get("actor") ?? await loadActor(auth);
+    authorize(actor, action);
+    c.set("actor", actor);
+
+    await next();
+  };
+
+  permissionChecks.add(middleware);
+  return middleware;
+};
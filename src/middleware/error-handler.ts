@@ -20,7 +20,7 @@ export const errorHandler = (err: Error, c: Context) => {
         error: err.message,
         code: err.code,
       },
-      err.statusCode as 400 | 401 | 403 | 404 | 500
+      err.statusCode as 400 | 401 | 403 | 404 | 409 | 500 | 502
     );
   }
 
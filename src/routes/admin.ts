@@ -1,13 +1,29 @@
 import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { z } from "zod";
-import { db } from "../lib/db";
-import { requireAuth, requireRole, type AppEnv } from "../middleware/auth";
+import { ClerkEventStatus, JobStatus, PaymentStatus, type Prisma } from "@prisma/client";
+import { entityTimeline, listAuditLogs } from "../lib/audit";
+import { db, serializable } from "../lib/db";
+import { REPLAYABLE_STATUSES, replayClerkEvents, resyncClerkUsers } from "../lib/clerk-events";
+import { documentExtractors } from "../lib/document-extractors";
+import {
+  createDiscountCode,
+  discountCodeSchema,
+  discountCodeUsage,
+  feeWaiverDecisionSchema,
+  reviewFeeWaiver
+} from "../lib/fees";
+import { reconciliationReport } from "../lib/reconciliation";
+import { requestRefund } from "../lib/refunds";
+import { resizeProgramSlots } from "../lib/slots";
+import { assignMember } from "../lib/teams";
+import { auditChange } from "../middleware/audit";
+import { requireAuth, requirePermission, type AppEnv } from "../middleware/auth";
 
 export const adminRoutes = new Hono<AppEnv>();
 
 // Get admin dashboard stats
-adminRoutes.get("/dashboard", requireAuth, requireRole("PLATFORM_ADMIN"), async (c) => {
+adminRoutes.get("/dashboard", requireAuth, requirePermission("platform.manage"), async (c) => {
   const [
     totalUsers,
     totalStudents,
@@ -59,7 +75,7 @@ adminRoutes.get("/dashboard", requireAuth, requireRole("PLATFORM_ADMIN"), async
 });
 
 // List all users
-adminRoutes.get("/users", requireAuth, requireRole("PLATFORM_ADMIN"), async (c) => {
+adminRoutes.get("/users", requireAuth, requirePermission("platform.manage"), async (c) => {
   const page = parseInt(c.req.query("page") || "1");
   const limit = parseInt(c.req.query("limit") || "20");
   const role = c.req.query("role") as "STUDENT" | "UNIVERSITY_ADMIN" | "EMPLOYER_ADMIN" | "PLATFORM_ADMIN" | undefined;
@@ -110,7 +126,7 @@ adminRoutes.get("/users", requireAuth, requireRole("PLATFORM_ADMIN"), async (c)
 });
 
 // Get single user
-adminRoutes.get("/users/:id", requireAuth, requireRole("PLATFORM_ADMIN"), async (c) => {
+adminRoutes.get("/users/:id", requireAuth, requirePermission("platform.manage"), async (c) => {
   const userId = c.req.param("id");
 
   const user = await db.user.findUnique({
@@ -131,7 +147,9 @@ adminRoutes.get("/users/:id", requireAuth, requireRole("PLATFORM_ADMIN"), async
     return c.json({ error: "User not found" }, 404);
   }
 
-  return c.json({ user });
+  const auditLog = await entityTimeline("user", userId);
+
+  return c.json({ user, auditLog });
 });
 
 // Update user
@@ -143,23 +161,27 @@ const updateUserSchema = z.object({
 adminRoutes.patch(
   "/users/:id",
   requireAuth,
-  requireRole("PLATFORM_ADMIN"),
+  requirePermission("platform.manage"),
   zValidator("json", updateUserSchema),
   async (c) => {
     const userId = c.req.param("id");
     const data = c.req.valid("json");
 
+    const before = await db.user.findUnique({ where: { id: userId } });
+
     const user = await db.user.update({
       where: { id: userId },
       data
     });
 
+    auditChange(c, { entityType: "user", entityId: userId, before, after: user });
+
     return c.json({ user });
   }
 );
 
 // List all universities
-adminRoutes.get("/universities", requireAuth, requireRole("PLATFORM_ADMIN"), async (c) => {
+adminRoutes.get("/universities", requireAuth, requirePermission("platform.manage"), async (c) => {
   const universities = await db.university.findMany({
     orderBy: { name: "asc" },
     include: {
@@ -186,7 +208,7 @@ const createUniversitySchema = z.object({
 adminRoutes.post(
   "/universities",
   requireAuth,
-  requireRole("PLATFORM_ADMIN"),
+  requirePermission("platform.manage"),
   zValidator("json", createUniversitySchema),
   async (c) => {
     const data = c.req.valid("json");
@@ -198,25 +220,31 @@ adminRoutes.post(
       }
     });
 
+    auditChange(c, { entityId: university.id, after: university });
+
     return c.json({ university }, 201);
   }
 );
 
 // Update university
-adminRoutes.patch("/universities/:id", requireAuth, requireRole("PLATFORM_ADMIN"), async (c) => {
+adminRoutes.patch("/universities/:id", requireAuth, requirePermission("platform.manage"), async (c) => {
   const universityId = c.req.param("id");
   const data = await c.req.json();
 
+  const before = await db.university.findUnique({ where: { id: universityId } });
+
   const university = await db.university.update({
     where: { id: universityId },
     data
   });
 
+  auditChange(c, { before, after: university });
+
   return c.json({ university });
 });
 
 // List all employers
-adminRoutes.get("/employers", requireAuth, requireRole("PLATFORM_ADMIN"), async (c) => {
+adminRoutes.get("/employers", requireAuth, requirePermission("platform.manage"), async (c) => {
   const employers = await db.employer.findMany({
     orderBy: { name: "asc" },
     include: {
@@ -244,7 +272,7 @@ const createEmployerSchema = z.object({
 adminRoutes.post(
   "/employers",
   requireAuth,
-  requireRole("PLATFORM_ADMIN"),
+  requirePermission("platform.manage"),
   zValidator("json", createEmployerSchema),
   async (c) => {
     const data = c.req.valid("json");
@@ -256,25 +284,31 @@ adminRoutes.post(
       }
     });
 
+    auditChange(c, { entityId: employer.id, after: employer });
+
     return c.json({ employer }, 201);
   }
 );
 
 // Update employer
-adminRoutes.patch("/employers/:id", requireAuth, requireRole("PLATFORM_ADMIN"), async (c) => {
+adminRoutes.patch("/employers/:id", requireAuth, requirePermission("platform.manage"), async (c) => {
   const employerId = c.req.param("id");
   const data = await c.req.json();
 
+  const before = await db.employer.findUnique({ where: { id: employerId } });
+
   const employer = await db.employer.update({
     where: { id: employerId },
     data
   });
 
+  auditChange(c, { before, after: employer });
+
   return c.json({ employer });
 });
 
 // List all programs (with admin controls)
-adminRoutes.get("/programs", requireAuth, requireRole("PLATFORM_ADMIN"), async (c) => {
+adminRoutes.get("/programs", requireAuth, requirePermission("platform.manage"), async (c) => {
   const page = parseInt(c.req.query("page") || "1");
   const limit = parseInt(c.req.query("limit") || "20");
   const status = c.req.query("status") as "DRAFT" | "OPEN" | "CLOSED" | "IN_PROGRESS" | "COMPLETED" | "CANCELLED" | undefined;
@@ -311,12 +345,41 @@ adminRoutes.get("/programs", requireAuth, requireRole("PLATFORM_ADMIN"), async (
 });
 
 // Create program (admin)
+const createProgramSchema = z.object({
+  title: z.string().min(5),
+  description: z.string().min(20),
+  shortDescription: z.string().optional(),
+  universityId: z.string(),
+  employerId: z.string(),
+  field: z.string(),
+  specialization: z.string().optional(),
+  jobRole: z.string(),
+  totalSlots: z.number().int().min(1),
+  waitlistEnabled: z.boolean().optional(),
+  applicationDeadline: z.string().datetime({ offset: true }),
+  startDate: z.string().datetime({ offset: true }),
+  endDate: z.string().datetime({ offset: true }),
+  durationWeeks: z.number().min(1),
+  minEducation: z.string().optional(),
+  requiredGrades: z.record(z.string()).optional(),
+  additionalRequirements: z.array(z.string()).optional(),
+  applicationFee: z.number().min(0).optional(),
+  paymentProvider: z.enum(["paystack", "flutterwave"]).optional(),
+  isFunded: z.boolean().optional(),
+  stipendAmount: z.number().optional(),
+  stipendMinAttendance: z.number().min(0).max(100).optional(),
+  hasInternship: z.boolean().optional(),
+  internshipDuration: z.number().optional(),
+  tags: z.array(z.string()).optional()
+});
+
 adminRoutes.post(
   "/programs",
   requireAuth,
-  requireRole("PLATFORM_ADMIN"),
+  requirePermission("platform.manage"),
+  zValidator("json", createProgramSchema),
   async (c) => {
-    const data = await c.req.json();
+    const data = c.req.valid("json");
 
     const slug = `${data.title.toLowerCase().replace(/[^a-z0-9]+/g, "-")}-${Date.now().toString(36)}`;
 
@@ -335,40 +398,69 @@ adminRoutes.post(
       }
     });
 
+    auditChange(c, { entityId: program.id, after: program });
+
     return c.json({ program }, 201);
   }
 );
 
-// Update program (admin)
-adminRoutes.patch("/programs/:id", requireAuth, requireRole("PLATFORM_ADMIN"), async (c) => {
-  const programId = c.req.param("id");
-  const data = await c.req.json();
+// Update program (admin). The owning university and employer, status and slot counters are
+// not editable here.
+const updateProgramSchema = createProgramSchema.omit({ universityId: true, employerId: true }).partial();
 
-  const program = await db.program.update({
-    where: { id: programId },
-    data: {
-      ...data,
-      applicationDeadline: data.applicationDeadline ? new Date(data.applicationDeadline) : undefined,
-      startDate: data.startDate ? new Date(data.startDate) : undefined,
-      endDate: data.endDate ? new Date(data.endDate) : undefined
-    },
-    include: {
-      university: true,
-      employer: true
+adminRoutes.patch(
+  "/programs/:id",
+  requireAuth,
+  requirePermission("platform.manage"),
+  zValidator("json", updateProgramSchema),
+  async (c) => {
+    const programId = c.req.param("id");
+    const { totalSlots, ...data } = c.req.valid("json");
+
+    const before = await db.program.findUnique({ where: { id: programId } });
+
+    if (!before) {
+      return c.json({ error: "Program not found" }, 404);
     }
-  });
 
-  return c.json({ program });
-});
+    // Resized in the same transaction so a concurrent reservation cannot skew availableSlots
+    const program = await serializable(async (tx) => {
+      const slots = totalSlots === undefined
+        ? {}
+        : { totalSlots, availableSlots: await resizeProgramSlots(tx, programId, totalSlots) };
+
+      return tx.program.update({
+        where: { id: programId },
+        data: {
+          ...data,
+          ...slots,
+          applicationDeadline: data.applicationDeadline ? new Date(data.applicationDeadline) : undefined,
+          startDate: data.startDate ? new Date(data.startDate) : undefined,
+          endDate: data.endDate ? new Date(data.endDate) : undefined
+        },
+        include: {
+          university: true,
+          employer: true
+        }
+      });
+    });
+
+    auditChange(c, { before, after: program });
+
+    return c.json({ program });
+  }
+);
 
 // Delete program (admin only)
-adminRoutes.delete("/programs/:id", requireAuth, requireRole("PLATFORM_ADMIN"), async (c) => {
+adminRoutes.delete("/programs/:id", requireAuth, requirePermission("platform.manage"), async (c) => {
   const programId = c.req.param("id");
 
-  await db.program.delete({
+  const before = await db.program.delete({
     where: { id: programId }
   });
 
+  auditChange(c, { before });
+
   return c.json({ success: true });
 });
 
@@ -379,39 +471,37 @@ const assignUniversityAdminSchema = z.object({
   title: z.string().optional(),
   department: z.string().optional(),
   canManagePrograms: z.boolean().default(true),
-  canReviewApplications: z.boolean().default(true)
+  canReviewApplications: z.boolean().default(true),
+  isOwner: z.boolean().default(false)
 });
 
+// Assigning a user already on the team updates their permissions
 adminRoutes.post(
   "/assign/university-admin",
   requireAuth,
-  requireRole("PLATFORM_ADMIN"),
+  requirePermission("platform.manage"),
   zValidator("json", assignUniversityAdminSchema),
   async (c) => {
-    const data = c.req.valid("json");
+    const auth = c.get("auth");
+    const { userId, universityId, title, department, isOwner, ...permissions } = c.req.valid("json");
 
-    // Update user role
-    await db.user.update({
-      where: { id: data.userId },
-      data: { role: "UNIVERSITY_ADMIN" }
+    await assignMember(auth.userId, { kind: "university", id: universityId }, userId, {
+      title,
+      department,
+      permissions,
+      isOwner
     });
 
-    // Create university admin record
-    const universityAdmin = await db.universityAdmin.create({
-      data: {
-        userId: data.userId,
-        universityId: data.universityId,
-        title: data.title,
-        department: data.department,
-        canManagePrograms: data.canManagePrograms,
-        canReviewApplications: data.canReviewApplications
-      },
+    const universityAdmin = await db.universityAdmin.findUnique({
+      where: { userId },
       include: {
         user: true,
         university: true
       }
     });
 
+    auditChange(c, { action: "universityAdmin.assign", entityType: "user", entityId: userId, after: universityAdmin });
+
     return c.json({ universityAdmin }, 201);
   }
 );
@@ -424,46 +514,218 @@ const assignEmployerAdminSchema = z.object({
   department: z.string().optional(),
   canCreatePrograms: z.boolean().default(false),
   canReviewCandidates: z.boolean().default(true),
-  canApproveHires: z.boolean().default(false)
+  canApproveHires: z.boolean().default(false),
+  isOwner: z.boolean().default(false)
 });
 
 adminRoutes.post(
   "/assign/employer-admin",
   requireAuth,
-  requireRole("PLATFORM_ADMIN"),
+  requirePermission("platform.manage"),
   zValidator("json", assignEmployerAdminSchema),
   async (c) => {
-    const data = c.req.valid("json");
+    const auth = c.get("auth");
+    const { userId, employerId, title, department, isOwner, ...permissions } = c.req.valid("json");
 
-    // Update user role
-    await db.user.update({
-      where: { id: data.userId },
-      data: { role: "EMPLOYER_ADMIN" }
+    await assignMember(auth.userId, { kind: "employer", id: employerId }, userId, {
+      title,
+      department,
+      permissions,
+      isOwner
     });
 
-    // Create employer admin record
-    const employerAdmin = await db.employerAdmin.create({
-      data: {
-        userId: data.userId,
-        employerId: data.employerId,
-        title: data.title,
-        department: data.department,
-        canCreatePrograms: data.canCreatePrograms,
-        canReviewCandidates: data.canReviewCandidates,
-        canApproveHires: data.canApproveHires
-      },
+    const employerAdmin = await db.employerAdmin.findUnique({
+      where: { userId },
       include: {
         user: true,
         employer: true
       }
     });
 
+    auditChange(c, { action: "employerAdmin.assign", entityType: "user", entityId: userId, after: employerAdmin });
+
     return c.json({ employerAdmin }, 201);
   }
 );
 
+// Documents waiting for manual verification
+adminRoutes.get("/documents/review", requireAuth, requirePermission("platform.manage"), async (c) => {
+  const page = parseInt(c.req.query("page") || "1");
+  const limit = parseInt(c.req.query("limit") || "20");
+  const type = c.req.query("type") as "TRANSCRIPT" | "CERTIFICATE" | "CV" | "ID_DOCUMENT" | "RECOMMENDATION" | "OTHER" | undefined;
+
+  const whereClause = {
+    verificationStatus: "NEEDS_REVIEW" as const,
+    ...(type && { type })
+  };
+
+  const [documents, total] = await Promise.all([
+    db.document.findMany({
+      where: whereClause,
+      skip: (page - 1) * limit,
+      take: limit,
+      orderBy: { uploadedAt: "asc" },
+      include: {
+        student: {
+          include: { user: { select: { firstName: true, lastName: true, email: true } } }
+        }
+      }
+    }),
+    db.document.count({ where: whereClause })
+  ]);
+
+  return c.json({
+    documents,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    }
+  });
+});
+
+// Resolve a document in the review queue
+const verifyDocumentSchema = z.object({
+  status: z.enum(["VERIFIED", "REJECTED"]),
+  notes: z.string().optional(),
+  parsedData: z.record(z.unknown()).optional()
+});
+
+adminRoutes.patch(
+  "/documents/:id/verification",
+  requireAuth,
+  requirePermission("platform.manage"),
+  zValidator("json", verifyDocumentSchema),
+  async (c) => {
+    const documentId = c.req.param("id");
+    const data = c.req.valid("json");
+
+    const existing = await db.document.findUnique({
+      where: { id: documentId }
+    });
+
+    if (!existing) {
+      return c.json({ error: "Document not found" }, 404);
+    }
+
+    // Corrected fields must still match what the extractor for this document type produces
+    const parsedData = data.parsedData && documentExtractors[existing.type].schema.safeParse(data.parsedData);
+
+    if (parsedData && !parsedData.success) {
+      return c.json({ error: "Invalid parsedData", issues: parsedData.error.issues }, 400);
+    }
+
+    const document = await db.document.update({
+      where: { id: documentId },
+      data: {
+        verificationStatus: data.status,
+        verificationNotes: data.notes ?? null,
+        ...(parsedData && { parsedData: parsedData.data as Prisma.InputJsonValue })
+      }
+    });
+
+    return c.json({ document });
+  }
+);
+
+// Background job queue overview
+const listJobsSchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+  status: z.nativeEnum(JobStatus).optional(),
+  type: z.string().optional()
+});
+
+adminRoutes.get(
+  "/jobs",
+  requireAuth,
+  requirePermission("platform.manage"),
+  zValidator("query", listJobsSchema),
+  async (c) => {
+    const { page, limit, status, type } = c.req.valid("query");
+
+    const whereClause: Prisma.JobWhereInput = {
+      ...(status && { status }),
+      ...(type && { type })
+    };
+
+    const [jobs, total, byStatus] = await Promise.all([
+      db.job.findMany({
+        where: whereClause,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: "desc" }
+      }),
+      db.job.count({ where: whereClause }),
+      db.job.groupBy({
+        by: ["status"],
+        _count: { status: true }
+      })
+    ]);
+
+    return c.json({
+      jobs,
+      stats: byStatus.reduce((acc: Record<string, number>, curr) => {
+        acc[curr.status] = curr._count.status;
+        return acc;
+      }, {} as Record<string, number>),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    });
+  }
+);
+
+// Get single job
+adminRoutes.get("/jobs/:id", requireAuth, requirePermission("platform.manage"), async (c) => {
+  const jobId = c.req.param("id");
+
+  const job = await db.job.findUnique({
+    where: { id: jobId }
+  });
+
+  if (!job) {
+    return c.json({ error: "Job not found" }, 404);
+  }
+
+  return c.json({ job });
+});
+
+// Requeue a dead-lettered job
+adminRoutes.post("/jobs/:id/retry", requireAuth, requirePermission("platform.manage"), async (c) => {
+  const jobId = c.req.param("id");
+
+  const existing = await db.job.findUnique({
+    where: { id: jobId }
+  });
+
+  if (!existing) {
+    return c.json({ error: "Job not found" }, 404);
+  }
+
+  if (existing.status !== "DEAD") {
+    return c.json({ error: "Only dead jobs can be retried" }, 400);
+  }
+
+  const job = await db.job.update({
+    where: { id: jobId },
+    data: {
+      status: "PENDING",
+      attempts: 0,
+      runAt: new Date(),
+      lastError: null
+    }
+  });
+
+  return c.json({ job });
+});
+
 // Get all applications (admin view)
-adminRoutes.get("/applications", requireAuth, requireRole("PLATFORM_ADMIN"), async (c) => {
+adminRoutes.get("/applications", requireAuth, requirePermission("platform.manage"), async (c) => {
   const page = parseInt(c.req.query("page") || "1");
   const limit = parseInt(c.req.query("limit") || "20");
   const status = c.req.query("status");
@@ -507,3 +769,269 @@ adminRoutes.get("/applications", requireAuth, requireRole("PLATFORM_ADMIN"), asy
     }
   });
 });
+
+// Get payments with their refunds
+const listPaymentsSchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+  status: z.nativeEnum(PaymentStatus).optional()
+});
+
+adminRoutes.get(
+  "/payments",
+  requireAuth,
+  requirePermission("platform.manage"),
+  zValidator("query", listPaymentsSchema),
+  async (c) => {
+    const { page, limit, status } = c.req.valid("query");
+
+    const whereClause: Prisma.PaymentWhereInput = status ? { status } : {};
+
+    const [payments, total] = await Promise.all([
+      db.payment.findMany({
+        where: whereClause,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: "desc" },
+        include: {
+          student: {
+            include: { user: { select: { firstName: true, lastName: true, email: true } } }
+          },
+          application: { select: { id: true, applicationNumber: true, status: true, refundEligible: true } },
+          refunds: { orderBy: { createdAt: "desc" } }
+        }
+      }),
+      db.payment.count({ where: whereClause })
+    ]);
+
+    return c.json({
+      payments,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    });
+  }
+);
+
+// Daily reconciliation report: what the job changed and where we disagree with the provider
+adminRoutes.get("/payments/reconciliation", requireAuth, requirePermission("platform.manage"), async (c) => {
+  const date = c.req.query("date");
+  const day = date ? new Date(`${date}T00:00:00Z`) : new Date();
+
+  if (isNaN(day.getTime())) {
+    return c.json({ error: "date must be YYYY-MM-DD" }, 400);
+  }
+
+  const report = await reconciliationReport(day);
+
+  return c.json({ report });
+});
+
+// Refund a payment in full or in part
+const refundPaymentSchema = z.object({
+  amount: z.number().positive().optional(),
+  reason: z.string().min(3)
+});
+
+adminRoutes.post(
+  "/payments/:id/refund",
+  requireAuth,
+  requirePermission("platform.manage"),
+  zValidator("json", refundPaymentSchema),
+  async (c) => {
+    const auth = c.get("auth");
+    const paymentId = c.req.param("id");
+    const data = c.req.valid("json");
+
+    const refund = await requestRefund(paymentId, {
+      amount: data.amount,
+      reason: data.reason,
+      requestedById: auth.userId
+    });
+
+    auditChange(c, { entityType: "refund", entityId: refund.id, after: refund });
+
+    const payment = await db.payment.findUnique({
+      where: { id: paymentId },
+      include: { refunds: { orderBy: { createdAt: "desc" } } }
+    });
+
+    return c.json({ refund, payment }, 201);
+  }
+);
+
+// Review any fee waiver, e.g. for universities without an admin on the platform
+adminRoutes.post(
+  "/fee-waivers/:id/review",
+  requireAuth,
+  requirePermission("platform.manage"),
+  zValidator("json", feeWaiverDecisionSchema),
+  async (c) => {
+    const auth = c.get("auth");
+    const { before, after: waiver } = await reviewFeeWaiver(c.req.param("id"), auth.userId, c.req.valid("json"));
+
+    auditChange(c, { before, after: waiver });
+
+    return c.json({ waiver });
+  }
+);
+
+// Get all discount codes with their usage
+adminRoutes.get("/discount-codes", requireAuth, requirePermission("platform.manage"), async (c) => {
+  const codes = await db.discountCode.findMany({
+    orderBy: { createdAt: "desc" },
+    include: {
+      program: { select: { id: true, title: true } },
+      employer: { select: { id: true, name: true } }
+    }
+  });
+
+  const usage = await Promise.all(codes.map((code) => discountCodeUsage(code.id)));
+
+  return c.json({
+    codes: codes.map((code, index) => ({ ...code, uses: usage[index] }))
+  });
+});
+
+// Create a platform-sponsored discount code
+adminRoutes.post(
+  "/discount-codes",
+  requireAuth,
+  requirePermission("platform.manage"),
+  zValidator("json", discountCodeSchema),
+  async (c) => {
+    const auth = c.get("auth");
+    const code = await createDiscountCode(c.req.valid("json"), auth.userId);
+
+    auditChange(c, { entityId: code.id, after: code });
+
+    return c.json({ code }, 201);
+  }
+);
+
+// Clerk webhook deliveries, e.g. ?status=FAILED to find events that need replaying
+const listClerkEventsSchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(50),
+  status: z.nativeEnum(ClerkEventStatus).optional(),
+  type: z.string().optional()
+});
+
+adminRoutes.get(
+  "/clerk-events",
+  requireAuth,
+  requirePermission("platform.manage"),
+  zValidator("query", listClerkEventsSchema),
+  async (c) => {
+    const { page, limit, status, type } = c.req.valid("query");
+
+    const whereClause: Prisma.ClerkEventWhereInput = {
+      ...(status && { status }),
+      ...(type && { type })
+    };
+
+    const [events, total] = await Promise.all([
+      db.clerkEvent.findMany({
+        where: whereClause,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { receivedAt: "desc" }
+      }),
+      db.clerkEvent.count({ where: whereClause })
+    ]);
+
+    return c.json({
+      events,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    });
+  }
+);
+
+// Re-apply stored Clerk events by id, or every FAILED (or RECEIVED) event since a date
+const replayClerkEventsSchema = z.object({
+  eventIds: z.array(z.string()).min(1).optional(),
+  status: z.enum(REPLAYABLE_STATUSES).optional(),
+  since: z.string().datetime().optional()
+});
+
+adminRoutes.post(
+  "/clerk-events/replay",
+  requireAuth,
+  requirePermission("platform.manage"),
+  zValidator("json", replayClerkEventsSchema),
+  async (c) => {
+    const { eventIds, status, since } = c.req.valid("json");
+
+    const results = await replayClerkEvents({
+      eventIds,
+      status,
+      since: since ? new Date(since) : undefined
+    });
+
+    return c.json({ results });
+  }
+);
+
+// Pull every user from Clerk to recover from deliveries that never arrived
+adminRoutes.post("/clerk-events/resync-users", requireAuth, requirePermission("platform.manage"), async (c) => {
+  const result = await resyncClerkUsers();
+
+  return c.json(result);
+});
+
+// Audit log of admin, university and employer changes, e.g. ?entityType=program&action=program.delete
+const listAuditSchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(50),
+  actorId: z.string().optional(),
+  action: z.string().optional(),
+  entityType: z.string().optional(),
+  entityId: z.string().optional(),
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional()
+});
+
+adminRoutes.get(
+  "/audit",
+  requireAuth,
+  requirePermission("platform.manage"),
+  zValidator("query", listAuditSchema),
+  async (c) => {
+    const { page, limit, from, to, ...filter } = c.req.valid("query");
+
+    const { logs, total } = await listAuditLogs(
+      {
+        ...filter,
+        from: from ? new Date(from) : undefined,
+        to: to ? new Date(to) : undefined
+      },
+      page,
+      limit
+    );
+
+    return c.json({
+      logs,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    });
+  }
+);
+
+// Every recorded change to one entity, e.g. /audit/program/:id
+adminRoutes.get("/audit/:entityType/:entityId", requireAuth, requirePermission("platform.manage"), async (c) => {
+  const auditLog = await entityTimeline(c.req.param("entityType"), c.req.param("entityId"));
+
+  return c.json({ auditLog });
+});
@@ -0,0 +1,87 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { z } from "zod";
+import { API_KEY_SCOPES, createApiKey, listApiKeys, revokeApiKey, rotateApiKey } from "../lib/api-keys";
+import { actingTeam } from "../lib/teams";
+import { auditChange } from "../middleware/audit";
+import { requireAuth, requirePermission, type AppEnv } from "../middleware/auth";
+
+// API keys for the signed-in admin's university or employer. Team owners manage them.
+export const apiKeyRoutes = new Hono<AppEnv>();
+
+// Scopes a key can be given, and which kind of team each applies to
+apiKeyRoutes.get("/scopes", requireAuth, requirePermission("apiKey.manage"), async (c) => {
+  const scopes = Object.entries(API_KEY_SCOPES).map(([scope, { description, teams }]) => ({
+    scope,
+    description,
+    teams,
+  }));
+
+  return c.json({ scopes });
+});
+
+// List keys with when each was last used
+apiKeyRoutes.get("/", requireAuth, requirePermission("apiKey.manage"), async (c) => {
+  const apiKeys = await listApiKeys(actingTeam(c.get("actor")));
+
+  return c.json({ apiKeys });
+});
+
+// Create a key; the response is the only time the key is shown
+const createApiKeySchema = z.object({
+  name: z.string().min(1).max(100),
+  scopes: z.array(z.string()).min(1),
+  expiresAt: z.string().datetime().optional(),
+});
+
+apiKeyRoutes.post(
+  "/",
+  requireAuth,
+  requirePermission("apiKey.manage"),
+  zValidator("json", createApiKeySchema),
+  async (c) => {
+    const actor = c.get("actor");
+    const { expiresAt, ...data } = c.req.valid("json");
+
+    const created = await createApiKey(actor, actingTeam(actor), {
+      ...data,
+      expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+    });
+
+    auditChange(c, { entityId: created.apiKey.id, after: created.apiKey });
+
+    return c.json(created, 201);
+  }
+);
+
+// Replace a key; the old one keeps working for graceHours
+const rotateApiKeySchema = z.object({
+  graceHours: z.number().min(0).max(7 * 24).default(24),
+  expiresAt: z.string().datetime().optional(),
+});
+
+apiKeyRoutes.post(
+  "/:id/rotate",
+  requireAuth,
+  requirePermission("apiKey.manage"),
+  zValidator("json", rotateApiKeySchema),
+  async (c) => {
+    const actor = c.get("actor");
+    const { graceHours, expiresAt } = c.req.valid("json");
+
+    const rotated = await rotateApiKey(actor, actingTeam(actor), c.req.param("id"), {
+      graceHours,
+      expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+    });
+
+    return c.json(rotated, 201);
+  }
+);
+
+// Revoke a key immediately
+apiKeyRoutes.delete("/:id", requireAuth, requirePermission("apiKey.manage"), async (c) => {
+  const apiKey = await revokeApiKey(actingTeam(c.get("actor")), c.req.param("id"));
+  auditChange(c, { action: "apiKey.revoke", after: apiKey });
+
+  return c.json({ apiKey });
+});
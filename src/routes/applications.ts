@@ -3,7 +3,14 @@ import { zValidator } from "@hono/zod-validator";
 import { z } from "zod";
 import { nanoid } from "nanoid";
 import { db } from "../lib/db";
-import { requireAuth, type AppEnv } from "../middleware/auth";
+import { recordInitialStatus, transitionApplication } from "../lib/application-status";
+import { authorizeApplication } from "../lib/authorization";
+import { checkStudentEligibility, eligibilityFields } from "../lib/eligibility";
+import { applicationFeeDue, isFeeSatisfied, requestFeeWaiver } from "../lib/fees";
+import { enqueueJob } from "../lib/jobs";
+import { acceptOffer, declineOffer } from "../lib/offers";
+import { auditChange } from "../middleware/audit";
+import { requireAuth, requirePermission, type AppEnv } from "../middleware/auth";
 
 export const applicationRoutes = new Hono<AppEnv>();
 
@@ -17,6 +24,7 @@ const createApplicationSchema = z.object({
 applicationRoutes.post(
   "/",
   requireAuth,
+  requirePermission("application.update"),
   zValidator("json", createApplicationSchema),
   async (c) => {
     const auth = c.get("auth");
@@ -40,11 +48,20 @@ applicationRoutes.post(
       return c.json({ error: "Program not found" }, 404);
     }
 
-    if (program.status !== "OPEN") {
+    // Programs with a waitlist that closed only because they are full keep taking
+    // applications until the deadline; accepted applicants are waitlisted until a slot frees up
+    const programFull = program.availableSlots <= 0;
+    const openForWaitlist =
+      program.waitlistEnabled &&
+      program.status === "CLOSED" &&
+      program.closedForCapacity &&
+      program.applicationDeadline > new Date();
+
+    if (program.status !== "OPEN" && !openForWaitlist) {
       return c.json({ error: "Program is not accepting applications" }, 400);
     }
 
-    if (program.availableSlots <= 0) {
+    if (programFull && !program.waitlistEnabled) {
       return c.json({ error: "No slots available" }, 400);
     }
 
@@ -62,78 +79,67 @@ applicationRoutes.post(
       return c.json({ error: "Already applied to this program" }, 400);
     }
 
+    const eligibility = await checkStudentEligibility(student.id, program);
+
     // Create application
     const applicationNumber = `WS-${new Date().getFullYear()}-${nanoid(8).toUpperCase()}`;
 
-    const application = await db.application.create({
-      data: {
-        applicationNumber,
-        studentId: student.id,
-        programId: body.programId,
-        motivationLetter: body.motivationLetter,
-        additionalAnswers: body.additionalAnswers,
-        status: "DRAFT",
-      },
-      include: {
-        program: {
-          select: { title: true, field: true },
+    const application = await db.$transaction(async (tx) => {
+      const created = await tx.application.create({
+        data: {
+          applicationNumber,
+          studentId: student.id,
+          programId: body.programId,
+          motivationLetter: body.motivationLetter,
+          additionalAnswers: body.additionalAnswers,
+          status: "DRAFT",
+          ...eligibilityFields(eligibility),
         },
-      },
+        include: {
+          program: {
+            select: { title: true, field: true },
+          },
+        },
+      });
+
+      await recordInitialStatus(created, { userId: auth.userId, role: auth.role }, tx);
+
+      return created;
     });
 
-    return c.json({ application }, 201);
+    return c.json({ application, programFull }, 201);
   }
 );
 
 // Submit application
-applicationRoutes.post("/:id/submit", requireAuth, async (c) => {
+applicationRoutes.post("/:id/submit", requireAuth, requirePermission("application.update"), async (c) => {
   const auth = c.get("auth");
   const id = c.req.param("id");
 
-  const student = await db.student.findUnique({
-    where: { userId: auth.userId },
-  });
-
-  if (!student) {
-    return c.json({ error: "Student profile required" }, 400);
-  }
-
-  const application = await db.application.findFirst({
-    where: { id, studentId: student.id },
-    include: { program: true },
-  });
-
-  if (!application) {
-    return c.json({ error: "Application not found" }, 404);
-  }
+  const application = await authorizeApplication(c.get("actor"), "application.update", id);
 
   if (application.status !== "DRAFT") {
     return c.json({ error: "Application already submitted" }, 400);
   }
 
-  // Check if payment is required
-  if (application.program.applicationFee > 0) {
-    const payment = await db.payment.findFirst({
-      where: {
-        applicationId: id,
-        status: "COMPLETED",
-      },
-    });
-
-    if (!payment) {
-      return c.json({ error: "Payment required before submission" }, 400);
-    }
+  // The fee must be paid unless it was waived
+  if (!(await isFeeSatisfied(application))) {
+    return c.json({ error: "Payment required before submission" }, 400);
   }
 
-  // Update application status
-  const updated = await db.application.update({
-    where: { id },
-    data: {
-      status: "SUBMITTED",
-      submittedAt: new Date(),
-    },
+  // Re-check in case the profile or transcripts changed since the draft was created
+  const eligibility = await checkStudentEligibility(application.studentId, application.program);
+
+  const updated = await transitionApplication({
+    applicationId: id,
+    to: "SUBMITTED",
+    actor: { userId: auth.userId, role: auth.role },
+    data: eligibilityFields(eligibility),
   });
 
+  // Score in the background so reviewers can rank submissions
+  await enqueueJob("application.score", { applicationId: id });
+
   return c.json({ application: updated });
 });
 
@@ -170,13 +176,10 @@ applicationRoutes.get("/my", requireAuth, async (c) => {
 });
 
 // Get single application
-applicationRoutes.get("/:id", requireAuth, async (c) => {
-  const auth = c.get("auth");
+applicationRoutes.get("/:id", requireAuth, requirePermission("application.view"), async (c) => {
   const id = c.req.param("id");
 
-  const student = await db.student.findUnique({
-    where: { userId: auth.userId },
-  });
+  await authorizeApplication(c.get("actor"), "application.view", id);
 
   const application = await db.application.findUnique({
     where: { id },
@@ -194,52 +197,198 @@ applicationRoutes.get("/:id", requireAuth, async (c) => {
     },
   });
 
-  if (!application) {
-    return c.json({ error: "Application not found" }, 404);
-  }
+  return c.json({ application });
+});
+
+// Get application status timeline
+applicationRoutes.get("/:id/history", requireAuth, requirePermission("application.view"), async (c) => {
+  const id = c.req.param("id");
+
+  await authorizeApplication(c.get("actor"), "application.view", id);
+
+  const history = await db.applicationStatusHistory.findMany({
+    where: { applicationId: id },
+    include: {
+      actor: {
+        select: { id: true, firstName: true, lastName: true, email: true, role: true },
+      },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return c.json({ history });
+});
+
+// Withdraw application
+const withdrawApplicationSchema = z.object({
+  reason: z.string().min(1),
+});
 
-  // Ensure student owns this application
-  if (student && application.studentId !== student.id) {
-    // Check if user is admin/university/employer
-    const user = await db.user.findUnique({
-      where: { id: auth.userId },
+applicationRoutes.post(
+  "/:id/withdraw",
+  requireAuth,
+  requirePermission("application.update"),
+  zValidator("json", withdrawApplicationSchema),
+  async (c) => {
+    const auth = c.get("auth");
+    const id = c.req.param("id");
+    const { reason } = c.req.valid("json");
+
+    await authorizeApplication(c.get("actor"), "application.update", id);
+
+    const updated = await transitionApplication({
+      applicationId: id,
+      to: "WITHDRAWN",
+      actor: { userId: auth.userId, role: auth.role },
+      reason,
+      data: { withdrawalReason: reason },
     });
 
-    if (user?.role === "STUDENT") {
-      return c.json({ error: "Not authorized" }, 403);
-    }
+    return c.json({ application: updated, refundEligible: updated.refundEligible });
   }
+);
 
-  return c.json({ application });
+// Accept offer and enrol
+const acceptOfferSchema = z.object({
+  cohortId: z.string().optional(),
 });
 
-// University: Update application status
-applicationRoutes.patch("/:id/review", requireAuth, async (c) => {
-  const auth = c.get("auth");
+applicationRoutes.post(
+  "/:id/offer/accept",
+  requireAuth,
+  requirePermission("application.update"),
+  zValidator("json", acceptOfferSchema),
+  async (c) => {
+    const auth = c.get("auth");
+    const id = c.req.param("id");
+    const { cohortId } = c.req.valid("json");
+
+    await authorizeApplication(c.get("actor"), "application.update", id);
+
+    const updated = await acceptOffer(id, { userId: auth.userId, role: auth.role }, cohortId);
+
+    return c.json({ application: updated });
+  }
+);
+
+// Decline offer
+const declineOfferSchema = z.object({
+  reason: z.string().optional(),
+});
+
+applicationRoutes.post(
+  "/:id/offer/decline",
+  requireAuth,
+  requirePermission("application.update"),
+  zValidator("json", declineOfferSchema),
+  async (c) => {
+    const auth = c.get("auth");
+    const id = c.req.param("id");
+    const { reason } = c.req.valid("json");
+
+    await authorizeApplication(c.get("actor"), "application.update", id);
+
+    const updated = await declineOffer(id, { userId: auth.userId, role: auth.role }, reason);
+
+    return c.json({ application: updated, refundEligible: updated.refundEligible });
+  }
+);
+
+// Fee summary and waiver requests for an application
+applicationRoutes.get("/:id/fee-waiver", requireAuth, requirePermission("application.view"), async (c) => {
   const id = c.req.param("id");
-  const { status, reviewNotes } = await c.req.json();
 
-  // Verify user is university admin
-  const user = await db.user.findUnique({
-    where: { id: auth.userId },
-    include: { universityAdmin: true },
+  const application = await authorizeApplication(c.get("actor"), "application.view", id);
+
+  const waivers = await db.feeWaiver.findMany({
+    where: { applicationId: id },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return c.json({
+    fee: await applicationFeeDue(application),
+    feeSatisfied: await isFeeSatisfied(application),
+    waivers,
   });
+});
+
+// Request a full or partial fee waiver
+const feeWaiverSchema = z.object({
+  reason: z.string().min(20),
+  documentIds: z.array(z.string()).default([]),
+  requestedAmount: z.number().positive().optional(),
+});
 
-  if (!user?.universityAdmin) {
-    return c.json({ error: "Not authorized" }, 403);
+applicationRoutes.post(
+  "/:id/fee-waiver",
+  requireAuth,
+  requirePermission("application.update"),
+  zValidator("json", feeWaiverSchema),
+  async (c) => {
+    const id = c.req.param("id");
+    const data = c.req.valid("json");
+
+    await authorizeApplication(c.get("actor"), "application.update", id);
+
+    const waiver = await requestFeeWaiver(id, data);
+
+    return c.json({ waiver }, 201);
   }
+);
 
-  const application = await db.application.update({
-    where: { id },
-    data: {
-      status,
-      reviewNotes,
-      reviewedBy: auth.userId,
-      reviewedAt: new Date(),
-      ...(status === "ACCEPTED" && { acceptedAt: new Date() }),
-      ...(status === "REJECTED" && { rejectedAt: new Date() }),
+// Stipend payouts for an enrolled student
+applicationRoutes.get("/:id/stipends", requireAuth, requirePermission("application.view"), async (c) => {
+  const id = c.req.param("id");
+
+  const application = await authorizeApplication(c.get("actor"), "application.view", id);
+
+  const payouts = await db.stipendPayout.findMany({
+    where: { applicationId: id },
+    include: {
+      disbursement: { select: { period: true, dueDate: true, currency: true } },
     },
+    orderBy: { disbursement: { dueDate: "asc" } },
   });
 
-  return c.json({ application });
+  return c.json({
+    attendanceRate: application.attendanceRate,
+    payouts,
+  });
+});
+
+// University: Update application status
+const reviewApplicationSchema = z.object({
+  status: z.enum(["UNDER_REVIEW", "SHORTLISTED", "INTERVIEW_SCHEDULED", "WAITLISTED", "ACCEPTED", "REJECTED", "ENROLLED", "COMPLETED"]),
+  reviewNotes: z.string().optional(),
 });
+
+applicationRoutes.patch(
+  "/:id/review",
+  requireAuth,
+  requirePermission("application.review"),
+  zValidator("json", reviewApplicationSchema),
+  async (c) => {
+    const auth = c.get("auth");
+    const id = c.req.param("id");
+    const { status, reviewNotes } = c.req.valid("json");
+
+    const before = await authorizeApplication(c.get("actor"), "application.review", id);
+
+    const application = await transitionApplication({
+      applicationId: id,
+      to: status,
+      actor: { userId: auth.userId, role: auth.role },
+      reason: reviewNotes,
+      data: {
+        reviewNotes,
+        reviewedBy: auth.userId,
+        reviewedAt: new Date(),
+      },
+      waitlistWhenFull: true,
+    });
+
+    auditChange(c, { before, after: application });
+
+    return c.json({ application });
+  }
+);
@@ -2,115 +2,92 @@ import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { z } from "zod";
 import { db } from "../lib/db";
-import type { AppEnv } from "../middleware/auth";
+import { findOrProvisionUser, localAuthProvider, LocalAuthProvider } from "../lib/auth-providers";
+import { processClerkEvent, verifyClerkWebhook } from "../lib/clerk-events";
+import { requireAuth, verifyBearerToken, type AppEnv } from "../middleware/auth";
 
 export const authRoutes = new Hono<AppEnv>();
 
 // Webhook to sync Clerk users to our database
-const webhookSchema = z.object({
-  type: z.string(),
-  data: z.object({
-    id: z.string(),
-    email_addresses: z.array(z.object({
-      email_address: z.string(),
-    })),
-    first_name: z.string().nullable(),
-    last_name: z.string().nullable(),
-    image_url: z.string().nullable(),
-  }),
+authRoutes.post("/webhook/clerk", async (c) => {
+  const body = await c.req.text();
+
+  // Throws 401 when the svix signature does not verify
+  const event = verifyClerkWebhook(body, c.req.header());
+
+  // Failures are rethrown so svix retries the delivery; events we keep no state for are acknowledged
+  const result = await processClerkEvent(event);
+
+  return c.json({ received: true, duplicate: result.duplicate });
 });
 
-authRoutes.post("/webhook/clerk", zValidator("json", webhookSchema), async (c) => {
+// Manual sync endpoint (called from frontend after signup). The account and its profile
+// come from the bearer token and the auth provider; the body is only checked against the
+// token, since an email in it has not been verified by anyone.
+const syncSchema = z.object({
+  clerkId: z.string().optional(),
+  email: z.string().email().optional(),
+  firstName: z.string().nullable().optional(),
+  lastName: z.string().nullable().optional(),
+  imageUrl: z.string().nullable().optional(),
+});
+
+authRoutes.post("/sync", zValidator("json", syncSchema), async (c) => {
+  const identity = await verifyBearerToken(c);
   const body = c.req.valid("json");
-  
-  const primaryEmail = body.data.email_addresses[0]?.email_address;
-  
-  if (!primaryEmail) {
-    return c.json({ error: "No email found" }, 400);
+
+  if (body.clerkId && body.clerkId !== identity.subject) {
+    return c.json({ error: "Token does not belong to this user" }, 403);
   }
 
-  switch (body.type) {
-    case "user.created": {
-      await db.user.create({
-        data: {
-          clerkId: body.data.id,
-          email: primaryEmail,
-          firstName: body.data.first_name,
-          lastName: body.data.last_name,
-          avatarUrl: body.data.image_url,
-          role: "STUDENT", // Default role
-        },
-      });
-      break;
-    }
-    
-    case "user.updated": {
-      await db.user.update({
-        where: { clerkId: body.data.id },
-        data: {
-          email: primaryEmail,
-          firstName: body.data.first_name,
-          lastName: body.data.last_name,
-          avatarUrl: body.data.image_url,
-        },
-      });
-      break;
-    }
-    
-    case "user.deleted": {
-      await db.user.delete({
-        where: { clerkId: body.data.id },
-      });
-      break;
-    }
+  // Existing users are returned as they are
+  const user = await findOrProvisionUser(identity);
+
+  // e.g. phone-only sign-ups, which get an account once they add an email address
+  if (!user) {
+    return c.json({ error: "Add an email address to your account to continue" }, 409);
   }
 
-  return c.json({ received: true });
+  return c.json({ user });
 });
 
-// Manual sync endpoint (called from frontend after signup)
-const syncSchema = z.object({
-  clerkId: z.string(),
-  email: z.string().email(),
-  firstName: z.string().nullable(),
-  lastName: z.string().nullable(),
-  imageUrl: z.string().nullable(),
+// Local auth only: public keys for verifying local tokens
+authRoutes.get("/.well-known/jwks.json", (c) => {
+  const provider = localAuthProvider();
+
+  if (!provider) {
+    return c.json({ error: "Not found" }, 404);
+  }
+
+  return c.json(provider.jwks());
 });
 
-authRoutes.post("/sync", zValidator("json", syncSchema), async (c) => {
-  const body = c.req.valid("json");
+// Local auth only: sign a token for any email, e.g. for end-to-end tests. The user is
+// created on their first request; grant other roles with the admin assign routes.
+const localTokenSchema = z.object({
+  email: z.string().email(),
+  firstName: z.string().optional(),
+  lastName: z.string().optional(),
+  expiresInSeconds: z.number().int().positive().max(7 * 24 * 60 * 60).optional(),
+});
 
-  // Check if user already exists
-  const existingUser = await db.user.findUnique({
-    where: { clerkId: body.clerkId },
-  });
+authRoutes.post("/local/token", zValidator("json", localTokenSchema), async (c) => {
+  const provider = localAuthProvider();
 
-  if (existingUser) {
-    return c.json({ user: existingUser });
+  if (!provider) {
+    return c.json({ error: "Not found" }, 404);
   }
 
-  // Create new user
-  const user = await db.user.create({
-    data: {
-      clerkId: body.clerkId,
-      email: body.email,
-      firstName: body.firstName,
-      lastName: body.lastName,
-      avatarUrl: body.imageUrl,
-      role: "STUDENT", // Default role
-    },
-  });
+  const { email, firstName, lastName, expiresInSeconds } = c.req.valid("json");
 
-  return c.json({ user });
+  const token = provider.sign({ email, given_name: firstName, family_name: lastName }, expiresInSeconds);
+
+  return c.json({ token, subject: LocalAuthProvider.subjectFor(email) });
 });
 
 // Get current user profile
-authRoutes.get("/me", async (c) => {
+authRoutes.get("/me", requireAuth, async (c) => {
   const auth = c.get("auth");
-  
-  if (!auth) {
-    return c.json({ error: "Not authenticated" }, 401);
-  }
 
   const user = await db.user.findUnique({
     where: { id: auth.userId },
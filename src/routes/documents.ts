@@ -1,10 +1,35 @@
 import { Hono } from "hono";
+import { z } from "zod";
+import { nanoid } from "nanoid";
+import { Readable } from "stream";
+import type { ReadableStream as WebReadableStream } from "stream/web";
 import { db } from "../lib/db";
-import { requireAuth, type AppEnv } from "../middleware/auth";
-import { parseDocumentWithGemini } from "../lib/gemini";
+import { authorizeApplication, can, programScope, type Actor } from "../lib/authorization";
+import { requireAuth, requirePermission, type AppEnv } from "../middleware/auth";
+import { enqueueJob } from "../lib/jobs";
+import { assertUploadAllowed, storage, storageKey, storeDocument } from "../lib/storage";
 
 export const documentRoutes = new Hono<AppEnv>();
 
+const documentTypeSchema = z.enum(["TRANSCRIPT", "CERTIFICATE", "CV", "ID_DOCUMENT", "RECOMMENDATION", "OTHER"]);
+
+// Owners can always read their documents; university and employer admins only
+// when the document is attached to an application for one of their programs
+async function canAccessDocument(
+  actor: Actor,
+  document: { id: string; student: { userId: string } }
+) {
+  if (can(actor, "document.view", { studentUserId: document.student.userId })) return true;
+
+  const scope = programScope(actor, "document.view");
+  if (!scope) return false;
+
+  const attached = await db.applicationDocument.count({
+    where: { documentId: document.id, application: { program: scope } },
+  });
+  return attached > 0;
+}
+
 // List all my documents
 documentRoutes.get("/", requireAuth, async (c) => {
   const auth = c.get("auth");
@@ -25,10 +50,12 @@ documentRoutes.get("/", requireAuth, async (c) => {
   return c.json({ documents });
 });
 
-// Create document from external upload (e.g., Uploadthing)
-documentRoutes.post("/", requireAuth, async (c) => {
+// Upload document to storage
+// Accepts multipart/form-data (file, type) or a raw body with ?type=&fileName= for streaming uploads
+documentRoutes.post("/upload", requireAuth, async (c) => {
   const auth = c.get("auth");
   
+  // Get student
   const student = await db.student.findUnique({
     where: { userId: auth.userId },
   });
@@ -37,74 +64,90 @@ documentRoutes.post("/", requireAuth, async (c) => {
     return c.json({ error: "Student profile required" }, 400);
   }
 
-  const body = await c.req.json();
-  const { type, name, fileName, fileUrl, fileSize, mimeType } = body;
-
-  if (!fileUrl || !type) {
-    return c.json({ error: "Missing required fields" }, 400);
+  const contentType = c.req.header("Content-Type") || "";
+  let upload: {
+    type: unknown;
+    fileName: string;
+    mimeType: string;
+    size?: number;
+    body: WebReadableStream<Uint8Array>;
+  };
+
+  if (contentType.startsWith("multipart/form-data")) {
+    const body = await c.req.parseBody();
+    const file = body.file;
+
+    if (!(file instanceof File)) {
+      return c.json({ error: "No file provided" }, 400);
+    }
+
+    upload = {
+      type: body.type,
+      fileName: file.name,
+      mimeType: file.type,
+      size: file.size,
+      body: file.stream() as WebReadableStream<Uint8Array>,
+    };
+  } else {
+    const contentLength = c.req.header("Content-Length");
+
+    if (!c.req.raw.body) {
+      return c.json({ error: "No file provided" }, 400);
+    }
+
+    upload = {
+      type: c.req.query("type"),
+      fileName: c.req.query("fileName") || "document",
+      mimeType: contentType.split(";")[0].trim(),
+      size: contentLength ? parseInt(contentLength, 10) : undefined,
+      body: c.req.raw.body as WebReadableStream<Uint8Array>,
+    };
   }
 
-  const document = await db.document.create({
-    data: {
-      studentId: student.id,
-      type: type as any,
-      name: name || fileName,
-      fileName: fileName || "document",
-      fileUrl,
-      fileSize: fileSize || 0,
-      mimeType: mimeType || "application/pdf",
-      verificationStatus: "PENDING",
-    },
-  });
+  const type = documentTypeSchema.safeParse(upload.type);
 
-  // Trigger async document parsing with Gemini
-  parseDocumentWithGemini(document.id, fileUrl).catch(console.error);
+  if (!type.success) {
+    return c.json({ error: "Invalid document type" }, 400);
+  }
 
-  return c.json({ document }, 201);
-});
+  // Reject early on the declared size; the stream is also metered while uploading
+  assertUploadAllowed(type.data, upload.mimeType, upload.size);
 
-// Upload document (placeholder - actual file upload would use cloud storage)
-documentRoutes.post("/upload", requireAuth, async (c) => {
-  const auth = c.get("auth");
-  
-  // Get student
-  const student = await db.student.findUnique({
-    where: { userId: auth.userId },
+  const stored = await storeDocument({
+    key: storageKey(student.id, upload.fileName, nanoid(12)),
+    type: type.data,
+    mimeType: upload.mimeType,
+    body: upload.body,
   });
 
-  if (!student) {
-    return c.json({ error: "Student profile required" }, 400);
-  }
-
-  const body = await c.req.parseBody();
-  const file = body.file as File;
-  const type = body.type as string;
+  // Same file uploaded again: keep the existing document
+  const duplicate = await db.document.findFirst({
+    where: { studentId: student.id, type: type.data, contentHash: stored.sha256 },
+  });
 
-  if (!file) {
-    return c.json({ error: "No file provided" }, 400);
+  if (duplicate) {
+    await storage.delete(stored.key);
+    return c.json({ document: duplicate });
   }
 
-  // In production, upload to cloud storage (S3, Cloudflare R2, etc.)
-  // For now, we'll simulate the upload
-  const fileUrl = `https://storage.workstream.com/documents/${student.id}/${Date.now()}-${file.name}`;
-
   // Create document record
   const document = await db.document.create({
     data: {
       studentId: student.id,
-      type: type as any,
-      name: file.name,
-      fileName: file.name,
-      fileUrl,
-      fileSize: file.size,
-      mimeType: file.type,
+      type: type.data,
+      name: upload.fileName,
+      fileName: upload.fileName,
+      fileUrl: stored.url,
+      fileSize: stored.size,
+      mimeType: upload.mimeType,
+      storageKey: stored.key,
+      contentHash: stored.sha256,
       verificationStatus: "PENDING",
     },
   });
 
-  // Trigger async document parsing with Gemini
-  // In production, this would be a background job
-  parseDocumentWithGemini(document.id, fileUrl).catch(console.error);
+  // Queue document parsing with Gemini
+  await enqueueJob("document.parse", { documentId: document.id });
 
   return c.json({ document }, 201);
 });
@@ -130,8 +173,7 @@ documentRoutes.get("/my", requireAuth, async (c) => {
 });
 
 // Get single document
-documentRoutes.get("/:id", requireAuth, async (c) => {
-  const auth = c.get("auth");
+documentRoutes.get("/:id", requireAuth, requirePermission("document.view"), async (c) => {
   const id = c.req.param("id");
 
   const document = await db.document.findUnique({
@@ -143,43 +185,58 @@ documentRoutes.get("/:id", requireAuth, async (c) => {
     return c.json({ error: "Document not found" }, 404);
   }
 
-  // Verify ownership or admin access
-  const user = await db.user.findUnique({
-    where: { id: auth.userId },
-    include: { student: true },
-  });
-
-  if (user?.role === "STUDENT" && document.student.userId !== auth.userId) {
+  if (!(await canAccessDocument(c.get("actor"), document))) {
     return c.json({ error: "Not authorized" }, 403);
   }
 
   return c.json({ document });
 });
 
-// Attach document to application
-documentRoutes.post("/attach", requireAuth, async (c) => {
-  const auth = c.get("auth");
-  const { documentId, applicationId, required } = await c.req.json();
+// Download document file
+documentRoutes.get("/:id/download", requireAuth, requirePermission("document.view"), async (c) => {
+  const id = c.req.param("id");
 
-  // Verify student owns both
-  const student = await db.student.findUnique({
-    where: { userId: auth.userId },
+  const document = await db.document.findUnique({
+    where: { id },
+    include: { student: { select: { userId: true } } },
   });
 
-  if (!student) {
-    return c.json({ error: "Student profile required" }, 400);
+  if (!document) {
+    return c.json({ error: "Document not found" }, 404);
   }
 
-  const [document, application] = await Promise.all([
-    db.document.findFirst({
-      where: { id: documentId, studentId: student.id },
-    }),
-    db.application.findFirst({
-      where: { id: applicationId, studentId: student.id },
-    }),
-  ]);
+  if (!(await canAccessDocument(c.get("actor"), document))) {
+    return c.json({ error: "Not authorized" }, 403);
+  }
+
+  // Only objects in storage are served; fileUrl is never redirected to
+  const object = document.storageKey ? await storage.get(document.storageKey) : null;
+
+  if (!object) {
+    return c.json({ error: "File not found" }, 404);
+  }
+
+  c.header("Content-Type", document.mimeType);
+  c.header("Content-Disposition", `attachment; filename="${document.fileName.replace(/"/g, "")}"`);
+  if (object.contentLength !== undefined) {
+    c.header("Content-Length", String(object.contentLength));
+  }
+
+  return c.body(Readable.toWeb(object.body) as ReadableStream);
+});
+
+// Attach document to application
+documentRoutes.post("/attach", requireAuth, requirePermission("application.update"), async (c) => {
+  const { documentId, applicationId, required } = await c.req.json();
 
-  if (!document || !application) {
+  const application = await authorizeApplication(c.get("actor"), "application.update", applicationId);
+
+  // Only the applicant's own documents can be attached
+  const document = await db.document.findFirst({
+    where: { id: documentId, studentId: application.studentId },
+  });
+
+  if (!document) {
     return c.json({ error: "Document or application not found" }, 404);
   }
 
@@ -2,24 +2,31 @@ import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { z } from "zod";
 import { db } from "../lib/db";
-import { requireAuth, requireRole, type AppEnv } from "../middleware/auth";
+import { transitionApplication } from "../lib/application-status";
+import {
+  actingEmployer,
+  authorize,
+  authorizeApplication,
+  authorizeCohort,
+  authorizeProgram,
+  type Actor
+} from "../lib/authorization";
+import { createDiscountCode, discountCodeSchema, discountCodeUpdateSchema, discountCodeUsage } from "../lib/fees";
+import { defaultPanel, rescheduleInterview, scheduleInterview } from "../lib/interviews";
+import { applicationScorecardSummary } from "../lib/scorecards";
+import { SEAT_HOLDING_STATUSES } from "../lib/slots";
+import { createDisbursements, exportPayoutFile, recordPayoutResults, updatePayout } from "../lib/stipends";
+import { auditChange } from "../middleware/audit";
+import { requireAuth, requirePermission, type AppEnv } from "../middleware/auth";
+import { APIError } from "../middleware/error-handler";
 
 export const employerRoutes = new Hono<AppEnv>();
 
 // Get employer dashboard stats
-employerRoutes.get("/dashboard", requireAuth, requireRole("EMPLOYER_ADMIN"), async (c) => {
-  const auth = c.get("auth");
-  
-  const employerAdmin = await db.employerAdmin.findUnique({
-    where: { userId: auth.userId },
-    include: { employer: true }
-  });
-
-  if (!employerAdmin) {
-    return c.json({ error: "Employer admin not found" }, 404);
-  }
+employerRoutes.get("/dashboard", requireAuth, requirePermission("employer.view"), async (c) => {
+  const { employerId } = actingEmployer(c.get("actor"));
 
-  const employerId = employerAdmin.employerId;
+  const employer = await db.employer.findUniqueOrThrow({ where: { id: employerId } });
 
   // Get stats
   const [programs, totalCandidates, pendingReview, hired] = await Promise.all([
@@ -49,7 +56,7 @@ employerRoutes.get("/dashboard", requireAuth, requireRole("EMPLOYER_ADMIN"), asy
   ]);
 
   return c.json({
-    employer: employerAdmin.employer,
+    employer,
     stats: {
       totalPrograms: programs.length,
       activePrograms: programs.filter((p: { status: string }) => p.status === "OPEN" || p.status === "IN_PROGRESS").length,
@@ -62,19 +69,11 @@ employerRoutes.get("/dashboard", requireAuth, requireRole("EMPLOYER_ADMIN"), asy
 });
 
 // Get employer programs
-employerRoutes.get("/programs", requireAuth, requireRole("EMPLOYER_ADMIN"), async (c) => {
-  const auth = c.get("auth");
-  
-  const employerAdmin = await db.employerAdmin.findUnique({
-    where: { userId: auth.userId }
-  });
-
-  if (!employerAdmin) {
-    return c.json({ error: "Employer admin not found" }, 404);
-  }
+employerRoutes.get("/programs", requireAuth, requirePermission("program.view"), async (c) => {
+  const { employerId } = actingEmployer(c.get("actor"));
 
   const programs = await db.program.findMany({
-    where: { employerId: employerAdmin.employerId },
+    where: { employerId },
     include: {
       university: true,
       _count: { select: { applications: true } }
@@ -85,19 +84,104 @@ employerRoutes.get("/programs", requireAuth, requireRole("EMPLOYER_ADMIN"), asyn
   return c.json({ programs });
 });
 
+// Get program cohorts with their rosters (read-only)
+employerRoutes.get("/programs/:id/cohorts", requireAuth, requirePermission("program.view"), async (c) => {
+  const programId = c.req.param("id");
+
+  await authorizeProgram(c.get("actor"), "program.view", programId);
+
+  const cohorts = await db.cohort.findMany({
+    where: { programId },
+    include: {
+      applications: {
+        where: { status: { in: SEAT_HOLDING_STATUSES } },
+        select: {
+          id: true,
+          applicationNumber: true,
+          status: true,
+          student: {
+            select: {
+              user: {
+                select: { firstName: true, lastName: true, email: true, avatarUrl: true }
+              }
+            }
+          }
+        }
+      }
+    },
+    orderBy: { startDate: "asc" }
+  });
+
+  return c.json({ cohorts });
+});
+
+// Get program interview rubric
+employerRoutes.get("/programs/:id/rubric", requireAuth, requirePermission("program.view"), async (c) => {
+  const programId = c.req.param("id");
+
+  await authorizeProgram(c.get("actor"), "program.view", programId);
+
+  const criteria = await db.rubricCriterion.findMany({
+    where: { programId },
+    orderBy: { order: "asc" }
+  });
+
+  return c.json({ criteria });
+});
+
+// Replace program interview rubric
+const rubricSchema = z.object({
+  criteria: z.array(z.object({
+    name: z.string().min(1),
+    description: z.string().optional(),
+    weight: z.number().positive(),
+    maxScore: z.number().int().min(1).max(100).optional()
+  })).min(1)
+});
+
+employerRoutes.put(
+  "/programs/:id/rubric",
+  requireAuth,
+  requirePermission("candidate.review"),
+  zValidator("json", rubricSchema),
+  async (c) => {
+    const programId = c.req.param("id");
+    const data = c.req.valid("json");
+
+    await authorizeProgram(c.get("actor"), "candidate.review", programId);
+
+    // Changing criteria under submitted scorecards would make them incomparable
+    const submitted = await db.scorecard.count({
+      where: { interview: { application: { programId } } }
+    });
+
+    if (submitted > 0) {
+      return c.json({ error: "Rubric cannot change once scorecards have been submitted" }, 409);
+    }
+
+    const criteria = await db.$transaction(async (tx) => {
+      await tx.rubricCriterion.deleteMany({ where: { programId } });
+
+      await tx.rubricCriterion.createMany({
+        data: data.criteria.map((criterion, index) => ({ ...criterion, programId, order: index }))
+      });
+
+      return tx.rubricCriterion.findMany({
+        where: { programId },
+        orderBy: { order: "asc" }
+      });
+    });
+
+    return c.json({ criteria });
+  }
+);
+
 // Get shortlisted candidates (ready for employer review)
-employerRoutes.get("/candidates", requireAuth, requireRole("EMPLOYER_ADMIN"), async (c) => {
-  const auth = c.get("auth");
+employerRoutes.get("/candidates", requireAuth, requirePermission("application.view"), async (c) => {
   const programId = c.req.query("programId");
   const status = c.req.query("status") || "SHORTLISTED";
-  
-  const employerAdmin = await db.employerAdmin.findUnique({
-    where: { userId: auth.userId }
-  });
 
-  if (!employerAdmin || !employerAdmin.canReviewCandidates) {
-    return c.json({ error: "Not authorized to review candidates" }, 403);
-  }
+  const { employerId } = actingEmployer(c.get("actor"));
 
   type WhereClause = {
     program: { employerId: string };
@@ -106,7 +190,7 @@ employerRoutes.get("/candidates", requireAuth, requireRole("EMPLOYER_ADMIN"), as
   };
 
   const whereClause: WhereClause = {
-    program: { employerId: employerAdmin.employerId },
+    program: { employerId },
     status
   };
 
@@ -136,23 +220,13 @@ employerRoutes.get("/candidates", requireAuth, requireRole("EMPLOYER_ADMIN"), as
 });
 
 // Get single candidate detail
-employerRoutes.get("/candidates/:id", requireAuth, requireRole("EMPLOYER_ADMIN"), async (c) => {
-  const auth = c.get("auth");
+employerRoutes.get("/candidates/:id", requireAuth, requirePermission("application.view"), async (c) => {
   const applicationId = c.req.param("id");
-  
-  const employerAdmin = await db.employerAdmin.findUnique({
-    where: { userId: auth.userId }
-  });
 
-  if (!employerAdmin) {
-    return c.json({ error: "Not authorized" }, 403);
-  }
+  await authorizeApplication(c.get("actor"), "application.view", applicationId);
 
-  const application = await db.application.findFirst({
-    where: { 
-      id: applicationId,
-      program: { employerId: employerAdmin.employerId }
-    },
+  const application = await db.application.findUnique({
+    where: { id: applicationId },
     include: {
       student: {
         include: {
@@ -166,7 +240,21 @@ employerRoutes.get("/candidates/:id", requireAuth, requireRole("EMPLOYER_ADMIN")
       documents: {
         include: { document: true }
       },
-      payments: true
+      payments: true,
+      interviews: {
+        include: {
+          panel: {
+            include: { user: { select: { id: true, firstName: true, lastName: true, email: true } } }
+          },
+          scorecards: {
+            include: {
+              interviewer: { select: { id: true, firstName: true, lastName: true, email: true } },
+              scores: { include: { criterion: true } }
+            }
+          }
+        },
+        orderBy: [{ round: "asc" }, { startsAt: "asc" }]
+      }
     }
   });
 
@@ -174,7 +262,9 @@ employerRoutes.get("/candidates/:id", requireAuth, requireRole("EMPLOYER_ADMIN")
     return c.json({ error: "Candidate not found" }, 404);
   }
 
-  return c.json({ candidate: application });
+  const scorecardSummary = await applicationScorecardSummary(applicationId);
+
+  return c.json({ candidate: application, scorecardSummary });
 });
 
 // Approve/reject candidate
@@ -187,57 +277,41 @@ const updateCandidateSchema = z.object({
 employerRoutes.patch(
   "/candidates/:id",
   requireAuth,
-  requireRole("EMPLOYER_ADMIN"),
+  requirePermission("hire.approve"),
   zValidator("json", updateCandidateSchema),
   async (c) => {
     const auth = c.get("auth");
     const applicationId = c.req.param("id");
     const data = c.req.valid("json");
-    
-    const employerAdmin = await db.employerAdmin.findUnique({
-      where: { userId: auth.userId }
-    });
 
-    if (!employerAdmin || !employerAdmin.canApproveHires) {
-      return c.json({ error: "Not authorized to approve hires" }, 403);
-    }
+    const existingApplication = await authorizeApplication(c.get("actor"), "hire.approve", applicationId);
 
-    const existingApplication = await db.application.findFirst({
-      where: { 
-        id: applicationId,
-        program: { employerId: employerAdmin.employerId }
-      }
-    });
+    // With a rubric the interview score comes from the panel's scorecards
+    if (data.interviewScore !== undefined) {
+      const rubricCriteria = await db.rubricCriterion.count({
+        where: { programId: existingApplication.programId }
+      });
 
-    if (!existingApplication) {
-      return c.json({ error: "Candidate not found" }, 404);
+      if (rubricCriteria > 0) {
+        return c.json({ error: "Interview score is calculated from scorecards for this program" }, 400);
+      }
     }
 
-    type UpdateData = {
-      status: string;
-      interviewNotes?: string;
-      interviewScore?: number;
-      acceptedAt?: Date;
-      rejectedAt?: Date;
-      rejectionReason?: string;
-    };
-
-    const updateData: UpdateData = {
-      status: data.decision === "APPROVE" ? "ACCEPTED" : "REJECTED",
-      interviewNotes: data.notes,
-      interviewScore: data.interviewScore
-    };
-
-    if (data.decision === "APPROVE") {
-      updateData.acceptedAt = new Date();
-    } else {
-      updateData.rejectedAt = new Date();
-      updateData.rejectionReason = data.notes;
-    }
+    await transitionApplication({
+      applicationId,
+      to: data.decision === "APPROVE" ? "ACCEPTED" : "REJECTED",
+      actor: { userId: auth.userId, role: auth.role },
+      reason: data.notes,
+      data: {
+        interviewNotes: data.notes,
+        interviewScore: data.interviewScore,
+        ...(data.decision === "REJECT" && { rejectionReason: data.notes })
+      },
+      waitlistWhenFull: true
+    });
 
-    const application = await db.application.update({
+    const application = await db.application.findUnique({
       where: { id: applicationId },
-      data: updateData as any,
       include: {
         student: {
           include: { user: true }
@@ -246,52 +320,66 @@ employerRoutes.patch(
       }
     });
 
+    auditChange(c, { before: existingApplication, after: application });
+
     return c.json({ candidate: application });
   }
 );
 
-// Schedule interview
+// Schedule or reschedule a candidate interview
 const scheduleInterviewSchema = z.object({
-  interviewDate: z.string(),
-  notes: z.string().optional()
+  interviewDate: z.string().datetime({ offset: true }),
+  durationMinutes: z.number().int().min(5).optional(),
+  round: z.number().int().min(1).optional(),
+  location: z.string().optional(),
+  meetingUrl: z.string().url().optional(),
+  notes: z.string().optional(),
+  panelUserIds: z.array(z.string()).min(1).optional()
 });
 
 employerRoutes.post(
   "/candidates/:id/interview",
   requireAuth,
-  requireRole("EMPLOYER_ADMIN"),
+  requirePermission("interview.manage"),
   zValidator("json", scheduleInterviewSchema),
   async (c) => {
     const auth = c.get("auth");
     const applicationId = c.req.param("id");
     const data = c.req.valid("json");
-    
-    const employerAdmin = await db.employerAdmin.findUnique({
-      where: { userId: auth.userId }
-    });
 
-    if (!employerAdmin) {
-      return c.json({ error: "Not authorized" }, 403);
-    }
+    const { program } = await authorizeApplication(c.get("actor"), "interview.manage", applicationId);
 
-    const existingApplication = await db.application.findFirst({
-      where: { 
-        id: applicationId,
-        program: { employerId: employerAdmin.employerId }
-      }
-    });
+    const round = data.round ?? 1;
+    const startsAt = new Date(data.interviewDate);
+    const endsAt = new Date(startsAt.getTime() + (data.durationMinutes ?? 60) * 60 * 1000);
 
-    if (!existingApplication) {
-      return c.json({ error: "Candidate not found" }, 404);
-    }
+    // An interview already scheduled for this round is moved rather than duplicated
+    const scheduled = await db.interview.findFirst({
+      where: { applicationId, round, status: "SCHEDULED" }
+    });
 
-    const application = await db.application.update({
+    const interview = scheduled
+      ? await rescheduleInterview(scheduled.id, {
+          startsAt,
+          endsAt,
+          location: data.location ?? scheduled.location,
+          meetingUrl: data.meetingUrl ?? scheduled.meetingUrl,
+          reason: data.notes
+        })
+      : await scheduleInterview({
+          applicationId,
+          actor: { userId: auth.userId, role: auth.role },
+          round,
+          startsAt,
+          endsAt,
+          location: data.location,
+          meetingUrl: data.meetingUrl,
+          notes: data.notes,
+          panelUserIds: data.panelUserIds ?? await defaultPanel(program.employerId, auth.userId)
+        });
+
+    const application = await db.application.findUnique({
       where: { id: applicationId },
-      data: {
-        status: "INTERVIEW_SCHEDULED",
-        interviewDate: new Date(data.interviewDate),
-        interviewNotes: data.notes
-      },
       include: {
         student: {
           include: { user: true }
@@ -300,12 +388,290 @@ employerRoutes.post(
       }
     });
 
-    return c.json({ candidate: application });
+    return c.json({ candidate: application, interview });
+  }
+);
+
+// Promo codes this employer sponsors
+employerRoutes.get("/discount-codes", requireAuth, requirePermission("employer.view"), async (c) => {
+  const { employerId } = actingEmployer(c.get("actor"));
+
+  const codes = await db.discountCode.findMany({
+    where: { employerId },
+    orderBy: { createdAt: "desc" },
+    include: { program: { select: { id: true, title: true } } }
+  });
+
+  const usage = await Promise.all(codes.map((code) => discountCodeUsage(code.id)));
+
+  return c.json({
+    codes: codes.map((code, index) => ({ ...code, uses: usage[index] }))
+  });
+});
+
+// Sponsor a promo code on one or all of this employer's programs
+employerRoutes.post(
+  "/discount-codes",
+  requireAuth,
+  requirePermission("discountCode.manage"),
+  zValidator("json", discountCodeSchema),
+  async (c) => {
+    const auth = c.get("auth");
+    const actor = c.get("actor");
+    const data = c.req.valid("json");
+
+    const { employerId } = actingEmployer(actor);
+
+    if (data.programId) {
+      await authorizeProgram(actor, "discountCode.manage", data.programId);
+    }
+
+    const code = await createDiscountCode({ ...data, employerId }, auth.userId);
+
+    auditChange(c, { entityId: code.id, after: code });
+
+    return c.json({ code }, 201);
+  }
+);
+
+// Deactivate a code or change its limits
+employerRoutes.patch(
+  "/discount-codes/:id",
+  requireAuth,
+  requirePermission("discountCode.manage"),
+  zValidator("json", discountCodeUpdateSchema),
+  async (c) => {
+    const codeId = c.req.param("id");
+    const data = c.req.valid("json");
+
+    const existing = await db.discountCode.findUnique({
+      where: { id: codeId }
+    });
+
+    if (!existing) {
+      return c.json({ error: "Discount code not found" }, 404);
+    }
+
+    // Codes the platform issues have no employer and stay with platform admins
+    authorize(c.get("actor"), "discountCode.manage", { employerId: existing.employerId ?? undefined });
+
+    const code = await db.discountCode.update({
+      where: { id: codeId },
+      data: {
+        ...data,
+        expiresAt: data.expiresAt === undefined ? undefined : data.expiresAt && new Date(data.expiresAt)
+      }
+    });
+
+    auditChange(c, { before: existing, after: code });
+
+    return c.json({ code });
+  }
+);
+
+// ============================================
+// STIPENDS
+// ============================================
+
+// Disbursements belong to the program of their cohort
+async function authorizeDisbursement(actor: Actor, disbursementId: string) {
+  const disbursement = await db.stipendDisbursement.findUnique({
+    where: { id: disbursementId },
+    include: { cohort: { select: { id: true, program: { select: { universityId: true, employerId: true } } } } }
+  });
+
+  if (!disbursement) {
+    throw new APIError(404, "Disbursement not found", "NOT_FOUND");
+  }
+
+  authorize(actor, "stipend.manage", disbursement.cohort.program);
+  return disbursement;
+}
+
+// Get a cohort's stipend schedule
+employerRoutes.get("/cohorts/:cohortId/disbursements", requireAuth, requirePermission("stipend.manage"), async (c) => {
+  const cohortId = c.req.param("cohortId");
+
+  await authorizeCohort(c.get("actor"), "stipend.manage", cohortId);
+
+  const cohort = await db.cohort.findUniqueOrThrow({
+    where: { id: cohortId },
+    include: { program: { select: { id: true, title: true, stipendAmount: true, stipendMinAttendance: true } } }
+  });
+
+  const disbursements = await db.stipendDisbursement.findMany({
+    where: { cohortId },
+    orderBy: { dueDate: "asc" }
+  });
+
+  const counts = await db.stipendPayout.groupBy({
+    by: ["disbursementId", "status"],
+    where: { disbursementId: { in: disbursements.map((d) => d.id) } },
+    _count: { _all: true },
+    _sum: { amount: true }
+  });
+
+  return c.json({
+    cohort,
+    disbursements: disbursements.map((disbursement) => ({
+      ...disbursement,
+      payouts: Object.fromEntries(
+        counts
+          .filter((row) => row.disbursementId === disbursement.id)
+          .map((row) => [row.status, { count: row._count._all, amount: row._sum.amount ?? 0 }])
+      )
+    }))
+  });
+});
+
+const disbursementScheduleSchema = z.object({
+  periods: z.array(z.object({
+    period: z.string().min(1).max(32),
+    dueDate: z.string().datetime({ offset: true }),
+    amountPerStudent: z.number().positive().optional()
+  })).min(1).max(24)
+});
+
+// Schedule stipend disbursements for a cohort
+employerRoutes.post(
+  "/cohorts/:cohortId/disbursements",
+  requireAuth,
+  requirePermission("stipend.manage"),
+  zValidator("json", disbursementScheduleSchema),
+  async (c) => {
+    const auth = c.get("auth");
+    const cohortId = c.req.param("cohortId");
+    const { periods } = c.req.valid("json");
+
+    await authorizeCohort(c.get("actor"), "stipend.manage", cohortId);
+
+    const disbursements = await createDisbursements(cohortId, periods, auth.userId);
+
+    return c.json({ disbursements }, 201);
+  }
+);
+
+// Get a disbursement with its payouts. Students who enrolled since the schedule was
+// created get their payout when the bank file is next exported.
+employerRoutes.get("/disbursements/:id", requireAuth, requirePermission("stipend.manage"), async (c) => {
+  const disbursementId = c.req.param("id");
+
+  await authorizeDisbursement(c.get("actor"), disbursementId);
+
+  const disbursement = await db.stipendDisbursement.findUniqueOrThrow({
+    where: { id: disbursementId },
+    include: {
+      cohort: { select: { id: true, name: true, programId: true } },
+      payouts: {
+        orderBy: { reference: "asc" },
+        include: {
+          application: {
+            select: {
+              id: true,
+              applicationNumber: true,
+              attendanceRate: true,
+              student: {
+                select: {
+                  payoutMethod: true,
+                  payoutAccountNumber: true,
+                  user: { select: { firstName: true, lastName: true, email: true } }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  });
+
+  return c.json({ disbursement });
+});
+
+// Download the bank bulk-payment file for a disbursement
+employerRoutes.post("/disbursements/:id/export", requireAuth, requirePermission("stipend.manage"), async (c) => {
+  const disbursementId = c.req.param("id");
+
+  const before = await authorizeDisbursement(c.get("actor"), disbursementId);
+
+  const { csv, exported, skipped, disbursement } = await exportPayoutFile(disbursementId);
+
+  auditChange(c, { before, after: disbursement });
+
+  if (c.req.query("format") === "json") {
+    return c.json({ csv, exported, skipped });
+  }
+
+  return c.body(csv, 200, {
+    "Content-Type": "text/csv; charset=utf-8",
+    "Content-Disposition": `attachment; filename="stipends-${disbursement.period}.csv"`,
+    "X-Payouts-Exported": String(exported),
+    "X-Payouts-Skipped": String(skipped.length)
+  });
+});
+
+const payoutResultsSchema = z.object({
+  results: z.array(z.object({
+    reference: z.string(),
+    status: z.enum(["PAID", "FAILED"]),
+    failureReason: z.string().optional()
+  })).min(1)
+});
+
+// Record the bank's results for an exported payout file
+employerRoutes.post(
+  "/disbursements/:id/results",
+  requireAuth,
+  requirePermission("stipend.manage"),
+  zValidator("json", payoutResultsSchema),
+  async (c) => {
+    const disbursementId = c.req.param("id");
+    const { results } = c.req.valid("json");
+
+    const before = await authorizeDisbursement(c.get("actor"), disbursementId);
+
+    const { disbursement, unmatched } = await recordPayoutResults(disbursementId, results);
+
+    auditChange(c, { before, after: disbursement });
+
+    return c.json({ disbursement, unmatched });
+  }
+);
+
+const updatePayoutSchema = z.object({
+  status: z.enum(["PENDING", "PAUSED", "CANCELLED"]),
+  reason: z.string().optional()
+});
+
+// Hold, release, retry or cancel one student's payout
+employerRoutes.patch(
+  "/payouts/:id",
+  requireAuth,
+  requirePermission("stipend.manage"),
+  zValidator("json", updatePayoutSchema),
+  async (c) => {
+    const payoutId = c.req.param("id");
+    const data = c.req.valid("json");
+
+    const existing = await db.stipendPayout.findUnique({
+      where: { id: payoutId }
+    });
+
+    if (!existing) {
+      return c.json({ error: "Payout not found" }, 404);
+    }
+
+    await authorizeDisbursement(c.get("actor"), existing.disbursementId);
+
+    const payout = await updatePayout(payoutId, data);
+
+    auditChange(c, { before: existing, after: payout });
+
+    return c.json({ payout });
   }
 );
 
 // Get list of universities (for reference)
-employerRoutes.get("/universities", requireAuth, requireRole("EMPLOYER_ADMIN"), async (c) => {
+employerRoutes.get("/universities", requireAuth, requirePermission("employer.view"), async (c) => {
   const universities = await db.university.findMany({
     where: { isVerified: true },
     orderBy: { name: "asc" }
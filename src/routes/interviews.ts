@@ -0,0 +1,420 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { z } from "zod";
+import { InterviewStatus } from "@prisma/client";
+import { db } from "../lib/db";
+import { authorizeApplication, loadActor, programScope, type Actor } from "../lib/authorization";
+import {
+  assertPanel,
+  bookInterviewSlot,
+  cancelInterview,
+  interviewInclude,
+  interviewInvite,
+  recordInterviewOutcome,
+  rescheduleInterview,
+  scheduleInterview,
+} from "../lib/interviews";
+import { SCORECARD_RECOMMENDATIONS, submitScorecard } from "../lib/scorecards";
+import { auditChange } from "../middleware/audit";
+import { requireAuth, requirePermission, requireRole, type AppEnv } from "../middleware/auth";
+
+export const interviewRoutes = new Hono<AppEnv>();
+
+// Panelists score and record outcomes through their seat on the panel, whatever their flags
+const STAFF_ROLES = ["UNIVERSITY_ADMIN", "EMPLOYER_ADMIN", "PLATFORM_ADMIN"];
+
+// Loads an interview with the caller's relationship to it, or null if they may not see it
+async function findInterviewForUser(actor: Actor, interviewId: string) {
+  const interview = await db.interview.findUnique({
+    where: { id: interviewId },
+    include: interviewInclude,
+  });
+
+  if (!interview) return null;
+
+  const isCandidate = interview.application.student.userId === actor.userId;
+  const isPanelist = interview.panel.some((panelist) => panelist.userId === actor.userId);
+
+  const scope = programScope(actor, "interview.manage");
+  const isStaff = !!scope && (await db.program.count({
+    where: { ...scope, id: interview.application.programId },
+  })) > 0;
+
+  if (!isCandidate && !isPanelist && !isStaff) return null;
+
+  return { interview, isCandidate, isPanelist, isStaff };
+}
+
+// List interviews (students see their own, staff see their programs')
+const listInterviewsSchema = z.object({
+  applicationId: z.string().optional(),
+  status: z.nativeEnum(InterviewStatus).optional(),
+});
+
+interviewRoutes.get("/", requireAuth, zValidator("query", listInterviewsSchema), async (c) => {
+  const auth = c.get("auth");
+  const { applicationId, status } = c.req.valid("query");
+
+  const scope = programScope(await loadActor(auth), "interview.manage");
+
+  const interviews = await db.interview.findMany({
+    where: {
+      ...(applicationId && { applicationId }),
+      ...(status && { status }),
+      application: scope ? { program: scope } : { student: { userId: auth.userId } },
+    },
+    include: interviewInclude,
+    orderBy: { startsAt: "asc" },
+  });
+
+  return c.json({ interviews });
+});
+
+// List interview slots for a program
+const listSlotsSchema = z.object({
+  programId: z.string(),
+  round: z.coerce.number().int().min(1).optional(),
+});
+
+interviewRoutes.get("/slots", requireAuth, zValidator("query", listSlotsSchema), async (c) => {
+  const auth = c.get("auth");
+  const { programId, round } = c.req.valid("query");
+
+  const scope = programScope(await loadActor(auth), "interview.manage");
+
+  if (scope) {
+    const program = await db.program.findFirst({ where: { ...scope, id: programId } });
+
+    if (!program) {
+      return c.json({ error: "Program not found" }, 404);
+    }
+  } else {
+    // Candidates only see slots for programs they are being interviewed for
+    const application = await db.application.findFirst({
+      where: {
+        programId,
+        student: { userId: auth.userId },
+        status: { in: ["SHORTLISTED", "INTERVIEW_SCHEDULED"] },
+      },
+    });
+
+    if (!application) {
+      return c.json({ error: "No interview invitation for this program" }, 403);
+    }
+  }
+
+  const slots = await db.interviewSlot.findMany({
+    where: {
+      programId,
+      startsAt: { gt: new Date() },
+      ...(round && { round }),
+      // Candidates only see slots nobody has booked
+      ...(!scope && { interviews: { none: { status: { not: "CANCELLED" } } } }),
+    },
+    include: scope
+      ? { interviews: { where: { status: { not: "CANCELLED" } }, select: { id: true, applicationId: true } } }
+      : undefined,
+    orderBy: { startsAt: "asc" },
+  });
+
+  return c.json({ slots });
+});
+
+// Publish availability slots
+const createSlotsSchema = z.object({
+  programId: z.string(),
+  round: z.number().int().min(1).optional(),
+  location: z.string().optional(),
+  meetingUrl: z.string().url().optional(),
+  panelUserIds: z.array(z.string()).optional(),
+  slots: z.array(z.object({
+    startsAt: z.string().datetime(),
+    endsAt: z.string().datetime(),
+  })).min(1),
+});
+
+interviewRoutes.post(
+  "/slots",
+  requireAuth,
+  requirePermission("interview.manage"),
+  zValidator("json", createSlotsSchema),
+  async (c) => {
+    const auth = c.get("auth");
+    const data = c.req.valid("json");
+
+    const scope = programScope(c.get("actor"), "interview.manage");
+    const program = scope && await db.program.findFirst({ where: { ...scope, id: data.programId } });
+
+    if (!program) {
+      return c.json({ error: "Program not found" }, 404);
+    }
+
+    const slots = data.slots.map((slot) => ({
+      startsAt: new Date(slot.startsAt),
+      endsAt: new Date(slot.endsAt),
+    }));
+
+    if (slots.some((slot) => slot.endsAt <= slot.startsAt || slot.startsAt <= new Date())) {
+      return c.json({ error: "Slots must be in the future and end after they start" }, 400);
+    }
+
+    const panelUserIds = data.panelUserIds && [...new Set(data.panelUserIds)];
+    await assertPanel(db, program.id, panelUserIds ?? []);
+
+    const created = await db.$transaction(
+      slots.map((slot) =>
+        db.interviewSlot.create({
+          data: {
+            ...slot,
+            programId: program.id,
+            round: data.round,
+            location: data.location,
+            meetingUrl: data.meetingUrl,
+            panelUserIds,
+            createdById: auth.userId,
+          },
+        })
+      )
+    );
+
+    return c.json({ slots: created }, 201);
+  }
+);
+
+// Remove an unbooked slot
+interviewRoutes.delete("/slots/:id", requireAuth, requirePermission("interview.manage"), async (c) => {
+  const slotId = c.req.param("id");
+
+  const scope = programScope(c.get("actor"), "interview.manage");
+  const slot = scope && await db.interviewSlot.findFirst({
+    where: { id: slotId, program: scope },
+    include: { interviews: { where: { status: { not: "CANCELLED" } } } },
+  });
+
+  if (!slot) {
+    return c.json({ error: "Slot not found" }, 404);
+  }
+
+  if (slot.interviews.length) {
+    return c.json({ error: "Slot is booked; cancel or reschedule the interview first" }, 409);
+  }
+
+  // Cancelled interviews keep their history but lose the slot reference
+  await db.$transaction([
+    db.interview.updateMany({ where: { slotId }, data: { slotId: null } }),
+    db.interviewSlot.delete({ where: { id: slotId } }),
+  ]);
+
+  return c.json({ success: true });
+});
+
+// Candidate books a slot
+const bookSlotSchema = z.object({
+  applicationId: z.string(),
+});
+
+interviewRoutes.post(
+  "/slots/:id/book",
+  requireAuth,
+  requireRole("STUDENT"),
+  requirePermission("application.update"),
+  zValidator("json", bookSlotSchema),
+  async (c) => {
+    const auth = c.get("auth");
+    const slotId = c.req.param("id");
+    const { applicationId } = c.req.valid("json");
+
+    await authorizeApplication(c.get("actor"), "application.update", applicationId);
+
+    const interview = await bookInterviewSlot(slotId, applicationId, { userId: auth.userId, role: auth.role });
+
+    return c.json({ interview }, 201);
+  }
+);
+
+// Schedule an interview directly
+const scheduleInterviewSchema = z.object({
+  applicationId: z.string(),
+  round: z.number().int().min(1).optional(),
+  startsAt: z.string().datetime(),
+  endsAt: z.string().datetime(),
+  location: z.string().optional(),
+  meetingUrl: z.string().url().optional(),
+  notes: z.string().optional(),
+  panelUserIds: z.array(z.string()).optional(),
+});
+
+interviewRoutes.post(
+  "/",
+  requireAuth,
+  requirePermission("interview.manage"),
+  zValidator("json", scheduleInterviewSchema),
+  async (c) => {
+    const auth = c.get("auth");
+    const data = c.req.valid("json");
+
+    await authorizeApplication(c.get("actor"), "interview.manage", data.applicationId);
+
+    const interview = await scheduleInterview({
+      ...data,
+      startsAt: new Date(data.startsAt),
+      endsAt: new Date(data.endsAt),
+      actor: { userId: auth.userId, role: auth.role },
+    });
+
+    return c.json({ interview }, 201);
+  }
+);
+
+// Get interview detail
+interviewRoutes.get("/:id", requireAuth, async (c) => {
+  const access = await findInterviewForUser(await loadActor(c.get("auth")), c.req.param("id"));
+
+  if (!access) {
+    return c.json({ error: "Interview not found" }, 404);
+  }
+
+  return c.json({ interview: access.interview });
+});
+
+// Download calendar invite
+interviewRoutes.get("/:id/invite.ics", requireAuth, async (c) => {
+  const access = await findInterviewForUser(await loadActor(c.get("auth")), c.req.param("id"));
+
+  if (!access) {
+    return c.json({ error: "Interview not found" }, 404);
+  }
+
+  return c.body(interviewInvite(access.interview), 200, {
+    "Content-Type": "text/calendar; charset=utf-8",
+    "Content-Disposition": `attachment; filename="interview-${access.interview.id}.ics"`,
+  });
+});
+
+// Reschedule interview (candidates must pick a published slot)
+const rescheduleInterviewSchema = z.object({
+  slotId: z.string().optional(),
+  startsAt: z.string().datetime().optional(),
+  endsAt: z.string().datetime().optional(),
+  location: z.string().optional(),
+  meetingUrl: z.string().url().optional(),
+  reason: z.string().optional(),
+});
+
+interviewRoutes.post("/:id/reschedule", requireAuth, zValidator("json", rescheduleInterviewSchema), async (c) => {
+  const data = c.req.valid("json");
+  const access = await findInterviewForUser(await loadActor(c.get("auth")), c.req.param("id"));
+
+  if (!access || (!access.isStaff && !access.isCandidate)) {
+    return c.json({ error: "Interview not found" }, 404);
+  }
+
+  if (!access.isStaff && !data.slotId) {
+    return c.json({ error: "Choose one of the published slots to reschedule" }, 400);
+  }
+
+  const interview = await rescheduleInterview(access.interview.id, {
+    ...data,
+    startsAt: data.startsAt ? new Date(data.startsAt) : undefined,
+    endsAt: data.endsAt ? new Date(data.endsAt) : undefined,
+  });
+
+  return c.json({ interview });
+});
+
+// Cancel interview
+const cancelInterviewSchema = z.object({
+  reason: z.string().optional(),
+});
+
+interviewRoutes.post("/:id/cancel", requireAuth, zValidator("json", cancelInterviewSchema), async (c) => {
+  const { reason } = c.req.valid("json");
+  const access = await findInterviewForUser(await loadActor(c.get("auth")), c.req.param("id"));
+
+  if (!access || (!access.isStaff && !access.isCandidate)) {
+    return c.json({ error: "Interview not found" }, 404);
+  }
+
+  const interview = await cancelInterview(access.interview.id, reason);
+
+  return c.json({ interview });
+});
+
+// Record attendance outcome
+const interviewOutcomeSchema = z.object({
+  attendance: z.enum(["ATTENDED", "NO_SHOW"]),
+  notes: z.string().optional(),
+});
+
+interviewRoutes.post(
+  "/:id/outcome",
+  requireAuth,
+  requireRole(...STAFF_ROLES),
+  zValidator("json", interviewOutcomeSchema),
+  async (c) => {
+    const auth = c.get("auth");
+    const data = c.req.valid("json");
+    const access = await findInterviewForUser(await loadActor(auth), c.req.param("id"));
+
+    if (!access || (!access.isStaff && !access.isPanelist)) {
+      return c.json({ error: "Interview not found" }, 404);
+    }
+
+    const interview = await recordInterviewOutcome(access.interview.id, data.attendance, auth.userId, data.notes);
+
+    auditChange(c, { before: access.interview, after: interview });
+
+    return c.json({ interview });
+  }
+);
+
+// Submit or update the signed-in panelist's scorecard
+const scorecardSchema = z.object({
+  scores: z.array(z.object({
+    criterionId: z.string(),
+    score: z.number().int().min(0),
+    comment: z.string().optional(),
+  })).min(1),
+  recommendation: z.enum(SCORECARD_RECOMMENDATIONS).optional(),
+  comments: z.string().optional(),
+});
+
+interviewRoutes.put(
+  "/:id/scorecard",
+  requireAuth,
+  requireRole(...STAFF_ROLES),
+  zValidator("json", scorecardSchema),
+  async (c) => {
+    const auth = c.get("auth");
+    const data = c.req.valid("json");
+    const access = await findInterviewForUser(await loadActor(auth), c.req.param("id"));
+
+    if (!access || !access.isPanelist) {
+      return c.json({ error: "Only panelists can score this interview" }, 403);
+    }
+
+    const scorecard = await submitScorecard(access.interview.id, auth.userId, data);
+
+    return c.json({ scorecard });
+  }
+);
+
+// Get all scorecards for an interview
+interviewRoutes.get("/:id/scorecards", requireAuth, requireRole(...STAFF_ROLES), async (c) => {
+  const access = await findInterviewForUser(await loadActor(c.get("auth")), c.req.param("id"));
+
+  if (!access || (!access.isStaff && !access.isPanelist)) {
+    return c.json({ error: "Interview not found" }, 404);
+  }
+
+  const scorecards = await db.scorecard.findMany({
+    where: { interviewId: access.interview.id },
+    include: {
+      interviewer: { select: { id: true, firstName: true, lastName: true, email: true } },
+      scores: { include: { criterion: true } },
+    },
+    orderBy: { submittedAt: "asc" },
+  });
+
+  return c.json({ scorecards });
+});
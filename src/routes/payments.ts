@@ -1,74 +1,44 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 import { zValidator } from "@hono/zod-validator";
+import type { Prisma } from "@prisma/client";
 import { z } from "zod";
-import { db } from "../lib/db";
-import { requireAuth, type AppEnv } from "../middleware/auth";
+import { db, serializable } from "../lib/db";
+import { authorize, authorizeApplication, type Actor } from "../lib/authorization";
+import { applicationFeeDue, discountAmount, findUsableDiscountCode } from "../lib/fees";
+import { getPaymentProvider, isPaymentProvider, type PaymentEventData } from "../lib/payment-providers";
+import { fromMinorUnits, toMinorUnits } from "../lib/paystack";
+import { processPaymentEvent, recordDispute, settlePayment, type EventHandlerResult } from "../lib/payments";
+import { issueReceipt, renderReceipt } from "../lib/receipts";
+import { findRefundForEvent, markRefundFailed, markRefundProcessed } from "../lib/refunds";
+import { chargeOutcome, paymentProviderOf } from "../lib/settlement";
+import { requireAuth, requirePermission, type AppEnv } from "../middleware/auth";
 
 export const paymentRoutes = new Hono<AppEnv>();
 
-const PAYSTACK_SECRET_KEY = process.env.PAYSTACK_SECRET_KEY || "";
-const PAYSTACK_BASE_URL = "https://api.paystack.co";
-
-// Paystack response types
-interface PaystackInitResponse {
-  status: boolean;
-  message: string;
-  data: {
-    authorization_url: string;
-    access_code: string;
-    reference: string;
-  };
-}
-
-interface PaystackVerifyResponse {
-  status: boolean;
-  message: string;
-  data: {
-    status: string;
-    channel: string;
-    amount: number;
-    metadata: {
-      paymentId?: string;
-      applicationId?: string;
-    };
-    reference: string;
-  };
-}
-
 // Initialize payment
 const initializePaymentSchema = z.object({
   applicationId: z.string(),
   callbackUrl: z.string().url().optional(),
+  // Restricts checkout to mobile money (MTN MoMo, Vodafone Cash, AirtelTigo)
+  channel: z.enum(["card", "mobile_money"]).optional(),
+  discountCode: z.string().min(1).optional(),
 });
 
 paymentRoutes.post(
   "/initialize",
   requireAuth,
+  requirePermission("application.update"),
   zValidator("json", initializePaymentSchema),
   async (c) => {
-    const auth = c.get("auth");
-    const { applicationId, callbackUrl } = c.req.valid("json");
-
-    // Get student
-    const student = await db.student.findUnique({
-      where: { userId: auth.userId },
-      include: { user: true },
-    });
+    const { applicationId, callbackUrl, channel, discountCode } = c.req.valid("json");
 
-    if (!student) {
-      return c.json({ error: "Student profile required" }, 400);
-    }
+    const application = await authorizeApplication(c.get("actor"), "application.update", applicationId);
 
-    // Get application
-    const application = await db.application.findFirst({
-      where: { id: applicationId, studentId: student.id },
-      include: { program: true },
+    const student = await db.student.findUniqueOrThrow({
+      where: { id: application.studentId },
+      include: { user: true },
     });
 
-    if (!application) {
-      return c.json({ error: "Application not found" }, 404);
-    }
-
     // Check if already paid
     const existingPayment = await db.payment.findFirst({
       where: { applicationId, status: "COMPLETED" },
@@ -78,117 +48,131 @@ paymentRoutes.post(
       return c.json({ error: "Payment already completed" }, 400);
     }
 
-    const amount = application.program.applicationFee;
+    const { fee, due } = await applicationFeeDue(application);
 
-    if (amount <= 0) {
+    if (fee <= 0) {
       return c.json({ error: "No payment required for this program" }, 400);
     }
 
-    // Create pending payment record
-    const payment = await db.payment.create({
-      data: {
-        studentId: student.id,
-        applicationId,
-        amount,
-        currency: "GHS",
-        description: `Application fee for ${application.program.title}`,
-        paymentProvider: "paystack",
-        status: "PENDING",
-      },
+    if (due <= 0) {
+      return c.json({ error: "The application fee has been waived" }, 400);
+    }
+
+    // Programs can pick their own provider; otherwise PAYMENT_PROVIDER applies
+    const provider = getPaymentProvider(application.program.paymentProvider);
+
+    // Create pending payment record, holding a use of the discount code if one was given
+    const { payment, discount } = await serializable(async (tx) => {
+      const code = discountCode ? await findUsableDiscountCode(tx, discountCode, application) : null;
+      const discount = code ? discountAmount(code, due) : 0;
+
+      const payment = await tx.payment.create({
+        data: {
+          studentId: student.id,
+          applicationId,
+          amount: fromMinorUnits(toMinorUnits(due) - toMinorUnits(discount)),
+          currency: "GHS",
+          description: `Application fee for ${application.program.title}`,
+          paymentProvider: provider.name,
+          status: "PENDING",
+        },
+      });
+
+      if (code) {
+        await tx.discountRedemption.create({
+          data: { codeId: code.id, paymentId: payment.id, applicationId, amount: discount },
+        });
+      }
+
+      return { payment, discount };
     });
 
-    // Initialize Paystack transaction
-    const paystackResponse = await fetch(`${PAYSTACK_BASE_URL}/transaction/initialize`, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${PAYSTACK_SECRET_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        email: student.user.email,
-        amount: Math.round(amount * 100), // Paystack expects amount in pesewas
+    const amount = payment.amount;
+
+    // A code that covers the whole balance settles without a checkout
+    if (amount <= 0) {
+      const { payment: settled } = await settlePayment({
+        provider: provider.name,
+        paymentId: payment.id,
+        succeeded: true,
+        reference: `discount:${discountCode}`,
+        channel: "discount",
+      });
+
+      return c.json({
+        payment: { id: payment.id, amount, discount, currency: "GHS", status: settled?.status },
+        checkout: null,
+      });
+    }
+
+    let checkout;
+    try {
+      checkout = await provider.initialize({
+        paymentId: payment.id,
+        amount,
         currency: "GHS",
-        reference: payment.id,
-        callback_url: callbackUrl || `${process.env.FRONTEND_URL || "http://localhost:3001"}/payments/callback`,
+        email: student.user.email,
+        phone: student.user.phone,
+        name: [student.user.firstName, student.user.lastName].filter(Boolean).join(" ") || null,
+        channel,
+        callbackUrl: callbackUrl || `${process.env.FRONTEND_URL || "http://localhost:3001"}/payments/callback`,
         metadata: {
-          paymentId: payment.id,
           applicationId,
           studentId: student.id,
           programTitle: application.program.title,
         },
-      }),
-    });
-
-    const paystackData = await paystackResponse.json() as PaystackInitResponse;
-
-    if (!paystackData.status) {
+      });
+    } catch (error) {
       // Clean up pending payment
       await db.payment.delete({ where: { id: payment.id } });
-      return c.json({ error: paystackData.message || "Failed to initialize payment" }, 500);
+      throw error;
     }
 
     // Update payment with provider reference
     await db.payment.update({
       where: { id: payment.id },
-      data: { providerRef: paystackData.data.reference },
+      data: { providerRef: checkout.reference },
     });
 
     return c.json({
       payment: {
         id: payment.id,
         amount,
+        discount,
         currency: "GHS",
+        provider: provider.name,
       },
-      paystack: {
-        authorization_url: paystackData.data.authorization_url,
-        access_code: paystackData.data.access_code,
-        reference: paystackData.data.reference,
+      checkout: {
+        authorization_url: checkout.authorizationUrl,
+        access_code: checkout.accessCode,
+        reference: checkout.reference,
       },
     });
   }
 );
 
 // Verify payment
-paymentRoutes.get("/verify/:reference", requireAuth, async (c) => {
+paymentRoutes.get("/verify/:reference", requireAuth, requirePermission("payment.view"), async (c) => {
   const reference = c.req.param("reference");
 
-  // Verify with Paystack
-  const paystackResponse = await fetch(`${PAYSTACK_BASE_URL}/transaction/verify/${reference}`, {
-    headers: {
-      Authorization: `Bearer ${PAYSTACK_SECRET_KEY}`,
-    },
+  // The reference is our payment id, which also tells us which provider to ask
+  const existing = await findPaymentForUser(c.get("actor"), {
+    OR: [{ id: reference }, { providerRef: reference }],
   });
 
-  const paystackData = await paystackResponse.json() as PaystackVerifyResponse;
-
-  if (!paystackData.status) {
-    return c.json({ error: "Payment verification failed" }, 400);
+  if (!existing) {
+    return c.json({ error: "Payment not found" }, 404);
   }
 
-  const transaction = paystackData.data;
-  const paymentId = transaction.metadata?.paymentId || reference;
+  const charge = await getPaymentProvider(paymentProviderOf(existing)).verify(reference);
 
-  // Update payment record
-  const payment = await db.payment.update({
-    where: { id: paymentId },
-    data: {
-      status: transaction.status === "success" ? "COMPLETED" : "FAILED",
-      paymentMethod: transaction.channel,
-      paidAt: transaction.status === "success" ? new Date() : null,
-    },
-    include: { application: true },
-  });
+  // Transactions still in progress are reported without settling either way
+  const { payment } = charge.status === "pending"
+    ? { payment: existing }
+    : await settlePayment(chargeOutcome(charge));
 
-  // If payment successful, update application
-  if (transaction.status === "success" && payment.application) {
-    await db.application.update({
-      where: { id: payment.applicationId! },
-      data: {
-        // Application is now ready for review
-        status: payment.application.status === "DRAFT" ? "SUBMITTED" : payment.application.status,
-        submittedAt: payment.application.status === "DRAFT" ? new Date() : payment.application.submittedAt,
-      },
-    });
+  if (!payment) {
+    return c.json({ error: "Payment not found" }, 404);
   }
 
   return c.json({
@@ -199,61 +183,70 @@ paymentRoutes.get("/verify/:reference", requireAuth, async (c) => {
       paidAt: payment.paidAt,
     },
     transaction: {
-      status: transaction.status,
-      channel: transaction.channel,
-      amount: transaction.amount / 100, // Convert from pesewas
+      status: charge.status,
+      channel: charge.channel,
+      amount: fromMinorUnits(charge.amountMinor),
     },
   });
 });
 
-// Paystack webhook
-paymentRoutes.post("/webhook", async (c) => {
-  const signature = c.req.header("x-paystack-signature");
-  const body = await c.req.text();
+// Events only ever touch payments taken through the provider they arrived from
+async function applyPaymentEvent(provider: string, data: PaymentEventData): Promise<EventHandlerResult> {
+  switch (data.kind) {
+    case "charge": {
+      // A webhook for a charge still in progress has nothing to settle
+      if (data.charge.status === "pending") return { paymentId: data.charge.paymentId, applied: false };
 
-  // Verify webhook signature
-  const crypto = await import("crypto");
-  const hash = crypto.createHmac("sha512", PAYSTACK_SECRET_KEY).update(body).digest("hex");
+      const { payment, changed } = await settlePayment(chargeOutcome(data.charge));
+      return { paymentId: payment?.id, applied: changed };
+    }
 
-  if (hash !== signature) {
-    return c.json({ error: "Invalid signature" }, 401);
-  }
+    case "refund": {
+      const refund = await findRefundForEvent({ ...data, provider });
+      if (!refund) return { applied: false };
 
-  const event = JSON.parse(body);
+      const updated = data.status === "processed"
+        ? await markRefundProcessed(refund.id)
+        : await markRefundFailed(refund.id, data.reason || "Refund failed at provider");
 
-  if (event.event === "charge.success") {
-    const transaction = event.data;
-    const paymentId = transaction.metadata?.paymentId || transaction.reference;
+      return { paymentId: refund.paymentId, applied: !!updated };
+    }
 
-    // Update payment
-    await db.payment.update({
-      where: { id: paymentId },
-      data: {
-        status: "COMPLETED",
-        paymentMethod: transaction.channel,
-        paidAt: new Date(),
-      },
-    });
+    case "dispute": {
+      const payment = await recordDispute({ ...data, provider });
+      return { paymentId: payment?.id, applied: !!payment };
+    }
 
-    // Get payment to update application
-    const payment = await db.payment.findUnique({
-      where: { id: paymentId },
-      include: { application: true },
-    });
+    default:
+      return { applied: false };
+  }
+}
 
-    if (payment?.application && payment.application.status === "DRAFT") {
-      await db.application.update({
-        where: { id: payment.applicationId! },
-        data: {
-          status: "SUBMITTED",
-          submittedAt: new Date(),
-        },
-      });
-    }
+async function receiveWebhook(c: Context<AppEnv>, providerName: string) {
+  if (!isPaymentProvider(providerName)) {
+    return c.json({ error: "Unknown payment provider" }, 404);
   }
 
-  return c.json({ received: true });
-});
+  const provider = getPaymentProvider(providerName);
+  const body = await c.req.text();
+
+  // Throws 401 when the signature does not verify
+  const event = provider.parseWebhook(body, c.req.header());
+
+  // Failures are rethrown so the provider retries; anything we cannot apply is acknowledged
+  const result = await processPaymentEvent(
+    { provider: provider.name, eventId: event.eventId, type: event.type, payload: event.payload },
+    () => applyPaymentEvent(provider.name, event.data)
+  );
+
+  return c.json({ received: true, duplicate: result.duplicate });
+}
+
+// Provider webhooks, e.g. /webhook/paystack or /webhook/flutterwave
+paymentRoutes.post("/webhook/:provider", (c) => receiveWebhook(c, c.req.param("provider")));
+
+// Original Paystack webhook URL, kept for dashboards that still point at it
+paymentRoutes.post("/webhook", (c) => receiveWebhook(c, "paystack"));
 
 // Get payment history
 paymentRoutes.get("/history", requireAuth, async (c) => {
@@ -281,30 +274,83 @@ paymentRoutes.get("/history", requireAuth, async (c) => {
 });
 
 // Get single payment
-paymentRoutes.get("/:id", requireAuth, async (c) => {
-  const auth = c.get("auth");
-  const paymentId = c.req.param("id");
+paymentRoutes.get("/:id", requireAuth, requirePermission("payment.view"), async (c) => {
+  const payment = await findPaymentForUser(c.get("actor"), { id: c.req.param("id") });
 
-  const student = await db.student.findUnique({
-    where: { userId: auth.userId },
-  });
-
-  if (!student) {
-    return c.json({ error: "Not authorized" }, 403);
+  if (!payment) {
+    return c.json({ error: "Payment not found" }, 404);
   }
 
+  return c.json({ payment });
+});
+
+// Payments are visible to the student who made them, platform admins, and the staff of
+// the program's university and employer (who sponsor or reconcile fees)
+async function findPaymentForUser(actor: Actor, where: Prisma.PaymentWhereInput) {
   const payment = await db.payment.findFirst({
-    where: { id: paymentId, studentId: student.id },
+    where,
     include: {
+      student: { select: { userId: true } },
       application: {
         include: { program: true },
       },
     },
   });
 
+  if (payment) {
+    authorize(actor, "payment.view", {
+      studentUserId: payment.student.userId,
+      universityId: payment.application?.program.universityId,
+      employerId: payment.application?.program.employerId,
+    });
+  }
+
+  return payment;
+}
+
+function pdfResponse(c: Context<AppEnv>, filename: string, content: Uint8Array) {
+  return c.body(new Uint8Array(content), 200, {
+    "Content-Type": "application/pdf",
+    "Content-Disposition": `attachment; filename="${filename}"`,
+  });
+}
+
+// Download the payment receipt as PDF
+paymentRoutes.get("/:id/receipt", requireAuth, requirePermission("payment.view"), async (c) => {
+  const payment = await findPaymentForUser(c.get("actor"), { id: c.req.param("id") });
+
   if (!payment) {
     return c.json({ error: "Payment not found" }, 404);
   }
 
-  return c.json({ payment });
+  if (payment.status !== "COMPLETED" && payment.status !== "REFUNDED") {
+    return c.json({ error: "Receipts are issued once a payment is completed" }, 409);
+  }
+
+  // Payments completed before receipts existed get theirs on first download
+  const receipt = await serializable((tx) => issueReceipt(tx, payment.id, { email: false }));
+  const { filename, content } = await renderReceipt(receipt.id);
+
+  return pdfResponse(c, filename, content);
+});
+
+// Download the credit note for a processed refund as PDF
+paymentRoutes.get("/:id/refunds/:refundId/credit-note", requireAuth, requirePermission("payment.view"), async (c) => {
+  const payment = await findPaymentForUser(c.get("actor"), { id: c.req.param("id") });
+
+  if (!payment) {
+    return c.json({ error: "Payment not found" }, 404);
+  }
+
+  const creditNote = await db.receipt.findFirst({
+    where: { paymentId: payment.id, refundId: c.req.param("refundId"), kind: "CREDIT_NOTE" },
+  });
+
+  if (!creditNote) {
+    return c.json({ error: "Credit note not found" }, 404);
+  }
+
+  const { filename, content } = await renderReceipt(creditNote.id);
+
+  return pdfResponse(c, filename, content);
 });
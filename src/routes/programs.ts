@@ -1,8 +1,12 @@
 import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { z } from "zod";
+import { ProgramStatus } from "@prisma/client";
 import { db } from "../lib/db";
-import { requireAuth, requireRole, type AppEnv } from "../middleware/auth";
+import { authorize, authorizeProgram } from "../lib/authorization";
+import { checkStudentEligibility } from "../lib/eligibility";
+import { auditChange } from "../middleware/audit";
+import { requireAuth, requirePermission, type AppEnv } from "../middleware/auth";
 
 export const programRoutes = new Hono<AppEnv>();
 
@@ -80,6 +84,36 @@ programRoutes.get("/:slug", async (c) => {
   return c.json({ program });
 });
 
+// Dry-run eligibility check for the current student
+programRoutes.get("/:slug/eligibility", requireAuth, async (c) => {
+  const auth = c.get("auth");
+  const slug = c.req.param("slug");
+
+  const student = await db.student.findUnique({
+    where: { userId: auth.userId },
+  });
+
+  if (!student) {
+    return c.json({ error: "Student profile required" }, 400);
+  }
+
+  const program = await db.program.findUnique({
+    where: { slug },
+    select: { id: true, title: true, minEducation: true, requiredGrades: true, additionalRequirements: true },
+  });
+
+  if (!program) {
+    return c.json({ error: "Program not found" }, 404);
+  }
+
+  const eligibility = await checkStudentEligibility(student.id, program);
+
+  return c.json({
+    program: { id: program.id, title: program.title },
+    eligibility,
+  });
+});
+
 // Create program (admin/university)
 const createProgramSchema = z.object({
   title: z.string().min(5),
@@ -99,8 +133,10 @@ const createProgramSchema = z.object({
   requiredGrades: z.record(z.string()).optional(),
   additionalRequirements: z.array(z.string()).optional(),
   applicationFee: z.number().default(0),
+  paymentProvider: z.enum(["paystack", "flutterwave"]).optional(),
   isFunded: z.boolean().default(true),
   stipendAmount: z.number().optional(),
+  stipendMinAttendance: z.number().min(0).max(100).optional(),
   hasInternship: z.boolean().default(true),
   internshipDuration: z.number().optional(),
   tags: z.array(z.string()).optional(),
@@ -109,11 +145,13 @@ const createProgramSchema = z.object({
 programRoutes.post(
   "/",
   requireAuth,
-  requireRole("PLATFORM_ADMIN", "UNIVERSITY_ADMIN"),
+  requirePermission("program.manage"),
   zValidator("json", createProgramSchema),
   async (c) => {
     const body = c.req.valid("json");
 
+    authorize(c.get("actor"), "program.manage", { universityId: body.universityId });
+
     // Generate slug from title
     const slug = body.title
       .toLowerCase()
@@ -133,18 +171,28 @@ programRoutes.post(
       },
     });
 
+    auditChange(c, { entityId: program.id, after: program });
+
     return c.json({ program }, 201);
   }
 );
 
 // Update program status
+const updateProgramStatusSchema = z.object({
+  status: z.nativeEnum(ProgramStatus).optional(),
+  isPublished: z.boolean().optional(),
+});
+
 programRoutes.patch(
   "/:id/status",
   requireAuth,
-  requireRole("PLATFORM_ADMIN", "UNIVERSITY_ADMIN"),
+  requirePermission("program.manage"),
+  zValidator("json", updateProgramStatusSchema),
   async (c) => {
     const id = c.req.param("id");
-    const { status, isPublished } = await c.req.json();
+    const { status, isPublished } = c.req.valid("json");
+
+    const before = await authorizeProgram(c.get("actor"), "program.manage", id);
 
     const program = await db.program.update({
       where: { id },
@@ -154,14 +202,18 @@ programRoutes.patch(
       },
     });
 
+    auditChange(c, { before, after: program });
+
     return c.json({ program });
   }
 );
 
 // Get programs by university (for university admins)
-programRoutes.get("/university/:universityId", requireAuth, async (c) => {
+programRoutes.get("/university/:universityId", requireAuth, requirePermission("university.view"), async (c) => {
   const universityId = c.req.param("universityId");
 
+  authorize(c.get("actor"), "university.view", { universityId });
+
   const programs = await db.program.findMany({
     where: { universityId },
     include: {
@@ -179,9 +231,11 @@ programRoutes.get("/university/:universityId", requireAuth, async (c) => {
 });
 
 // Get programs by employer (for employer admins)
-programRoutes.get("/employer/:employerId", requireAuth, async (c) => {
+programRoutes.get("/employer/:employerId", requireAuth, requirePermission("employer.view"), async (c) => {
   const employerId = c.req.param("employerId");
 
+  authorize(c.get("actor"), "employer.view", { employerId });
+
   const programs = await db.program.findMany({
     where: { employerId },
     include: {
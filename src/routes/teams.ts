@@ -0,0 +1,188 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { z } from "zod";
+import {
+  acceptInvitation,
+  actingTeam,
+  inviteMember,
+  listInvitations,
+  listMembers,
+  listTeamEvents,
+  removeMember,
+  revokeInvitation,
+  transferOwnership,
+  updateMember,
+} from "../lib/teams";
+import { auditChange } from "../middleware/audit";
+import { requireAuth, requirePermission, type AppEnv } from "../middleware/auth";
+
+// The university or employer team the signed-in admin belongs to. Owners manage it.
+export const teamRoutes = new Hono<AppEnv>();
+
+// Flags that do not apply to the team's kind are rejected by the teams module
+const permissionsSchema = z
+  .object({
+    canManagePrograms: z.boolean(),
+    canReviewApplications: z.boolean(),
+    canCreatePrograms: z.boolean(),
+    canReviewCandidates: z.boolean(),
+    canApproveHires: z.boolean(),
+  })
+  .partial()
+  .strict();
+
+// List team members
+teamRoutes.get("/members", requireAuth, requirePermission("team.view"), async (c) => {
+  const members = await listMembers(actingTeam(c.get("actor")));
+
+  return c.json({ members });
+});
+
+// Change a member's permissions or profile
+const updateMemberSchema = z.object({
+  title: z.string().optional(),
+  department: z.string().optional(),
+  permissions: permissionsSchema.optional(),
+});
+
+teamRoutes.patch(
+  "/members/:userId",
+  requireAuth,
+  requirePermission("team.manage"),
+  zValidator("json", updateMemberSchema),
+  async (c) => {
+    const actor = c.get("actor");
+
+    const { before, after } = await updateMember(
+      actor,
+      actingTeam(actor),
+      c.req.param("userId"),
+      c.req.valid("json"),
+    );
+    auditChange(c, { action: "teamMember.update", before, after });
+
+    return c.json({ members: await listMembers(actingTeam(actor)) });
+  }
+);
+
+// Revoke a member's access
+teamRoutes.delete("/members/:userId", requireAuth, requirePermission("team.manage"), async (c) => {
+  const actor = c.get("actor");
+
+  const before = await removeMember(actor, actingTeam(actor), c.req.param("userId"));
+  auditChange(c, { action: "teamMember.remove", before });
+
+  return c.json({ success: true });
+});
+
+// Hand ownership to another member; the current owner stays on as a regular member
+const transferOwnershipSchema = z.object({
+  userId: z.string(),
+});
+
+teamRoutes.post(
+  "/transfer-ownership",
+  requireAuth,
+  requirePermission("team.manage"),
+  zValidator("json", transferOwnershipSchema),
+  async (c) => {
+    const actor = c.get("actor");
+
+    const { userId } = c.req.valid("json");
+
+    const { before, after } = await transferOwnership(actor, actingTeam(actor), userId);
+    auditChange(c, { action: "team.transferOwnership", entityType: "user", entityId: userId, before, after });
+
+    return c.json({ members: await listMembers(actingTeam(actor)) });
+  }
+);
+
+// List invitations
+const invitationStatusSchema = z.object({
+  status: z.enum(["PENDING", "ACCEPTED", "REVOKED"]).optional(),
+});
+
+teamRoutes.get(
+  "/invitations",
+  requireAuth,
+  requirePermission("team.manage"),
+  zValidator("query", invitationStatusSchema),
+  async (c) => {
+    const invitations = await listInvitations(actingTeam(c.get("actor")), c.req.valid("query").status);
+
+    return c.json({ invitations });
+  }
+);
+
+// Invite someone by email; inviting the same address again re-sends with a fresh link
+const inviteMemberSchema = z.object({
+  email: z.string().email(),
+  title: z.string().optional(),
+  department: z.string().optional(),
+  permissions: permissionsSchema.optional(),
+});
+
+teamRoutes.post(
+  "/invitations",
+  requireAuth,
+  requirePermission("team.manage"),
+  zValidator("json", inviteMemberSchema),
+  async (c) => {
+    const actor = c.get("actor");
+    const { email, ...details } = c.req.valid("json");
+
+    const invitation = await inviteMember(actor, actingTeam(actor), email, details);
+
+    return c.json({ invitation }, 201);
+  }
+);
+
+// Revoke a pending invitation
+teamRoutes.delete("/invitations/:id", requireAuth, requirePermission("team.manage"), async (c) => {
+  const actor = c.get("actor");
+
+  const invitation = await revokeInvitation(actor, actingTeam(actor), c.req.param("id"));
+
+  return c.json({ invitation });
+});
+
+// Accept an invitation with the token from the email
+const acceptInvitationSchema = z.object({
+  token: z.string().min(1),
+});
+
+teamRoutes.post("/invitations/accept", requireAuth, zValidator("json", acceptInvitationSchema), async (c) => {
+  const auth = c.get("auth");
+
+  const team = await acceptInvitation(auth.userId, c.req.valid("json").token);
+
+  return c.json({ team });
+});
+
+// Audit trail of membership changes
+const listEventsSchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(50),
+});
+
+teamRoutes.get(
+  "/events",
+  requireAuth,
+  requirePermission("team.manage"),
+  zValidator("query", listEventsSchema),
+  async (c) => {
+    const { page, limit } = c.req.valid("query");
+
+    const { events, total } = await listTeamEvents(actingTeam(c.get("actor")), page, limit);
+
+    return c.json({
+      events,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  }
+);
@@ -1,25 +1,41 @@
 import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { z } from "zod";
-import { db } from "../lib/db";
-import { requireAuth, requireRole, type AppEnv } from "../middleware/auth";
+import { ApplicationStatus, FeeWaiverStatus, type Prisma } from "@prisma/client";
+import { db, serializable } from "../lib/db";
+import { transitionApplication } from "../lib/application-status";
+import {
+  actingUniversity,
+  applicationResource,
+  authorize,
+  authorizeApplication,
+  authorizeCohort,
+  authorizeProgram
+} from "../lib/authorization";
+import {
+  COHORT_STATUSES,
+  assertCohortTransition,
+  assignToCohort,
+  cohortSeatsTaken,
+  toCsv,
+  transferBetweenCohorts
+} from "../lib/cohorts";
+import { feeWaiverDecisionSchema, reviewFeeWaiver } from "../lib/fees";
+import { scoreApplication } from "../lib/scoring";
+import { SEAT_HOLDING_STATUSES, resizeProgramSlots } from "../lib/slots";
+import { recordAttendance } from "../lib/stipends";
+import { reorderWaitlist } from "../lib/waitlist";
+import { auditChange } from "../middleware/audit";
+import { requireAuth, requirePermission, type AppEnv } from "../middleware/auth";
+import { APIError } from "../middleware/error-handler";
 
 export const universityRoutes = new Hono<AppEnv>();
 
 // Get university dashboard stats
-universityRoutes.get("/dashboard", requireAuth, requireRole("UNIVERSITY_ADMIN"), async (c) => {
-  const auth = c.get("auth");
-  
-  const universityAdmin = await db.universityAdmin.findUnique({
-    where: { userId: auth.userId },
-    include: { university: true }
-  });
-
-  if (!universityAdmin) {
-    return c.json({ error: "University admin not found" }, 404);
-  }
+universityRoutes.get("/dashboard", requireAuth, requirePermission("university.view"), async (c) => {
+  const { universityId } = actingUniversity(c.get("actor"));
 
-  const universityId = universityAdmin.universityId;
+  const university = await db.university.findUniqueOrThrow({ where: { id: universityId } });
 
   // Get stats
   const [programs, totalApplications, pendingReview, shortlisted] = await Promise.all([
@@ -49,7 +65,7 @@ universityRoutes.get("/dashboard", requireAuth, requireRole("UNIVERSITY_ADMIN"),
   ]);
 
   return c.json({
-    university: universityAdmin.university,
+    university,
     stats: {
       totalPrograms: programs.length,
       activePrograms: programs.filter((p: { status: string }) => p.status === "OPEN").length,
@@ -62,19 +78,11 @@ universityRoutes.get("/dashboard", requireAuth, requireRole("UNIVERSITY_ADMIN"),
 });
 
 // Get university programs
-universityRoutes.get("/programs", requireAuth, requireRole("UNIVERSITY_ADMIN"), async (c) => {
-  const auth = c.get("auth");
-  
-  const universityAdmin = await db.universityAdmin.findUnique({
-    where: { userId: auth.userId }
-  });
-
-  if (!universityAdmin) {
-    return c.json({ error: "University admin not found" }, 404);
-  }
+universityRoutes.get("/programs", requireAuth, requirePermission("program.view"), async (c) => {
+  const { universityId } = actingUniversity(c.get("actor"));
 
   const programs = await db.program.findMany({
-    where: { universityId: universityAdmin.universityId },
+    where: { universityId },
     include: {
       employer: true,
       _count: { select: { applications: true } }
@@ -94,17 +102,20 @@ const createProgramSchema = z.object({
   field: z.string(),
   specialization: z.string().optional(),
   jobRole: z.string(),
-  totalSlots: z.number().min(1),
-  applicationDeadline: z.string(),
-  startDate: z.string(),
-  endDate: z.string(),
+  totalSlots: z.number().int().min(1),
+  waitlistEnabled: z.boolean().optional(),
+  applicationDeadline: z.string().datetime({ offset: true }),
+  startDate: z.string().datetime({ offset: true }),
+  endDate: z.string().datetime({ offset: true }),
   durationWeeks: z.number().min(1),
   minEducation: z.string().optional(),
   requiredGrades: z.record(z.string()).optional(),
   additionalRequirements: z.array(z.string()).optional(),
   applicationFee: z.number().min(0).optional(),
+  paymentProvider: z.enum(["paystack", "flutterwave"]).optional(),
   isFunded: z.boolean().optional(),
   stipendAmount: z.number().optional(),
+  stipendMinAttendance: z.number().min(0).max(100).optional(),
   hasInternship: z.boolean().optional(),
   internshipDuration: z.number().optional(),
   tags: z.array(z.string()).optional()
@@ -114,19 +125,12 @@ const createProgramSchema = z.object({
 universityRoutes.post(
   "/programs",
   requireAuth,
-  requireRole("UNIVERSITY_ADMIN"),
+  requirePermission("program.manage"),
   zValidator("json", createProgramSchema),
   async (c) => {
-    const auth = c.get("auth");
     const data = c.req.valid("json");
-    
-    const universityAdmin = await db.universityAdmin.findUnique({
-      where: { userId: auth.userId }
-    });
 
-    if (!universityAdmin || !universityAdmin.canManagePrograms) {
-      return c.json({ error: "Not authorized to manage programs" }, 403);
-    }
+    const { universityId } = actingUniversity(c.get("actor"));
 
     // Generate slug
     const slug = `${data.title.toLowerCase().replace(/[^a-z0-9]+/g, "-")}-${Date.now().toString(36)}`;
@@ -135,7 +139,7 @@ universityRoutes.post(
       data: {
         ...data,
         slug,
-        universityId: universityAdmin.universityId,
+        universityId,
         availableSlots: data.totalSlots,
         applicationDeadline: new Date(data.applicationDeadline),
         startDate: new Date(data.startDate),
@@ -148,154 +152,470 @@ universityRoutes.post(
       }
     });
 
+    auditChange(c, { entityId: program.id, after: program });
+
     return c.json({ program }, 201);
   }
 );
 
-// Update program
-universityRoutes.patch("/programs/:id", requireAuth, requireRole("UNIVERSITY_ADMIN"), async (c) => {
-  const auth = c.get("auth");
-  const programId = c.req.param("id");
-  const data = await c.req.json();
-  
-  const universityAdmin = await db.universityAdmin.findUnique({
-    where: { userId: auth.userId }
-  });
+// Update program. The employer, status and slot counters are not editable here: status
+// changes go through publishing and slot accounting.
+const updateProgramSchema = createProgramSchema.omit({ employerId: true }).partial();
 
-  if (!universityAdmin || !universityAdmin.canManagePrograms) {
-    return c.json({ error: "Not authorized to manage programs" }, 403);
-  }
+universityRoutes.patch(
+  "/programs/:id",
+  requireAuth,
+  requirePermission("program.manage"),
+  zValidator("json", updateProgramSchema),
+  async (c) => {
+    const programId = c.req.param("id");
+    const { totalSlots, ...data } = c.req.valid("json");
+
+    const before = await authorizeProgram(c.get("actor"), "program.manage", programId);
+
+    // Keep available slots in step with capacity changes, in the same transaction so a
+    // concurrent reservation cannot skew them
+    const program = await serializable(async (tx) => {
+      const slots = totalSlots === undefined
+        ? {}
+        : { totalSlots, availableSlots: await resizeProgramSlots(tx, programId, totalSlots) };
+
+      return tx.program.update({
+        where: { id: programId },
+        data: {
+          ...data,
+          ...slots,
+          applicationDeadline: data.applicationDeadline ? new Date(data.applicationDeadline) : undefined,
+          startDate: data.startDate ? new Date(data.startDate) : undefined,
+          endDate: data.endDate ? new Date(data.endDate) : undefined
+        },
+        include: {
+          university: true,
+          employer: true
+        }
+      });
+    });
 
-  // Verify program belongs to this university
-  const existingProgram = await db.program.findFirst({
-    where: { id: programId, universityId: universityAdmin.universityId }
-  });
+    auditChange(c, { before, after: program });
 
-  if (!existingProgram) {
-    return c.json({ error: "Program not found" }, 404);
+    return c.json({ program });
   }
+);
+
+// Publish/unpublish program
+universityRoutes.post("/programs/:id/publish", requireAuth, requirePermission("program.manage"), async (c) => {
+  const programId = c.req.param("id");
+
+  const existingProgram = await authorizeProgram(c.get("actor"), "program.manage", programId);
 
   const program = await db.program.update({
     where: { id: programId },
-    data: {
-      ...data,
-      applicationDeadline: data.applicationDeadline ? new Date(data.applicationDeadline) : undefined,
-      startDate: data.startDate ? new Date(data.startDate) : undefined,
-      endDate: data.endDate ? new Date(data.endDate) : undefined
-    },
-    include: {
-      university: true,
-      employer: true
+    data: { 
+      isPublished: !existingProgram.isPublished,
+      status: !existingProgram.isPublished ? "OPEN" : "DRAFT"
     }
   });
 
+  auditChange(c, { before: existingProgram, after: program });
+
   return c.json({ program });
 });
 
-// Publish/unpublish program
-universityRoutes.post("/programs/:id/publish", requireAuth, requireRole("UNIVERSITY_ADMIN"), async (c) => {
-  const auth = c.get("auth");
+// Get program waitlist in promotion order
+universityRoutes.get("/programs/:id/waitlist", requireAuth, requirePermission("application.review"), async (c) => {
   const programId = c.req.param("id");
-  
-  const universityAdmin = await db.universityAdmin.findUnique({
-    where: { userId: auth.userId }
+  const cohortId = c.req.query("cohortId") || null;
+
+  await authorizeProgram(c.get("actor"), "application.review", programId);
+
+  const waitlist = await db.application.findMany({
+    where: { programId, cohortId, status: "WAITLISTED" },
+    include: {
+      student: {
+        include: {
+          user: {
+            select: { firstName: true, lastName: true, email: true }
+          }
+        }
+      }
+    },
+    orderBy: { waitlistPosition: "asc" }
   });
 
-  if (!universityAdmin || !universityAdmin.canManagePrograms) {
-    return c.json({ error: "Not authorized to manage programs" }, 403);
+  return c.json({ waitlist });
+});
+
+// Reorder program waitlist
+const reorderWaitlistSchema = z.object({
+  cohortId: z.string().nullable().optional(),
+  applicationIds: z.array(z.string())
+});
+
+universityRoutes.put(
+  "/programs/:id/waitlist",
+  requireAuth,
+  requirePermission("application.review"),
+  zValidator("json", reorderWaitlistSchema),
+  async (c) => {
+    const programId = c.req.param("id");
+    const data = c.req.valid("json");
+
+    await authorizeProgram(c.get("actor"), "application.review", programId);
+
+    const scope = { programId, cohortId: data.cohortId ?? null };
+
+    await db.$transaction((tx) => reorderWaitlist(tx, scope, data.applicationIds));
+
+    const waitlist = await db.application.findMany({
+      where: { ...scope, status: "WAITLISTED" },
+      select: { id: true, applicationNumber: true, waitlistPosition: true },
+      orderBy: { waitlistPosition: "asc" }
+    });
+
+    return c.json({ waitlist });
   }
+);
+
+// List program cohorts
+universityRoutes.get("/programs/:id/cohorts", requireAuth, requirePermission("program.view"), async (c) => {
+  const programId = c.req.param("id");
+
+  await authorizeProgram(c.get("actor"), "program.view", programId);
 
-  const existingProgram = await db.program.findFirst({
-    where: { id: programId, universityId: universityAdmin.universityId }
+  const cohorts = await db.cohort.findMany({
+    where: { programId },
+    include: {
+      _count: {
+        select: { applications: { where: { status: { in: SEAT_HOLDING_STATUSES } } } }
+      }
+    },
+    orderBy: { startDate: "asc" }
   });
 
-  if (!existingProgram) {
-    return c.json({ error: "Program not found" }, 404);
+  return c.json({ cohorts });
+});
+
+// Create cohort schema
+const createCohortSchema = z.object({
+  name: z.string().min(1),
+  startDate: z.string().datetime({ offset: true }),
+  endDate: z.string().datetime({ offset: true }),
+  maxCapacity: z.number().int().min(1)
+}).refine((data) => new Date(data.endDate) > new Date(data.startDate), {
+  message: "endDate must be after startDate",
+  path: ["endDate"]
+});
+
+// Create cohort
+universityRoutes.post(
+  "/programs/:id/cohorts",
+  requireAuth,
+  requirePermission("program.manage"),
+  zValidator("json", createCohortSchema),
+  async (c) => {
+    const programId = c.req.param("id");
+    const data = c.req.valid("json");
+
+    await authorizeProgram(c.get("actor"), "program.manage", programId);
+
+    const cohort = await db.cohort.create({
+      data: {
+        programId,
+        name: data.name,
+        maxCapacity: data.maxCapacity,
+        startDate: new Date(data.startDate),
+        endDate: new Date(data.endDate)
+      }
+    });
+
+    return c.json({ cohort }, 201);
   }
+);
 
-  const program = await db.program.update({
-    where: { id: programId },
-    data: { 
-      isPublished: !existingProgram.isPublished,
-      status: !existingProgram.isPublished ? "OPEN" : "DRAFT"
+// Update cohort schema
+const updateCohortSchema = z.object({
+  name: z.string().min(1).optional(),
+  startDate: z.string().datetime({ offset: true }).optional(),
+  endDate: z.string().datetime({ offset: true }).optional(),
+  maxCapacity: z.number().int().min(1).optional(),
+  status: z.enum(COHORT_STATUSES).optional()
+});
+
+// Update cohort details, capacity or status
+universityRoutes.patch(
+  "/programs/:id/cohorts/:cohortId",
+  requireAuth,
+  requirePermission("program.manage"),
+  zValidator("json", updateCohortSchema),
+  async (c) => {
+    const programId = c.req.param("id");
+    const cohortId = c.req.param("cohortId");
+    const data = c.req.valid("json");
+
+    const existingCohort = await authorizeCohort(c.get("actor"), "program.manage", cohortId, programId);
+
+    const startDate = data.startDate ? new Date(data.startDate) : existingCohort.startDate;
+    const endDate = data.endDate ? new Date(data.endDate) : existingCohort.endDate;
+
+    if (endDate <= startDate) {
+      return c.json({ error: "endDate must be after startDate" }, 400);
     }
-  });
 
-  return c.json({ program });
-});
+    if (data.status && data.status !== existingCohort.status) {
+      assertCohortTransition(existingCohort.status, data.status);
+    }
 
-// Get applications for university programs
-universityRoutes.get("/applications", requireAuth, requireRole("UNIVERSITY_ADMIN"), async (c) => {
-  const auth = c.get("auth");
-  const status = c.req.query("status");
-  const programId = c.req.query("programId");
-  
-  const universityAdmin = await db.universityAdmin.findUnique({
-    where: { userId: auth.userId }
-  });
+    const cohort = await serializable(async (tx) => {
+      if (data.maxCapacity !== undefined) {
+        const taken = await cohortSeatsTaken(tx, cohortId);
 
-  if (!universityAdmin || !universityAdmin.canReviewApplications) {
-    return c.json({ error: "Not authorized to review applications" }, 403);
+        if (data.maxCapacity < taken) {
+          throw new APIError(400, `Cannot reduce capacity below the ${taken} seats already assigned`, "INVALID_CAPACITY");
+        }
+      }
+
+      return tx.cohort.update({
+        where: { id: cohortId },
+        data: { ...data, startDate, endDate }
+      });
+    });
+
+    auditChange(c, { before: existingCohort, after: cohort });
+
+    return c.json({ cohort });
   }
+);
+
+// Delete an unused cohort
+universityRoutes.delete("/programs/:id/cohorts/:cohortId", requireAuth, requirePermission("program.manage"), async (c) => {
+  const programId = c.req.param("id");
+  const cohortId = c.req.param("cohortId");
 
-  type WhereClause = {
-    program: { universityId: string };
-    status?: string;
-    programId?: string;
-  };
+  const existingCohort = await authorizeCohort(c.get("actor"), "program.manage", cohortId, programId);
 
-  const whereClause: WhereClause = {
-    program: { universityId: universityAdmin.universityId }
-  };
+  const applications = await db.application.count({ where: { cohortId } });
 
-  if (status) {
-    whereClause.status = status;
+  if (applications > 0) {
+    return c.json({ error: "Move or unassign applications before deleting this cohort" }, 409);
   }
-  if (programId) {
-    whereClause.programId = programId;
+
+  await db.cohort.delete({ where: { id: cohortId } });
+
+  auditChange(c, { before: existingCohort });
+
+  return c.json({ success: true });
+});
+
+// Assign accepted applications to a cohort
+const assignCohortSchema = z.object({
+  applicationIds: z.array(z.string()).min(1)
+});
+
+universityRoutes.post(
+  "/programs/:id/cohorts/:cohortId/assign",
+  requireAuth,
+  requirePermission("program.manage"),
+  zValidator("json", assignCohortSchema),
+  async (c) => {
+    const programId = c.req.param("id");
+    const cohortId = c.req.param("cohortId");
+    const { applicationIds } = c.req.valid("json");
+
+    await authorizeProgram(c.get("actor"), "program.manage", programId);
+
+    const assigned = await serializable(async (tx) => {
+      const cohort = await tx.cohort.findFirst({
+        where: { id: cohortId, programId }
+      });
+
+      if (!cohort) {
+        throw new APIError(404, "Cohort not found", "NOT_FOUND");
+      }
+
+      return assignToCohort(tx, cohort, [...new Set(applicationIds)]);
+    });
+
+    auditChange(c, { before: { cohortIds: assigned.before }, after: { cohortIds: assigned.after } });
+
+    return c.json({ assigned: assigned.count });
   }
+);
 
-  const applications = await db.application.findMany({
-    where: whereClause as any,
-    include: {
+// Transfer applications to another cohort of the same program
+const transferCohortSchema = z.object({
+  targetCohortId: z.string(),
+  applicationIds: z.array(z.string()).min(1)
+});
+
+universityRoutes.post(
+  "/programs/:id/cohorts/:cohortId/transfer",
+  requireAuth,
+  requirePermission("program.manage"),
+  zValidator("json", transferCohortSchema),
+  async (c) => {
+    const programId = c.req.param("id");
+    const cohortId = c.req.param("cohortId");
+    const data = c.req.valid("json");
+
+    if (data.targetCohortId === cohortId) {
+      return c.json({ error: "Target cohort must differ from the source cohort" }, 400);
+    }
+
+    await authorizeProgram(c.get("actor"), "program.manage", programId);
+
+    const transferred = await serializable(async (tx) => {
+      const cohorts = await tx.cohort.findMany({
+        where: {
+          id: { in: [cohortId, data.targetCohortId] },
+          programId
+        }
+      });
+
+      const source = cohorts.find((cohort) => cohort.id === cohortId);
+      const target = cohorts.find((cohort) => cohort.id === data.targetCohortId);
+
+      if (!source || !target) {
+        throw new APIError(404, "Cohort not found", "NOT_FOUND");
+      }
+
+      return transferBetweenCohorts(tx, source, target, [...new Set(data.applicationIds)]);
+    });
+
+    auditChange(c, { before: { cohortIds: transferred.before }, after: { cohortIds: transferred.after } });
+
+    return c.json({ transferred: transferred.count });
+  }
+);
+
+// Export cohort roster as JSON or CSV (?format=csv)
+universityRoutes.get("/programs/:id/cohorts/:cohortId/roster", requireAuth, requirePermission("program.view"), async (c) => {
+  const programId = c.req.param("id");
+  const cohortId = c.req.param("cohortId");
+
+  const cohort = await authorizeCohort(c.get("actor"), "program.view", cohortId, programId);
+
+  const roster = await db.application.findMany({
+    where: { cohortId, status: { in: SEAT_HOLDING_STATUSES } },
+    select: {
+      id: true,
+      applicationNumber: true,
+      status: true,
+      acceptedAt: true,
       student: {
-        include: {
+        select: {
           user: {
-            select: { firstName: true, lastName: true, email: true, avatarUrl: true }
+            select: { firstName: true, lastName: true, email: true, phone: true }
           }
         }
-      },
-      program: {
-        include: { employer: true }
-      },
-      documents: {
-        include: { document: true }
       }
     },
-    orderBy: { submittedAt: "desc" }
+    orderBy: { acceptedAt: "asc" }
   });
 
-  return c.json({ applications });
+  if (c.req.query("format") === "csv") {
+    const csv = toCsv(
+      ["applicationNumber", "firstName", "lastName", "email", "phone", "status", "acceptedAt"],
+      roster.map(({ applicationNumber, status, acceptedAt, student: { user } }) => [
+        applicationNumber, user.firstName, user.lastName, user.email, user.phone, status, acceptedAt
+      ])
+    );
+
+    const fileName = cohort.name.replace(/[^a-zA-Z0-9-]+/g, "-");
+
+    return c.body(csv, 200, {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${fileName}-roster.csv"`
+    });
+  }
+
+  return c.json({ cohort, roster });
+});
+
+const attendanceSchema = z.object({
+  records: z.array(z.object({
+    applicationId: z.string(),
+    attendanceRate: z.number().min(0).max(100)
+  })).min(1)
 });
 
+// Record attendance for enrolled students; stipend payouts are held or released to match
+universityRoutes.put(
+  "/programs/:id/cohorts/:cohortId/attendance",
+  requireAuth,
+  requirePermission("program.manage"),
+  zValidator("json", attendanceSchema),
+  async (c) => {
+    const programId = c.req.param("id");
+    const cohortId = c.req.param("cohortId");
+    const { records } = c.req.valid("json");
+
+    await authorizeCohort(c.get("actor"), "program.manage", cohortId, programId);
+
+    const result = await recordAttendance(cohortId, records);
+
+    return c.json(result);
+  }
+);
+
+// Get applications for university programs
+const listApplicationsSchema = z.object({
+  status: z.nativeEnum(ApplicationStatus).optional(),
+  programId: z.string().optional(),
+  minScore: z.coerce.number().optional(),
+  maxScore: z.coerce.number().optional(),
+  sort: z.enum(["aiScore", "submittedAt"]).default("submittedAt"),
+  order: z.enum(["asc", "desc"]).default("desc")
+});
+
+universityRoutes.get(
+  "/applications",
+  requireAuth,
+  requirePermission("application.view"),
+  zValidator("query", listApplicationsSchema),
+  async (c) => {
+    const { status, programId, minScore, maxScore, sort, order } = c.req.valid("query");
+
+    const { universityId } = actingUniversity(c.get("actor"));
+
+    const whereClause: Prisma.ApplicationWhereInput = {
+      program: { universityId },
+      ...(status && { status }),
+      ...(programId && { programId }),
+      ...((minScore !== undefined || maxScore !== undefined) && { aiScore: { gte: minScore, lte: maxScore } })
+    };
+
+    const applications = await db.application.findMany({
+      where: whereClause,
+      include: {
+        student: {
+          include: {
+            user: {
+              select: { firstName: true, lastName: true, email: true, avatarUrl: true }
+            }
+          }
+        },
+        program: {
+          include: { employer: true }
+        },
+        documents: {
+          include: { document: true }
+        }
+      },
+      orderBy: { [sort]: { sort: order, nulls: "last" } }
+    });
+
+    return c.json({ applications });
+  }
+);
+
 // Get single application detail
-universityRoutes.get("/applications/:id", requireAuth, requireRole("UNIVERSITY_ADMIN"), async (c) => {
-  const auth = c.get("auth");
+universityRoutes.get("/applications/:id", requireAuth, requirePermission("application.view"), async (c) => {
   const applicationId = c.req.param("id");
-  
-  const universityAdmin = await db.universityAdmin.findUnique({
-    where: { userId: auth.userId }
-  });
 
-  if (!universityAdmin) {
-    return c.json({ error: "Not authorized" }, 403);
-  }
+  await authorizeApplication(c.get("actor"), "application.view", applicationId);
 
-  const application = await db.application.findFirst({
-    where: { 
-      id: applicationId,
-      program: { universityId: universityAdmin.universityId }
-    },
+  const application = await db.application.findUnique({
+    where: { id: applicationId },
     include: {
       student: {
         include: {
@@ -313,16 +633,12 @@ universityRoutes.get("/applications/:id", requireAuth, requireRole("UNIVERSITY_A
     }
   });
 
-  if (!application) {
-    return c.json({ error: "Application not found" }, 404);
-  }
-
   return c.json({ application });
 });
 
 // Update application status (review)
 const updateApplicationSchema = z.object({
-  status: z.enum(["UNDER_REVIEW", "SHORTLISTED", "INTERVIEW_SCHEDULED", "ACCEPTED", "REJECTED"]),
+  status: z.enum(["UNDER_REVIEW", "SHORTLISTED", "INTERVIEW_SCHEDULED", "WAITLISTED", "ACCEPTED", "REJECTED"]),
   reviewNotes: z.string().optional(),
   rejectionReason: z.string().optional(),
   interviewDate: z.string().optional()
@@ -331,80 +647,156 @@ const updateApplicationSchema = z.object({
 universityRoutes.patch(
   "/applications/:id",
   requireAuth,
-  requireRole("UNIVERSITY_ADMIN"),
+  requirePermission("application.review"),
   zValidator("json", updateApplicationSchema),
   async (c) => {
     const auth = c.get("auth");
     const applicationId = c.req.param("id");
     const data = c.req.valid("json");
-    
-    const universityAdmin = await db.universityAdmin.findUnique({
-      where: { userId: auth.userId }
-    });
 
-    if (!universityAdmin || !universityAdmin.canReviewApplications) {
-      return c.json({ error: "Not authorized to review applications" }, 403);
-    }
+    const before = await authorizeApplication(c.get("actor"), "application.review", applicationId);
 
-    const existingApplication = await db.application.findFirst({
-      where: { 
-        id: applicationId,
-        program: { universityId: universityAdmin.universityId }
+    await transitionApplication({
+      applicationId,
+      to: data.status,
+      actor: { userId: auth.userId, role: auth.role },
+      reason: data.status === "REJECTED" ? data.rejectionReason ?? data.reviewNotes : data.reviewNotes,
+      data: {
+        reviewNotes: data.reviewNotes,
+        reviewedBy: auth.userId,
+        reviewedAt: new Date(),
+        ...(data.status === "REJECTED" && { rejectionReason: data.rejectionReason }),
+        ...(data.status === "INTERVIEW_SCHEDULED" && data.interviewDate && {
+          interviewDate: new Date(data.interviewDate)
+        })
+      },
+      waitlistWhenFull: true
+    });
+
+    const application = await db.application.findUnique({
+      where: { id: applicationId },
+      include: {
+        student: {
+          include: { user: true }
+        },
+        program: true
       }
     });
 
-    if (!existingApplication) {
-      return c.json({ error: "Application not found" }, 404);
-    }
+    auditChange(c, { before, after: application });
 
-    type UpdateData = {
-      status: string;
-      reviewNotes?: string;
-      reviewedBy: string;
-      reviewedAt: Date;
-      rejectedAt?: Date;
-      rejectionReason?: string;
-      acceptedAt?: Date;
-      interviewDate?: Date;
-    };
+    return c.json({ application });
+  }
+);
 
-    const updateData: UpdateData = {
-      status: data.status,
-      reviewNotes: data.reviewNotes,
-      reviewedBy: auth.userId,
-      reviewedAt: new Date()
-    };
+// Recompute the AI match score for an application
+universityRoutes.post("/applications/:id/score", requireAuth, requirePermission("application.review"), async (c) => {
+  const applicationId = c.req.param("id");
 
-    if (data.status === "REJECTED") {
-      updateData.rejectedAt = new Date();
-      updateData.rejectionReason = data.rejectionReason;
-    }
+  await authorizeApplication(c.get("actor"), "application.review", applicationId);
 
-    if (data.status === "ACCEPTED") {
-      updateData.acceptedAt = new Date();
-    }
+  const application = await scoreApplication(applicationId);
 
-    if (data.status === "INTERVIEW_SCHEDULED" && data.interviewDate) {
-      updateData.interviewDate = new Date(data.interviewDate);
+  return c.json({
+    score: {
+      aiScore: application?.aiScore,
+      aiScoreRationale: application?.aiScoreRationale,
+      aiScoreSource: application?.aiScoreSource,
+      aiScoredAt: application?.aiScoredAt
     }
+  });
+});
 
-    const application = await db.application.update({
-      where: { id: applicationId },
-      data: updateData as any,
+// Fee waiver requests on this university's programs
+const listFeeWaiversSchema = z.object({
+  status: z.nativeEnum(FeeWaiverStatus).optional()
+});
+
+universityRoutes.get(
+  "/fee-waivers",
+  requireAuth,
+  requirePermission("application.view"),
+  zValidator("query", listFeeWaiversSchema),
+  async (c) => {
+    const { status } = c.req.valid("query");
+
+    const { universityId } = actingUniversity(c.get("actor"));
+
+    const waivers = await db.feeWaiver.findMany({
+      where: {
+        application: { program: { universityId } },
+        ...(status && { status })
+      },
+      orderBy: { createdAt: "asc" },
       include: {
-        student: {
-          include: { user: true }
-        },
-        program: true
+        application: {
+          select: {
+            id: true,
+            applicationNumber: true,
+            status: true,
+            program: { select: { id: true, title: true, applicationFee: true } },
+            student: {
+              include: { user: { select: { firstName: true, lastName: true, email: true } } }
+            }
+          }
+        }
       }
     });
 
-    return c.json({ application });
+    // Supporting documents are stored as ids; attach them for reviewers
+    const documents = await db.document.findMany({
+      where: { id: { in: waivers.flatMap((waiver) => waiver.documentIds) } },
+      select: { id: true, name: true, type: true, fileUrl: true, verificationStatus: true }
+    });
+
+    return c.json({
+      waivers: waivers.map((waiver) => ({
+        ...waiver,
+        documents: documents.filter((document) => waiver.documentIds.includes(document.id))
+      }))
+    });
+  }
+);
+
+// Approve (in full or in part) or reject a fee waiver
+universityRoutes.post(
+  "/fee-waivers/:id/review",
+  requireAuth,
+  requirePermission("application.review"),
+  zValidator("json", feeWaiverDecisionSchema),
+  async (c) => {
+    const auth = c.get("auth");
+    const waiverId = c.req.param("id");
+    const data = c.req.valid("json");
+
+    const existing = await db.feeWaiver.findUnique({
+      where: { id: waiverId },
+      include: {
+        application: {
+          select: {
+            student: { select: { userId: true } },
+            program: { select: { universityId: true, employerId: true } }
+          }
+        }
+      }
+    });
+
+    if (!existing) {
+      return c.json({ error: "Fee waiver not found" }, 404);
+    }
+
+    authorize(c.get("actor"), "application.review", applicationResource(existing.application));
+
+    const { before, after: waiver } = await reviewFeeWaiver(waiverId, auth.userId, data);
+
+    auditChange(c, { before, after: waiver });
+
+    return c.json({ waiver });
   }
 );
 
 // Get list of employers (for program creation)
-universityRoutes.get("/employers", requireAuth, requireRole("UNIVERSITY_ADMIN"), async (c) => {
+universityRoutes.get("/employers", requireAuth, requirePermission("program.manage"), async (c) => {
   const employers = await db.employer.findMany({
     where: { isVerified: true },
     orderBy: { name: "asc" }
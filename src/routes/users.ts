@@ -2,7 +2,7 @@ import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { z } from "zod";
 import { db } from "../lib/db";
-import { requireAuth, requireRole, type AppEnv } from "../middleware/auth";
+import { requireAuth, requirePermission, type AppEnv } from "../middleware/auth";
 
 export const userRoutes = new Hono<AppEnv>();
 
@@ -117,6 +117,10 @@ const studentProfileSchema = z.object({
   scienceGrade: z.string().optional(),
   interestedFields: z.array(z.string()).optional(),
   preferredLocations: z.array(z.string()).optional(),
+  payoutMethod: z.enum(["BANK", "MOBILE_MONEY"]).optional(),
+  payoutProvider: z.string().optional(),
+  payoutAccountNumber: z.string().regex(/^[0-9+ -]{6,20}$/).optional(),
+  payoutAccountName: z.string().optional(),
 });
 
 // Create or update student profile
@@ -201,7 +205,7 @@ userRoutes.get("/student/profile", requireAuth, async (c) => {
 });
 
 // Admin: List all users
-userRoutes.get("/", requireAuth, requireRole("PLATFORM_ADMIN"), async (c) => {
+userRoutes.get("/", requireAuth, requirePermission("platform.manage"), async (c) => {
   const page = parseInt(c.req.query("page") || "1");
   const limit = parseInt(c.req.query("limit") || "20");
   const role = c.req.query("role");
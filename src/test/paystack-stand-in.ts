@@ -0,0 +1,175 @@
+import { createHmac } from "crypto";
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
+import type { AddressInfo } from "net";
+
+// A local stand-in for the parts of the Paystack API we call, for tests. Point
+// PAYSTACK_BASE_URL at its url before lib/paystack is first imported.
+
+export type StandInTransaction = {
+  id: number;
+  reference: string;
+  amount: number; // minor units
+  currency: string;
+  status: string;
+  refunded: number;
+};
+
+export type StandInRefund = {
+  id: number;
+  transaction: StandInTransaction;
+  amount: number;
+  status: string;
+  merchantNote?: string;
+};
+
+async function readBody(req: IncomingMessage) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return chunks.length ? JSON.parse(Buffer.concat(chunks).toString("utf8")) : {};
+}
+
+function reply(res: ServerResponse, statusCode: number, body: unknown) {
+  res.writeHead(statusCode, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+export async function startPaystackStandIn(secretKey: string) {
+  const transactions = new Map<string, StandInTransaction>();
+  const refunds: StandInRefund[] = [];
+  let nextId = 1000;
+
+  // Makes the next refund request fail the way an outage would
+  let outage: number | null = null;
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://stand-in");
+
+    if (req.headers.authorization !== `Bearer ${secretKey}`) {
+      return reply(res, 401, { status: false, message: "Invalid key" });
+    }
+
+    if (req.method === "POST" && url.pathname === "/transaction/initialize") {
+      const body = await readBody(req);
+      const transaction = {
+        id: nextId++,
+        reference: body.reference,
+        amount: body.amount,
+        currency: body.currency,
+        status: "abandoned",
+        refunded: 0,
+      };
+      transactions.set(transaction.reference, transaction);
+
+      return reply(res, 200, {
+        status: true,
+        message: "Authorization URL created",
+        data: {
+          authorization_url: `https://checkout.paystack.test/${transaction.id}`,
+          access_code: `access_${transaction.id}`,
+          reference: transaction.reference,
+        },
+      });
+    }
+
+    if (req.method === "GET" && url.pathname.startsWith("/transaction/verify/")) {
+      const transaction = transactions.get(decodeURIComponent(url.pathname.slice("/transaction/verify/".length)));
+
+      if (!transaction) {
+        return reply(res, 400, { status: false, message: "Transaction reference not found" });
+      }
+
+      return reply(res, 200, {
+        status: true,
+        message: "Verification successful",
+        data: { ...transaction, channel: "card", metadata: { paymentId: transaction.reference } },
+      });
+    }
+
+    if (req.method === "POST" && url.pathname === "/refund") {
+      if (outage !== null) {
+        const statusCode = outage;
+        outage = null;
+        res.writeHead(statusCode, { "Content-Type": "text/html" });
+        return res.end("<html>Bad Gateway</html>");
+      }
+
+      const body = await readBody(req);
+      const transaction = transactions.get(String(body.transaction));
+
+      if (!transaction || transaction.status !== "success") {
+        return reply(res, 404, { status: false, message: "Transaction not found" });
+      }
+
+      const amount = body.amount ?? transaction.amount - transaction.refunded;
+
+      if (amount > transaction.amount - transaction.refunded) {
+        return reply(res, 400, { status: false, message: "Refund amount cannot be more than the unrefunded balance" });
+      }
+
+      transaction.refunded += amount;
+      const refund = { id: nextId++, transaction, amount, status: "pending", merchantNote: body.merchant_note };
+      refunds.push(refund);
+
+      return reply(res, 200, {
+        status: true,
+        message: "Refund has been queued for processing",
+        data: {
+          id: refund.id,
+          status: refund.status,
+          amount: refund.amount,
+          currency: transaction.currency,
+          transaction: { id: transaction.id, reference: transaction.reference },
+        },
+      });
+    }
+
+    reply(res, 404, { status: false, message: "Not found" });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    transactions,
+    refunds,
+
+    // A transaction the payer has already completed
+    addTransaction(reference: string, amount: number, currency = "GHS") {
+      const transaction = { id: nextId++, reference, amount, currency, status: "success", refunded: 0 };
+      transactions.set(reference, transaction);
+      return transaction;
+    },
+
+    failNextRefund(statusCode = 502) {
+      outage = statusCode;
+    },
+
+    // A webhook delivery for a refund, signed the way Paystack signs it
+    refundWebhook(refund: StandInRefund, event: "refund.processed" | "refund.failed") {
+      refund.status = event === "refund.processed" ? "processed" : "failed";
+
+      const body = JSON.stringify({
+        event,
+        data: {
+          id: refund.id,
+          status: refund.status,
+          amount: refund.amount,
+          currency: refund.transaction.currency,
+          transaction_reference: refund.transaction.reference,
+          refund_reference: null,
+          reason: refund.merchantNote,
+        },
+      });
+
+      return {
+        body,
+        headers: { "x-paystack-signature": createHmac("sha512", secretKey).update(body).digest("hex") },
+      };
+    },
+
+    close() {
+      return new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+    },
+  };
+}
@@ -0,0 +1,14 @@
+import { startJobWorker } from "./lib/jobs";
+import { schedulePaymentReconciliation } from "./lib/reconciliation";
+import "./lib/job-handlers";
+
+// Processes the job queue and keeps payment reconciliation scheduled. Runs inside the API
+// by default; start it on its own and set JOB_WORKER_ENABLED=false on the API to scale
+// workers separately.
+startJobWorker();
+
+for (const scope of ["pending", "daily"] as const) {
+  schedulePaymentReconciliation(scope).catch((error) => {
+    console.error(`Failed to schedule ${scope} payment reconciliation:`, error);
+  });
+}